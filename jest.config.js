@@ -1,5 +1,9 @@
 import nextJest from 'next/jest.js'
 
+// Date tests run in a zone far from UTC that observes daylight saving, so day
+// arithmetic that only works in UTC fails here rather than for users
+process.env.TZ = 'Pacific/Auckland'
+
 const createJestConfig = nextJest({
   // Provide the path to your Next.js app to load next.config.js and .env files
   dir: './',
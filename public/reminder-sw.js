@@ -0,0 +1,40 @@
+// NovaTask reminder service worker.
+// Shows reminder notifications on behalf of the page (so they appear while the
+// tab is in the background) and relays the Snooze / Complete actions back to it.
+
+const ACTION_MESSAGE = 'novatask-reminder-action';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const { todoId, reminderId } = event.notification.data || {};
+  const action = event.action || 'open';
+  event.notification.close();
+
+  if (!todoId) return;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+    if (windows.length > 0) {
+      windows.forEach((client) => client.postMessage({ type: ACTION_MESSAGE, action, todoId, reminderId }));
+      if (action === 'open') {
+        await windows[0].focus();
+      }
+      return;
+    }
+
+    // No tab is open: start the app and let it apply the action once the todos have loaded
+    const url = new URL(self.registration.scope);
+    url.searchParams.set('reminderAction', action);
+    url.searchParams.set('todoId', todoId);
+    if (reminderId) url.searchParams.set('reminderId', reminderId);
+    await self.clients.openWindow(url.href);
+  })());
+});
@@ -3,7 +3,10 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ErrorProvider } from "@/contexts/ErrorContext";
 import { ToastProvider } from "@/components/ToastNotification";
+import { LoadingProvider } from "@/components/LoadingProvider";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { TodoProvider } from "@/contexts/TodoContext";
+import { ReminderScheduler } from "@/components/ReminderScheduler";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -34,15 +37,20 @@ export default function RootLayout({
           maxRetries={3}
           showErrorDetails={process.env.NODE_ENV === 'development'}
         >
-          <html lang="en">
-            <body
-              className={`${geistSans.variable} ${geistMono.variable} antialiased`}
-            >
-              <div className="min-h-screen">
-                {children}
-              </div>
-            </body>
-          </html>
+          <TodoProvider>
+            <html lang="en">
+              <body
+                className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+              >
+                <LoadingProvider>
+                  <ReminderScheduler />
+                  <div className="min-h-screen">
+                    {children}
+                  </div>
+                </LoadingProvider>
+              </body>
+            </html>
+          </TodoProvider>
         </ErrorBoundary>
       </ToastProvider>
     </ErrorProvider>
@@ -1,80 +1,116 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useMemo, useState } from "react";
 import { TodoForm } from "@/components/TodoForm";
 import { TodoList } from "@/components/TodoList";
 import { TodoStats } from "@/components/TodoStats";
+import { UndoRedoControls } from "@/components/UndoRedoControls";
 import { TodoFilters } from "@/components/TodoFilters";
 import { NovaLogo } from "@/components/NovaLogo";
 import { MobileNavigation } from "@/components/MobileNavigation";
 import { SlidePanel } from "@/components/SlidePanel";
-import { useErrorHandler } from "@/contexts/ErrorContext";
+import { DataTransferPanel } from "@/components/DataTransferPanel";
+import { ProjectSwitcher } from "@/components/ProjectSwitcher";
+import { SmartViewNav } from "@/components/SmartViewNav";
+import { SearchBar } from "@/components/SearchBar";
+import { SortControl } from "@/components/SortControl";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { collectTags } from "@/utils/tags";
+import { EMPTY_FILTER, TodoFilter, countActiveFilters, filterTodos } from "@/utils/filters";
+import { DEFAULT_PROJECT, Project, belongsToProject } from "@/utils/projects";
+import { buildSearchIndex, getHighlightTerms, parseSearchQuery, searchTodos } from "@/utils/search";
+import { isManualSort, sortTodos } from "@/utils/sorting";
+import {
+  SmartView,
+  SmartViewId,
+  countSmartViews,
+  getSmartView,
+  groupByDueDay,
+  isSmartViewId,
+  matchesSmartView,
+} from "@/utils/smart-views";
+import { commonTodoShortcuts, useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
+import { useViewSort } from "@/hooks/useViewSort";
+import { useFilterPresets } from "@/hooks/useFilterPresets";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useDueClock } from "@/hooks/useDueClock";
 
-export interface Todo {
-  id: string;
-  text: string;
-  completed: boolean;
-  priority: "low" | "medium" | "high";
-  category: string;
-  dueDate?: Date;
-  createdAt: Date;
-}
+// "/" focuses the search box
+const searchShortcuts = commonTodoShortcuts.filter(shortcut => shortcut.key === "/");
 
 export default function Home() {
-  const { handleError } = useErrorHandler();
-  const [todos, setTodos] = useState<Todo[]>([]);
-  const [filter, setFilter] = useState<"all" | "active" | "completed">("all");
-  const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const { todos: allTodos, projects, activeProjectId } = useTodoStore();
+  const activeProject = projects.find(project => project.id === activeProjectId) || DEFAULT_PROJECT;
+  // A smart view, when one is chosen, is shown instead of the active list
+  const { value: storedViewId, setValue: setActiveViewId } = useLocalStorage<SmartViewId | null>("novatask-smart-view", {
+    defaultValue: null
+  });
+  const activeViewId = isSmartViewId(storedViewId) ? storedViewId : null;
+  const activeView = activeViewId ? getSmartView(activeViewId) : null;
+  // Refreshed at midnight and as tasks fall due, so the views stay current while the app is open
+  const now = useDueClock(allTodos);
+  const viewCounts = useMemo(() => countSmartViews(allTodos, now), [allTodos, now]);
+  // Everything below works on the list or view currently shown
+  const todos = useMemo(() => allTodos.filter(todo => activeViewId
+    ? matchesSmartView(todo, activeViewId, now)
+    : belongsToProject(todo, activeProjectId)
+  ), [allTodos, activeViewId, activeProjectId, now]);
+  const [filter, setFilter] = useState<TodoFilter>(EMPTY_FILTER);
+  const savedPresets = useFilterPresets();
+  const [searchQuery, setSearchQuery] = useState("");
+  // Each list and smart view remembers its own sort
+  const [sort, setSort] = useViewSort(activeViewId ?? activeProjectId);
   const [leftSidebarVisible, setLeftSidebarVisible] = useState(true);
   const [rightSidebarVisible, setRightSidebarVisible] = useState(true);
   
   // Mobile navigation state
   const [isMobileFormOpen, setIsMobileFormOpen] = useState(false);
   const [isMobileFiltersOpen, setIsMobileFiltersOpen] = useState(false);
+  const [isMobileListsOpen, setIsMobileListsOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
 
   // Default categories
   const defaultCategories = ["Work", "Personal", "Shopping", "Health", "Learning", "General"];
 
-  // Load todos from localStorage on mount
-  useEffect(() => {
-    const savedTodos = localStorage.getItem("novatask-todos");
-    if (savedTodos) {
-      try {
-        const parsedTodos = JSON.parse(savedTodos).map((todo: Omit<Todo, 'id'> & { id: string }) => ({
-          ...todo,
-          createdAt: new Date(todo.createdAt),
-          dueDate: todo.dueDate ? new Date(todo.dueDate) : undefined,
-        }));
-        setTodos(parsedTodos);
-      } catch (error) {
-        console.error("Error loading todos:", error);
-      }
-    }
-  }, []);
+  useKeyboardShortcuts({ shortcuts: searchShortcuts });
 
-  // Save todos to localStorage whenever todos change
-  useEffect(() => {
-    localStorage.setItem("novatask-todos", JSON.stringify(todos));
-  }, [todos]);
+  const searchIndex = useMemo(() => buildSearchIndex(todos), [todos]);
+  const parsedSearch = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const searchError = "error" in parsedSearch ? parsedSearch.error : null;
+  // A malformed query leaves the list unsearched until it is fixed
+  const searchTerms = useMemo(() => ("terms" in parsedSearch ? parsedSearch.terms : []), [parsedSearch]);
+  const highlightTerms = useMemo(() => getHighlightTerms(searchTerms), [searchTerms]);
 
-  const filteredTodos = todos.filter((todo) => {
-    const matchesStatus = filter === "all"
-      ? true
-      : filter === "active"
-        ? !todo.completed
-        : todo.completed;
+  // Blockers may live in other lists, so readiness is checked against every todo
+  const filteredTodos = filterTodos(searchTodos(todos, searchTerms, searchIndex, { todos: allTodos, now }), filter, { todos: allTodos, now });
+  const isFiltered = searchTerms.length > 0 || countActiveFilters(filter) > 0;
 
-    const matchesCategory = categoryFilter === "all" || todo.category === categoryFilter;
+  const sortedTodos = sortTodos(filteredTodos, sort);
 
-    return matchesStatus && matchesCategory;
-  });
+  // Upcoming is grouped by day, sorted within each day
+  const dayGroups = activeViewId === "upcoming" ? groupByDueDay(sortedTodos, now) : null;
+  const listTodos = dayGroups ? dayGroups.flatMap(group => group.todos) : sortedTodos;
+  const sectionHeadings = dayGroups?.reduce<Record<string, string>>((headings, group) => {
+    headings[group.todos[0].id] = group.label;
+    return headings;
+  }, {});
+  const canReorder = isManualSort(sort) && !dayGroups;
+  const emptyState = activeView
+    ? { icon: activeView.icon, title: activeView.emptyTitle, description: activeView.emptyDescription }
+    : undefined;
+
+  const selectView = (viewId: SmartViewId) => setActiveViewId(viewId);
+  const showList = () => setActiveViewId(null);
 
   // Get all unique categories from todos, combined with defaults
   const categories = Array.from(new Set([
     ...defaultCategories,
+    ...projects.map((project) => project.defaultCategory),
     ...todos.map((todo) => todo.category).filter(Boolean)
   ]));
 
+  const tags = collectTags(todos);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 safe-top safe-bottom">
       {/* Animated background elements */}
@@ -89,16 +125,42 @@ export default function Home() {
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6">
             <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
               <NovaLogo />
-              <TodoStats todos={todos} />
+              <div className="flex items-center gap-4">
+                <UndoRedoControls />
+                <button
+                  type="button"
+                  onClick={() => setIsTransferOpen(true)}
+                  className="w-10 h-10 rounded-lg glass-desktop flex items-center justify-center text-white touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+                  aria-label="Import and export tasks"
+                  title="Import and export"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16l-4-4m0 0l4-4m-4 4h18M17 8l4 4m0 0l-4 4" />
+                  </svg>
+                </button>
+                <TodoStats />
+              </div>
             </div>
           </div>
         </header>
 
+        <DataTransferPanel
+          isOpen={isTransferOpen}
+          onClose={() => setIsTransferOpen(false)}
+          viewTodos={listTodos}
+          viewName={activeView ? activeView.name : activeProject.name}
+        />
+
         {/* Mobile Navigation */}
         <MobileNavigation
           onAddTask={() => setIsMobileFormOpen(true)}
           onToggleFilters={() => setIsMobileFiltersOpen(!isMobileFiltersOpen)}
           isFiltersOpen={isMobileFiltersOpen}
+          onToggleLists={() => setIsMobileListsOpen(!isMobileListsOpen)}
+          isListsOpen={isMobileListsOpen}
+          activeProject={activeProject}
+          activeView={activeView}
+          todayCount={viewCounts.today}
         />
 
         {/* Mobile Slide Panels */}
@@ -115,8 +177,6 @@ export default function Home() {
                 Create New Task
               </h2>
               <TodoForm
-                todos={todos}
-                setTodos={setTodos}
                 categories={categories}
                 onClose={() => setIsMobileFormOpen(false)}
                 isMobilePanel={true}
@@ -124,6 +184,38 @@ export default function Home() {
             </div>
           </SlidePanel>
 
+          {/* Mobile Lists Panel */}
+          <SlidePanel
+            isOpen={isMobileListsOpen}
+            onClose={() => setIsMobileListsOpen(false)}
+            direction="left"
+            size="md"
+          >
+            <div className="p-4">
+              <h2 id="slide-panel-title" className="text-xl font-semibold text-white mb-4 text-center">
+                Your Lists
+              </h2>
+              <div className="space-y-6">
+                <SmartViewNav
+                  counts={viewCounts}
+                  activeViewId={activeViewId}
+                  onSelect={(viewId) => {
+                    selectView(viewId);
+                    setIsMobileListsOpen(false);
+                  }}
+                />
+                <ProjectSwitcher
+                  categories={categories}
+                  onSelect={() => {
+                    showList();
+                    setIsMobileListsOpen(false);
+                  }}
+                  highlightActive={!activeView}
+                />
+              </div>
+            </div>
+          </SlidePanel>
+
           {/* Mobile Filters Panel */}
           <SlidePanel
             isOpen={isMobileFiltersOpen}
@@ -138,9 +230,9 @@ export default function Home() {
               <TodoFilters
                 filter={filter}
                 setFilter={setFilter}
-                categoryFilter={categoryFilter}
-                setCategoryFilter={setCategoryFilter}
                 categories={categories}
+                tags={tags}
+                savedPresets={savedPresets}
                 onClose={() => setIsMobileFiltersOpen(false)}
                 isMobilePanel={true}
               />
@@ -154,11 +246,24 @@ export default function Home() {
           <div className="block md:hidden">
             {/* Todo List Section - Main view on mobile */}
             <div className="glass-mobile rounded-2xl p-4">
-              <h2 className="text-lg font-semibold text-white mb-4 text-center">Your Tasks</h2>
+              <ListHeading project={activeProject} view={activeView} className="text-lg mb-4" />
+              <SearchBar
+                id="task-search-mobile"
+                query={searchQuery}
+                onChange={setSearchQuery}
+                error={searchError}
+                resultCount={filteredTodos.length}
+              />
+              <SortControl id="task-sort-mobile" sort={sort} onChange={setSort} />
               <TodoList
-                todos={filteredTodos}
-                setTodos={setTodos}
+                todos={listTodos}
                 onAddTask={() => setIsMobileFormOpen(true)}
+                highlightTerms={highlightTerms}
+                isFiltered={isFiltered}
+                canReorder={canReorder}
+                sectionHeadings={sectionHeadings}
+                emptyState={emptyState}
+                categories={categories}
               />
             </div>
           </div>
@@ -170,24 +275,42 @@ export default function Home() {
               <div className="grid grid-cols-2 gap-4">
                 <div className="glass-desktop rounded-2xl p-4">
                   <h2 className="text-lg font-semibold text-white mb-4 text-center">Create New Task</h2>
-                  <TodoForm todos={todos} setTodos={setTodos} categories={categories} />
+                  <TodoForm categories={categories} />
                 </div>
-                <div className="glass-desktop rounded-2xl p-4">
+                <div className="glass-desktop rounded-2xl p-4 space-y-6">
+                  <SmartViewNav counts={viewCounts} activeViewId={activeViewId} onSelect={selectView} />
+                  <ProjectSwitcher categories={categories} onSelect={showList} highlightActive={!activeView} />
                   <h2 className="text-lg font-semibold text-white mb-4 text-center">Filter Tasks</h2>
                   <TodoFilters
                     filter={filter}
                     setFilter={setFilter}
-                    categoryFilter={categoryFilter}
-                    setCategoryFilter={setCategoryFilter}
                     categories={categories}
+                    tags={tags}
+                    savedPresets={savedPresets}
                   />
                 </div>
               </div>
 
               {/* Bottom row: Todo List */}
               <div className="glass-desktop rounded-2xl p-4">
-                <h2 className="text-lg font-semibold text-white mb-4 text-center">Your Tasks</h2>
-                <TodoList todos={filteredTodos} setTodos={setTodos} />
+                <ListHeading project={activeProject} view={activeView} className="text-lg mb-4" />
+                <SearchBar
+                  id="task-search-tablet"
+                  query={searchQuery}
+                  onChange={setSearchQuery}
+                  error={searchError}
+                  resultCount={filteredTodos.length}
+                />
+                <SortControl id="task-sort-tablet" sort={sort} onChange={setSort} />
+                <TodoList
+                  todos={listTodos}
+                  highlightTerms={highlightTerms}
+                  isFiltered={isFiltered}
+                  canReorder={canReorder}
+                  sectionHeadings={sectionHeadings}
+                  emptyState={emptyState}
+                  categories={categories}
+                />
               </div>
             </div>
           </div>
@@ -200,8 +323,12 @@ export default function Home() {
                 leftSidebarVisible ? 'translate-x-0 opacity-100 z-10' : 'translate-x-full opacity-0 pointer-events-none z-0'
               }`}>
                 <div className="sticky top-8">
+                  <div className="glass-desktop rounded-2xl p-4 mb-6 space-y-6">
+                    <SmartViewNav counts={viewCounts} activeViewId={activeViewId} onSelect={selectView} />
+                    <ProjectSwitcher categories={categories} onSelect={showList} highlightActive={!activeView} />
+                  </div>
                   <h2 className="text-xl font-semibold text-white mb-4 text-center">Create New Task</h2>
-                  <TodoForm todos={todos} setTodos={setTodos} categories={categories} />
+                  <TodoForm categories={categories} />
                 </div>
               </div>
 
@@ -233,9 +360,25 @@ export default function Home() {
               {/* Center - Your Tasks */}
               <div className="flex-1">
                 <div className="flex justify-center mb-4">
-                  <h2 className="text-xl font-semibold text-white text-center">Your Tasks</h2>
+                  <ListHeading project={activeProject} view={activeView} className="text-xl" />
                 </div>
-                <TodoList todos={filteredTodos} setTodos={setTodos} />
+                <SearchBar
+                  id="task-search"
+                  query={searchQuery}
+                  onChange={setSearchQuery}
+                  error={searchError}
+                  resultCount={filteredTodos.length}
+                />
+                <SortControl id="task-sort" sort={sort} onChange={setSort} />
+                <TodoList
+                  todos={listTodos}
+                  highlightTerms={highlightTerms}
+                  isFiltered={isFiltered}
+                  canReorder={canReorder}
+                  sectionHeadings={sectionHeadings}
+                  emptyState={emptyState}
+                  categories={categories}
+                />
               </div>
 
               {/* Right hide/show button - takes space in layout */}
@@ -272,9 +415,9 @@ export default function Home() {
                   <TodoFilters
                     filter={filter}
                     setFilter={setFilter}
-                    categoryFilter={categoryFilter}
-                    setCategoryFilter={setCategoryFilter}
                     categories={categories}
+                    tags={tags}
+                    savedPresets={savedPresets}
                   />
                 </div>
               </div>
@@ -285,3 +428,17 @@ export default function Home() {
     </div>
   );
 }
+
+// Heading of the task list, naming the list currently shown
+function ListHeading({ project, view, className }: { project: Project; view: SmartView | null; className: string }) {
+  return (
+    <h2 className={`flex items-center justify-center gap-2 font-semibold text-white text-center ${className}`}>
+      {view ? (
+        <span aria-hidden="true">{view.icon}</span>
+      ) : (
+        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: project.color }} aria-hidden="true" />
+      )}
+      {view ? view.name : project.name}
+    </h2>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { Project } from "@/utils/projects";
+import { TodoPriority } from "@/utils/todo-store";
+import { parseDateInput } from "@/utils/due-dates";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  // Every selected task is already done, so the bar offers to reopen them
+  allCompleted: boolean;
+  categories: string[];
+  projects: Project[];
+  onSelectAll: () => void;
+  onExit: () => void;
+  onSetCompleted: (completed: boolean) => void;
+  onDelete: () => void;
+  onSetPriority: (priority: TodoPriority) => void;
+  onSetCategory: (category: string) => void;
+  onSetDueDate: (dueDate: Date | undefined) => void;
+  onMove: (projectId: string) => void;
+}
+
+const selectClassName = "px-2 py-2 text-responsive-xs bg-white/20 border border-white/30 rounded-lg text-white min-h-[40px] touch-target focus-enhanced keyboard-enhanced accessibility-enhanced disabled:opacity-40";
+
+const buttonClassName = "px-3 py-2 text-responsive-xs rounded-lg text-white min-h-[40px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced disabled:opacity-40";
+
+// Actions applied to every selected task at once; each is a single undoable change
+export function BulkActionBar({
+  selectedCount,
+  totalCount,
+  allCompleted,
+  categories,
+  projects,
+  onSelectAll,
+  onExit,
+  onSetCompleted,
+  onDelete,
+  onSetPriority,
+  onSetCategory,
+  onSetDueDate,
+  onMove
+}: BulkActionBarProps) {
+  const disabled = selectedCount === 0;
+
+  return (
+    <div
+      className="sticky top-2 z-20 mb-3 p-3 rounded-xl bg-slate-900/90 border border-purple-400/40 shadow-2xl backdrop-blur-md animate-fade-in"
+      role="toolbar"
+      aria-label={`Bulk actions, ${selectedCount} task${selectedCount === 1 ? "" : "s"} selected`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-responsive-sm text-white font-medium mr-auto" aria-live="polite">
+          {selectedCount} selected
+        </p>
+        {selectedCount < totalCount && (
+          <button type="button" onClick={onSelectAll} className={`${buttonClassName} bg-white/10`}>
+            Select all ({totalCount})
+          </button>
+        )}
+        <button type="button" onClick={onExit} className={`${buttonClassName} bg-white/10`} title="Exit selection (Esc)">
+          Done
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        <button
+          type="button"
+          onClick={() => onSetCompleted(!allCompleted)}
+          disabled={disabled}
+          className={`${buttonClassName} bg-green-600`}
+        >
+          {allCompleted ? "Reopen" : "Complete"}
+        </button>
+        <button type="button" onClick={onDelete} disabled={disabled} className={`${buttonClassName} bg-red-600`}>
+          Delete
+        </button>
+
+        <select
+          value=""
+          onChange={(e) => e.target.value && onSetPriority(e.target.value as TodoPriority)}
+          disabled={disabled}
+          className={selectClassName}
+          aria-label="Set priority of selected tasks"
+        >
+          <option value="" className="bg-slate-800">Priority…</option>
+          <option value="high" className="bg-slate-800">High</option>
+          <option value="medium" className="bg-slate-800">Medium</option>
+          <option value="low" className="bg-slate-800">Low</option>
+        </select>
+
+        <select
+          value=""
+          onChange={(e) => e.target.value && onSetCategory(e.target.value)}
+          disabled={disabled}
+          className={selectClassName}
+          aria-label="Set category of selected tasks"
+        >
+          <option value="" className="bg-slate-800">Category…</option>
+          {categories.map(category => (
+            <option key={category} value={category} className="bg-slate-800">{category}</option>
+          ))}
+        </select>
+
+        <select
+          value=""
+          onChange={(e) => e.target.value && onMove(e.target.value)}
+          disabled={disabled}
+          className={selectClassName}
+          aria-label="Move selected tasks to list"
+        >
+          <option value="" className="bg-slate-800">Move to…</option>
+          {projects.map(project => (
+            <option key={project.id} value={project.id} className="bg-slate-800">{project.name}</option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-1 text-responsive-xs text-purple-200">
+          <span>Due</span>
+          <input
+            type="date"
+            value=""
+            onChange={(e) => {
+              const date = parseDateInput(e.target.value);
+              if (date) onSetDueDate(date);
+            }}
+            disabled={disabled}
+            className={selectClassName}
+            aria-label="Set due date of selected tasks"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => onSetDueDate(undefined)}
+          disabled={disabled}
+          className={`${buttonClassName} bg-white/10`}
+        >
+          Clear due date
+        </button>
+      </div>
+    </div>
+  );
+}
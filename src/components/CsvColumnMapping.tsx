@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { useAsyncOperation } from "@/components/LoadingProvider";
+import { ParsedImport } from "@/utils/data-transfer";
+import {
+  CSV_FIELDS,
+  CsvField,
+  DATE_ORDER_LABELS,
+  DateOrder,
+  convertCsvRows,
+  getLocaleDateOrder,
+  guessColumnMapping,
+} from "@/utils/csv";
+
+interface CsvColumnMappingProps {
+  rows: string[][];
+  // Category for rows without one, and the list new tasks go to
+  defaultCategory: string;
+  projectId?: string;
+  // Called with the checked rows, or null once the mapping changes after a check
+  onChecked: (parsed: ParsedImport | null) => void;
+}
+
+const selectClassName = "w-full px-2 py-1 bg-white/20 border border-white/30 rounded text-white focus-enhanced keyboard-enhanced";
+
+// Step between choosing a CSV file and the import preview: which column holds which field
+export function CsvColumnMapping({ rows, defaultCategory, projectId, onChecked }: CsvColumnMappingProps) {
+  const { execute } = useAsyncOperation();
+  const columnCount = rows.reduce((count, row) => Math.max(count, row.length), 0);
+  const [guessed] = useState(() => guessColumnMapping(rows[0]));
+  // A first row that names any known field is taken to be a header
+  const [hasHeader, setHasHeader] = useState(() => guessed.some(Boolean));
+  // Without names to go by, columns are assumed to be in the order of the CSV export
+  const [mapping, setMapping] = useState<Array<CsvField | null>>(() =>
+    Array.from({ length: columnCount }, (_, index) => (guessed.some(Boolean) ? guessed[index] : CSV_FIELDS[index]?.field) ?? null)
+  );
+  const [dateOrder, setDateOrder] = useState<DateOrder>(() => getLocaleDateOrder());
+  const [isChecking, setIsChecking] = useState(false);
+
+  const sample = rows[hasHeader ? 1 : 0] || [];
+  const dataRowCount = rows.length - (hasHeader ? 1 : 0);
+  const hasTextColumn = mapping.includes("text");
+
+  const setColumnField = (column: number, field: CsvField | null) => {
+    // A field can only come from one column
+    setMapping(current => Array.from({ length: columnCount }, (_, index) => {
+      if (index === column) return field;
+      return field && current[index] === field ? null : current[index] ?? null;
+    }));
+    onChecked(null);
+  };
+
+  const checkRows = async () => {
+    setIsChecking(true);
+    try {
+      const parsed = await execute(
+        (onProgress) => convertCsvRows(rows, { mapping, hasHeader, dateOrder, defaultCategory, projectId }, onProgress),
+        `Checking ${dataRowCount} rows…`,
+        "partial"
+      );
+      onChecked(parsed);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-responsive-sm text-white">
+        <input
+          type="checkbox"
+          checked={hasHeader}
+          onChange={(e) => {
+            setHasHeader(e.target.checked);
+            onChecked(null);
+          }}
+        />
+        The first row holds column names
+      </label>
+
+      <div className="rounded-lg border border-white/10 overflow-x-auto">
+        <table className="w-full text-left text-responsive-xs">
+          <caption className="sr-only">Match each column of the file to a task field</caption>
+          <thead className="bg-white/10 text-purple-200">
+            <tr>
+              <th scope="col" className="px-2 py-1">Column</th>
+              <th scope="col" className="px-2 py-1">Example</th>
+              <th scope="col" className="px-2 py-1">Import as</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from({ length: columnCount }, (_, column) => {
+              const name = hasHeader && rows[0][column]?.trim() ? rows[0][column].trim() : `Column ${column + 1}`;
+              return (
+                <tr key={column} className="border-t border-white/10 align-middle">
+                  <th scope="row" className="px-2 py-1 text-white font-normal">{name}</th>
+                  <td className="px-2 py-1 text-purple-200 max-w-[10rem] truncate">{sample[column] || "—"}</td>
+                  <td className="px-2 py-1">
+                    <select
+                      value={mapping[column] ?? ""}
+                      onChange={(e) => setColumnField(column, (e.target.value || null) as CsvField | null)}
+                      className={selectClassName}
+                      aria-label={`Import ${name} as`}
+                    >
+                      <option value="" className="bg-gray-800">Don&apos;t import</option>
+                      {CSV_FIELDS.map(({ field, label }) => (
+                        <option key={field} value={field} className="bg-gray-800">{label}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {mapping.includes("dueDate") && (
+        <div className="flex items-center gap-2 text-responsive-sm text-purple-200">
+          <label htmlFor="csv-date-order">Dates are written as</label>
+          <select
+            id="csv-date-order"
+            value={dateOrder}
+            onChange={(e) => {
+              setDateOrder(e.target.value as DateOrder);
+              onChecked(null);
+            }}
+            className="px-2 py-1 bg-white/20 border border-white/30 rounded text-white focus-enhanced keyboard-enhanced"
+          >
+            {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map(order => (
+              <option key={order} value={order} className="bg-gray-800">{DATE_ORDER_LABELS[order]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {!hasTextColumn && (
+        <p className="text-responsive-sm text-yellow-200" role="status">Choose the column that holds the task text</p>
+      )}
+
+      <button
+        type="button"
+        onClick={checkRows}
+        disabled={!hasTextColumn || dataRowCount === 0 || isChecking}
+        className="px-3 py-2 bg-purple-600/50 text-white rounded-lg text-responsive-sm min-h-[44px] button-hover-enhanced focus-enhanced keyboard-enhanced disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Check {dataRowCount} row{dataRowCount === 1 ? "" : "s"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,420 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { SlidePanel } from "@/components/SlidePanel";
+import { CsvColumnMapping } from "@/components/CsvColumnMapping";
+import { useToastNotification } from "@/components/ToastNotification";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { Todo } from "@/utils/todo-store";
+import { DEFAULT_PROJECT, DEFAULT_PROJECT_ID } from "@/utils/projects";
+import { describeRetention } from "@/utils/trash";
+import { IMPORT_ACTION_LABELS, ImportAction, ImportMode, ParsedImport, downloadFile, exportFilename, planImport } from "@/utils/data-transfer";
+import { createJsonExport, parseJsonImport } from "@/utils/json-backup";
+import { createCsvExport, parseCsv } from "@/utils/csv";
+import { createICalendar, parseICalendar } from "@/utils/icalendar";
+import { createTodoTxt, parseTodoTxt } from "@/utils/todo-txt";
+
+interface DataTransferPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The tasks shown right now, filtered and sorted, for the CSV export
+  viewTodos: Todo[];
+  viewName: string;
+}
+
+type ImportFormat = "json" | "csv" | "ics" | "todotxt";
+
+interface LoadedFile {
+  name: string;
+  format: ImportFormat;
+  // CSV cells, waiting to be mapped to task fields
+  rows?: string[][];
+}
+
+const buttonClassName = "px-3 py-2 text-white rounded-lg text-responsive-sm min-h-[44px] button-hover-enhanced focus-enhanced keyboard-enhanced disabled:opacity-40 disabled:cursor-not-allowed";
+
+const actionClassNames: Record<ImportAction, string> = {
+  add: "bg-green-600/40 text-green-100",
+  update: "bg-blue-600/40 text-blue-100",
+  skip: "bg-white/10 text-purple-200",
+  error: "bg-red-600/40 text-red-100",
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Export everything to a file, or preview and import a file
+export function DataTransferPanel({ isOpen, onClose, viewTodos, viewName }: DataTransferPanelProps) {
+  const { todos, trashedTodos, projects, activeProjectId, trashRetentionDays, importTodos, setTrashRetention, bindUndo } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const toast = useToastNotification();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [applySettings, setApplySettings] = useState(false);
+  // Tasks for the calendar and todo.txt exports: "all", "view" or "category:<name>"
+  const [exportScope, setExportScope] = useState("all");
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  const [pastedText, setPastedText] = useState("");
+
+  // Trashed todos count too, so merging recognises a task that was deleted here
+  const everyTodo = useMemo(() => [...todos, ...trashedTodos], [todos, trashedTodos]);
+  const plan = useMemo(
+    () => (parsed ? planImport(parsed, everyTodo, projects, mode) : null),
+    [parsed, everyTodo, projects, mode]
+  );
+  const importedRetention = parsed?.settings?.trashRetentionDays ?? trashRetentionDays;
+  // Tasks the file doesn't put in a list are added to the list being shown
+  const activeProject = projects.find(project => project.id === activeProjectId) || DEFAULT_PROJECT;
+  const newTaskDefaults = {
+    defaultCategory: activeProject.defaultCategory,
+    projectId: activeProject.id === DEFAULT_PROJECT_ID ? undefined : activeProject.id,
+  };
+  const categories = useMemo(() => Array.from(new Set(todos.map(todo => todo.category))).sort((a, b) => a.localeCompare(b)), [todos]);
+  const scopedTodos = exportScope === "all"
+    ? todos
+    : exportScope === "view"
+      ? viewTodos
+      : todos.filter(todo => `category:${todo.category}` === exportScope);
+  const canApplySettings = importedRetention !== trashRetentionDays;
+
+  const exportJson = () => {
+    downloadFile(createJsonExport({ todos: everyTodo, projects, trashRetentionDays }), exportFilename("json"), "application/json");
+    announce(`Exported ${plural(everyTodo.length, "task")}`, 'polite');
+  };
+
+  const exportCsv = () => {
+    downloadFile(createCsvExport(viewTodos), exportFilename("csv"), "text/csv");
+    announce(`Exported ${plural(viewTodos.length, "task")} from ${viewName}`, 'polite');
+  };
+
+  const exportCalendar = () => {
+    downloadFile(createICalendar(scopedTodos), exportFilename("ics"), "text/calendar");
+    announce(`Exported ${plural(scopedTodos.length, "task")} to a calendar file`, 'polite');
+  };
+
+  const exportTodoTxt = () => {
+    downloadFile(createTodoTxt(scopedTodos, projects), "todo.txt", "text/plain");
+    announce(`Exported ${plural(scopedTodos.length, "task")} to todo.txt`, 'polite');
+  };
+
+  const loadTodoTxt = (name: string, text: string) => {
+    const result = parseTodoTxt(text, {
+      ...newTaskDefaults,
+      projects,
+      categories: [...categories, ...projects.map(project => project.defaultCategory)],
+      todos: everyTodo,
+    });
+    setFile({ name, format: "todotxt" });
+    setParsed(result);
+    announce(`${name} read: ${plural(result.todos.length + result.errors.length, "task")}`, 'polite');
+  };
+
+  const resetImport = () => {
+    setFile(null);
+    setParsed(null);
+    setFileError(null);
+    setApplySettings(false);
+    setIsPasteOpen(false);
+    setPastedText("");
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const loadFile = async (selected: File | undefined) => {
+    resetImport();
+    if (!selected) return;
+    const text = await selected.text();
+    const fail = (error: string) => {
+      setFileError(error);
+      announce(`Could not read ${selected.name}: ${error}`, 'assertive');
+    };
+
+    if (/\.(csv|tsv)$/i.test(selected.name) || selected.type === "text/csv") {
+      const rows = parseCsv(text);
+      if (rows.length === 0) {
+        fail("The file has no rows");
+        return;
+      }
+      setFile({ name: selected.name, format: "csv", rows });
+      announce(`${selected.name} read: ${plural(rows.length, "row")}. Choose which column holds each field.`, 'polite');
+      return;
+    }
+
+    if (/\.txt$/i.test(selected.name) || selected.type === "text/plain") {
+      loadTodoTxt(selected.name, text);
+      return;
+    }
+
+    const format: ImportFormat = /\.(ics|ical|ifb)$/i.test(selected.name) || selected.type === "text/calendar" ? "ics" : "json";
+    const result = format === "ics" ? parseICalendar(text, newTaskDefaults) : parseJsonImport(text);
+    if ("error" in result) {
+      fail(result.error);
+      return;
+    }
+    setFile({ name: selected.name, format });
+    setParsed(result);
+    announce(`${selected.name} read: ${plural(result.todos.length + result.errors.length, "record")}`, 'polite');
+  };
+
+  const applyImport = () => {
+    if (!plan) return;
+    const changed = plan.todos.length > 0 || plan.projects.length > 0;
+    const undoImport = bindUndo();
+    if (changed) {
+      importTodos(plan.todos, plan.projects);
+    }
+    if (applySettings && canApplySettings) {
+      setTrashRetention(importedRetention);
+    }
+    const message = `Imported ${plural(plan.counts.add, "new task")} and updated ${plural(plan.counts.update, "task")}`;
+    if (changed) {
+      // Only undoes the import, and only while nothing has changed since
+      toast.withActions(message, [{
+        label: "Undo",
+        action: () => {
+          if (!undoImport()) toast.info("This import can no longer be undone");
+        },
+        primary: true
+      }]);
+    } else {
+      toast.success("Settings imported");
+    }
+    announce(message, 'polite');
+    resetImport();
+  };
+
+  return (
+    <SlidePanel isOpen={isOpen} onClose={onClose} direction="right" size="xl" className="overflow-y-auto">
+      <div className="p-4 sm:p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="slide-panel-title" className="text-xl font-semibold text-white">
+            Import &amp; export
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex-shrink-0 rounded-lg glass-desktop flex items-center justify-center touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+            aria-label="Close import and export"
+            title="Close"
+          >
+            <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <section className="space-y-2" aria-labelledby="export-heading">
+          <h3 id="export-heading" className="text-lg font-medium text-white">Export</h3>
+          <p className="text-responsive-sm text-purple-200">
+            A backup of {plural(everyTodo.length, "task")} (including the trash), {plural(projects.length, "list")} and your settings.
+          </p>
+          <button type="button" onClick={exportJson} className={`${buttonClassName} bg-purple-600/50`}>
+            Download JSON backup
+          </button>
+          <p className="text-responsive-sm text-purple-200 pt-2">
+            The {plural(viewTodos.length, "task")} shown in {viewName}, with any search and filters applied, for spreadsheets.
+          </p>
+          <button
+            type="button"
+            onClick={exportCsv}
+            disabled={viewTodos.length === 0}
+            className={`${buttonClassName} bg-purple-600/50`}
+          >
+            Download CSV of this view
+          </button>
+          <p className="text-responsive-sm text-purple-200 pt-2">
+            Due dates for calendar apps as an iCalendar file, or plain text in the todo.txt format.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor="export-scope" className="sr-only">Tasks to export</label>
+            <select
+              id="export-scope"
+              value={exportScope}
+              onChange={(e) => setExportScope(e.target.value)}
+              className="px-2 py-2 min-h-[44px] bg-white/20 border border-white/30 rounded-lg text-white text-responsive-sm focus-enhanced keyboard-enhanced"
+            >
+              <option value="all" className="bg-gray-800">All tasks</option>
+              <option value="view" className="bg-gray-800">This view ({viewName})</option>
+              {categories.map(category => (
+                <option key={category} value={`category:${category}`} className="bg-gray-800">Category: {category}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={exportCalendar}
+              disabled={scopedTodos.length === 0}
+              className={`${buttonClassName} bg-purple-600/50`}
+            >
+              Download {plural(scopedTodos.length, "task")} as .ics
+            </button>
+            <button
+              type="button"
+              onClick={exportTodoTxt}
+              disabled={scopedTodos.length === 0}
+              className={`${buttonClassName} bg-purple-600/50`}
+            >
+              Download as todo.txt
+            </button>
+          </div>
+        </section>
+
+        <section className="space-y-3" aria-labelledby="import-heading">
+          <h3 id="import-heading" className="text-lg font-medium text-white">Import</h3>
+          <div>
+            <label htmlFor="import-file" className="block text-responsive-sm text-purple-200 mb-1">
+              Choose a NovaTask JSON backup, a CSV, calendar (.ics) or todo.txt file
+            </label>
+            <input
+              ref={fileInputRef}
+              id="import-file"
+              type="file"
+              accept=".json,.csv,.tsv,.ics,.txt,application/json,text/csv,text/calendar,text/plain"
+              onChange={(e) => loadFile(e.target.files?.[0])}
+              aria-describedby={fileError ? "import-file-error" : undefined}
+              className="block w-full text-responsive-sm text-purple-100 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-purple-600/50 file:text-white focus-enhanced keyboard-enhanced"
+            />
+            {fileError && (
+              <p id="import-file-error" className="mt-1 text-responsive-sm text-red-300" role="alert">
+                {fileError}
+              </p>
+            )}
+          </div>
+
+          {!file && (
+            isPasteOpen ? (
+              <div className="space-y-2">
+                <label htmlFor="import-paste" className="block text-responsive-sm text-purple-200">
+                  todo.txt lines, one task per line
+                </label>
+                <textarea
+                  id="import-paste"
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  rows={6}
+                  placeholder="(A) 2026-10-19 Call the bank +Home @Errands due:2026-10-25"
+                  className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white font-mono text-responsive-xs placeholder-purple-300/60 focus-enhanced keyboard-enhanced"
+                  autoFocus
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => loadTodoTxt("Pasted text", pastedText)}
+                    disabled={!pastedText.trim()}
+                    className={`${buttonClassName} bg-purple-600/50`}
+                  >
+                    Preview
+                  </button>
+                  <button type="button" onClick={() => setIsPasteOpen(false)} className={`${buttonClassName} bg-white/10`}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button type="button" onClick={() => setIsPasteOpen(true)} className={`${buttonClassName} bg-white/10`}>
+                Paste todo.txt lines
+              </button>
+            )
+          )}
+
+          {file?.rows && (
+            <CsvColumnMapping
+              rows={file.rows}
+              defaultCategory={newTaskDefaults.defaultCategory}
+              projectId={newTaskDefaults.projectId}
+              onChecked={setParsed}
+            />
+          )}
+
+          {file && plan && (
+            <>
+              {file.format !== "json" && (
+                <p className="text-responsive-sm text-purple-200">Tasks the file doesn&apos;t put in a list are added to {activeProject.name}.</p>
+              )}
+              {file.format !== "csv" && (
+                <fieldset className="space-y-1">
+                  <legend className="text-responsive-sm text-purple-200 mb-1">Tasks that already exist here</legend>
+                  <label className="flex items-center gap-2 text-responsive-sm text-white">
+                    <input type="radio" name="import-mode" value="merge" checked={mode === "merge"} onChange={() => setMode("merge")} />
+                    Update them from the file
+                  </label>
+                  <label className="flex items-center gap-2 text-responsive-sm text-white">
+                    <input type="radio" name="import-mode" value="copy" checked={mode === "copy"} onChange={() => setMode("copy")} />
+                    Keep them and import every task as a copy
+                  </label>
+                </fieldset>
+              )}
+
+              {canApplySettings && (
+                <label className="flex items-center gap-2 text-responsive-sm text-white">
+                  <input type="checkbox" checked={applySettings} onChange={(e) => setApplySettings(e.target.checked)} />
+                  Use the file&apos;s trash setting ({describeRetention(importedRetention)} instead of {describeRetention(trashRetentionDays)})
+                </label>
+              )}
+
+              <div className="p-3 bg-white/5 rounded-lg space-y-1 text-responsive-sm text-purple-100" aria-live="polite">
+                <p className="text-white font-medium">{file.name}</p>
+                <p>
+                  {plural(plan.counts.add, "task")} to add · {plural(plan.counts.update, "task")} to update · {plan.counts.skip} unchanged · {plural(plan.counts.error, "error")}
+                </p>
+                {plan.projects.length > 0 && (
+                  <p>New lists: {plan.projects.map(project => project.name).join(", ")}</p>
+                )}
+                {plan.newCategories.length > 0 && (
+                  <p>New categories: {plan.newCategories.join(", ")}</p>
+                )}
+              </div>
+
+              {plan.rows.length > 0 && (
+                <div className="max-h-80 overflow-y-auto rounded-lg border border-white/10">
+                  <table className="w-full text-left text-responsive-xs">
+                    <caption className="sr-only">Import preview, one row per record in the file</caption>
+                    <thead className="bg-white/10 text-purple-200">
+                      <tr>
+                        <th scope="col" className="px-2 py-1">Row</th>
+                        <th scope="col" className="px-2 py-1">Action</th>
+                        <th scope="col" className="px-2 py-1">Task</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {plan.rows.map(row => (
+                        <tr key={row.row} className="border-t border-white/10 align-top">
+                          <td className="px-2 py-1 text-purple-300">{row.row}</td>
+                          <td className="px-2 py-1">
+                            <span className={`px-1.5 py-0.5 rounded ${actionClassNames[row.action]}`}>
+                              {IMPORT_ACTION_LABELS[row.action]}
+                            </span>
+                          </td>
+                          <td className="px-2 py-1 text-white">
+                            <span className="break-words">{row.label}</span>
+                            {row.reason && (
+                              <span className={`block ${row.action === "error" ? "text-red-300" : "text-purple-300"}`}>{row.reason}</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={applyImport}
+                  disabled={plan.todos.length === 0 && plan.projects.length === 0 && !(applySettings && canApplySettings)}
+                  className={`${buttonClassName} bg-green-600/60`}
+                >
+                  Import {plural(plan.todos.length, "task")}
+                </button>
+                <button type="button" onClick={resetImport} className={`${buttonClassName} bg-white/10`}>
+                  Cancel
+                </button>
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+    </SlidePanel>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { Todo } from "@/utils/todo-store";
+import { getBlockedTodos, validateDependency, wouldCreateCycle } from "@/utils/dependencies";
+
+interface DependencyEditorProps {
+  todo: Todo;
+}
+
+const inputClassName = "flex-1 min-w-0 px-3 py-2 text-responsive-sm bg-white/20 border border-white/30 rounded-lg text-white backdrop-blur-sm min-h-[44px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced";
+
+// "Blocked by" / "Blocks" relations of a task, shown in the task detail view
+export function DependencyEditor({ todo }: DependencyEditorProps) {
+  const { todos, addDependency, removeDependency } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const [blockerId, setBlockerId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const blockers = (todo.blockedBy || [])
+    .map(id => todos.find(t => t.id === id))
+    .filter((t): t is Todo => !!t);
+  const blocks = getBlockedTodos(todo, todos);
+  const candidates = todos.filter(t => t.id !== todo.id && !todo.blockedBy?.includes(t.id));
+
+  const add = () => {
+    if (!blockerId) return;
+    const reason = validateDependency(todos, todo.id, blockerId);
+    if (reason) {
+      setError(reason);
+      return;
+    }
+    addDependency(todo.id, blockerId);
+    setBlockerId("");
+    setError(null);
+    announce(`Now blocked by "${todos.find(t => t.id === blockerId)?.text}"`, 'polite');
+  };
+
+  return (
+    <section aria-labelledby={`dependencies-${todo.id}`} className="space-y-3">
+      <h3 id={`dependencies-${todo.id}`} className="text-responsive-sm font-medium text-purple-200">Dependencies</h3>
+
+      {blockers.length > 0 ? (
+        <ul className="space-y-1 text-responsive-xs" aria-label="Blocked by">
+          {blockers.map(blocker => (
+            <li key={blocker.id} className="flex items-center justify-between gap-2 px-2 py-1 bg-white/5 rounded">
+              <span className={blocker.completed ? "text-green-300 line-through" : "text-orange-200"}>
+                <span aria-hidden="true">{blocker.completed ? "✓ " : "🔒 "}</span>
+                {blocker.text}
+                <span className="sr-only">{blocker.completed ? " (done)" : " (open)"}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => {
+                  removeDependency(todo.id, blocker.id);
+                  announce(`No longer blocked by "${blocker.text}"`, 'polite');
+                }}
+                className="text-red-400 opacity-60 hover:opacity-100 p-1 focus-enhanced keyboard-enhanced"
+                aria-label={`Remove dependency on ${blocker.text}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-purple-300 italic text-responsive-xs">Not blocked by any task</p>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="flex gap-2">
+          <select
+            value={blockerId}
+            onChange={(e) => {
+              setBlockerId(e.target.value);
+              setError(null);
+            }}
+            className={inputClassName}
+            aria-label="Add a task this one is blocked by"
+          >
+            <option value="" className="bg-gray-800">Blocked by…</option>
+            {candidates.map(candidate => {
+              const cyclic = wouldCreateCycle(todos, todo.id, candidate.id);
+              return (
+                <option key={candidate.id} value={candidate.id} disabled={cyclic} className="bg-gray-800">
+                  {candidate.text}{cyclic ? " (would create a cycle)" : ""}
+                </option>
+              );
+            })}
+          </select>
+          <button
+            type="button"
+            onClick={add}
+            disabled={!blockerId}
+            className="px-3 py-2 bg-purple-600/50 text-white rounded-lg text-responsive-sm min-h-[44px] disabled:opacity-50 button-hover-enhanced focus-enhanced keyboard-enhanced"
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-400 text-responsive-xs animate-fade-in" role="alert">
+          {error}
+        </p>
+      )}
+
+      {blocks.length > 0 && (
+        <div className="text-responsive-xs text-purple-200">
+          <span className="text-purple-400">Blocks: </span>
+          {blocks.map(t => t.text).join(", ")}
+        </div>
+      )}
+    </section>
+  );
+}
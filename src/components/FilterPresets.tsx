@@ -0,0 +1,285 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { FilterPresetStore } from "@/hooks/useFilterPresets";
+import { useToastNotification } from "@/components/ToastNotification";
+import { ariaUtils } from "@/utils/accessibility";
+import {
+  BUILT_IN_PRESETS,
+  FilterPreset,
+  MAX_PRESET_NAME_LENGTH,
+  MAX_SAVED_PRESETS,
+  TodoFilter,
+  countActiveFilters,
+  describeFilter,
+  filtersEqual,
+  validatePresetName,
+} from "@/utils/filters";
+
+interface FilterPresetsProps {
+  filter: TodoFilter;
+  onApply: (preset: FilterPreset) => void;
+  store: FilterPresetStore;
+}
+
+interface PresetNameFormProps {
+  initialName?: string;
+  presets: FilterPreset[];
+  exceptId?: string;
+  submitLabel: string;
+  onSave: (name: string) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "flex-1 min-w-0 px-3 py-2 text-responsive-sm bg-white/20 border border-white/30 rounded-lg text-white placeholder-purple-300 backdrop-blur-sm min-h-[44px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced";
+
+const iconButtonClassName = "p-2 text-purple-300 opacity-60 hover:opacity-100 disabled:opacity-20 focus-enhanced keyboard-enhanced";
+
+// Name input shared by saving a new preset and renaming one
+function PresetNameForm({ initialName = "", presets, exceptId, submitLabel, onSave, onCancel }: PresetNameFormProps) {
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    const reason = validatePresetName(name, presets, exceptId);
+    if (reason) {
+      setError(reason);
+      return;
+    }
+    onSave(name.trim());
+  };
+
+  return (
+    <div
+      className="space-y-2"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              save();
+            }
+          }}
+          maxLength={MAX_PRESET_NAME_LENGTH}
+          placeholder="Preset name"
+          className={inputClassName}
+          aria-label="Preset name"
+          aria-invalid={!!error}
+          autoFocus
+        />
+        <button
+          type="button"
+          onClick={save}
+          className="px-3 py-2 bg-green-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+        >
+          {submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-2 bg-gray-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && (
+        <p className="text-red-400 text-responsive-xs animate-fade-in" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Quick filter buttons for the built-in and saved presets, plus saving and managing your own
+export function FilterPresets({ filter, onApply, store }: FilterPresetsProps) {
+  const { announce } = useLiveRegion();
+  const { withActions } = useToastNotification();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isManaging, setIsManaging] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const presetsId = useRef(ariaUtils.generateId("filter-presets"));
+
+  const allPresets = [...BUILT_IN_PRESETS, ...store.presets];
+  const canSave = countActiveFilters(filter) > 0 && store.presets.length < MAX_SAVED_PRESETS;
+
+  const remove = (preset: FilterPreset) => {
+    const index = store.presets.findIndex(existing => existing.id === preset.id);
+    store.remove(preset.id);
+    announce(`Preset ${preset.name} deleted`, "polite");
+    withActions(`Preset "${preset.name}" deleted`, [
+      {
+        label: "Undo",
+        action: () => {
+          store.restore(preset, index);
+          announce(`Preset ${preset.name} restored`, "polite");
+        },
+        primary: true
+      }
+    ]);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 id={presetsId.current} className="text-responsive-sm font-medium text-purple-200">Quick Filters</h3>
+        {store.presets.length > 0 && (
+          <button
+            type="button"
+            onClick={() => {
+              setIsManaging(prev => !prev);
+              setRenamingId(null);
+            }}
+            className="px-2 py-1 text-xs text-purple-300 hover:text-white rounded focus-enhanced keyboard-enhanced"
+            aria-expanded={isManaging}
+          >
+            {isManaging ? "Done" : "Manage"}
+          </button>
+        )}
+      </div>
+
+      <div
+        className="grid grid-cols-2 sm:grid-cols-3 gap-2"
+        role="group"
+        aria-labelledby={presetsId.current}
+      >
+        {allPresets.map(preset => {
+          const isActive = filtersEqual(filter, preset.filter);
+          return (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => onApply(preset)}
+              className={`
+                p-3 rounded-lg border touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced micro-interaction card-hover-enhanced
+                ${isActive
+                  ? "bg-purple-600/30 border-purple-400"
+                  : "glass-desktop border-white/20"
+                }
+              `}
+              aria-pressed={isActive}
+              aria-label={`Apply filter: ${preset.name}`}
+              title={describeFilter(preset.filter)}
+            >
+              <div className="flex flex-col items-center gap-1">
+                <span className="text-lg" aria-hidden="true">{preset.icon}</span>
+                <span className="text-responsive-xs text-white truncate max-w-full">{preset.name}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {isManaging && store.presets.length > 0 && (
+        <ul className="mt-3 space-y-1 p-2 bg-white/5 rounded-lg animate-fade-in" aria-label="Saved presets">
+          {store.presets.map((preset, index) => (
+            <li key={preset.id}>
+              {renamingId === preset.id ? (
+                <PresetNameForm
+                  initialName={preset.name}
+                  presets={allPresets}
+                  exceptId={preset.id}
+                  submitLabel="Rename"
+                  onSave={(name) => {
+                    store.rename(preset.id, name);
+                    setRenamingId(null);
+                    announce(`Preset renamed to ${name}`, "polite");
+                  }}
+                  onCancel={() => setRenamingId(null)}
+                />
+              ) : (
+                <div className="flex items-center gap-1">
+                  <span className="flex-1 min-w-0 truncate text-responsive-sm text-white" title={describeFilter(preset.filter)}>
+                    <span aria-hidden="true">{preset.icon} </span>{preset.name}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      store.move(preset.id, -1);
+                      announce(`${preset.name} moved up`, "polite");
+                    }}
+                    disabled={index === 0}
+                    className={iconButtonClassName}
+                    aria-label={`Move ${preset.name} up`}
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      store.move(preset.id, 1);
+                      announce(`${preset.name} moved down`, "polite");
+                    }}
+                    disabled={index === store.presets.length - 1}
+                    className={iconButtonClassName}
+                    aria-label={`Move ${preset.name} down`}
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRenamingId(preset.id)}
+                    className={iconButtonClassName}
+                    aria-label={`Rename preset ${preset.name}`}
+                    title="Rename"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(preset)}
+                    className="p-2 text-red-400 opacity-60 hover:opacity-100 focus-enhanced keyboard-enhanced"
+                    aria-label={`Delete preset ${preset.name}`}
+                    title="Delete preset"
+                  >
+                    ×
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3">
+        {isSaving ? (
+          <PresetNameForm
+            presets={allPresets}
+            submitLabel="Save"
+            onSave={(name) => {
+              store.save(name, filter);
+              setIsSaving(false);
+              announce(`Filter saved as ${name}`, "polite");
+            }}
+            onCancel={() => setIsSaving(false)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsSaving(true)}
+            disabled={!canSave}
+            className="w-full px-3 py-2 text-responsive-xs text-purple-200 border border-dashed border-white/30 rounded-lg hover:text-white disabled:opacity-40 touch-target focus-enhanced keyboard-enhanced"
+            title={countActiveFilters(filter) === 0
+              ? "Choose some filters first"
+              : store.presets.length >= MAX_SAVED_PRESETS ? `Up to ${MAX_SAVED_PRESETS} presets can be saved` : describeFilter(filter)}
+          >
+            + Save current filter as preset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useMemo } from "react";
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from "@/utils/markdown";
+
+interface MarkdownViewProps {
+  source: string;
+  // When set, task list checkboxes become interactive and report their source line
+  onToggleCheckbox?: (line: number) => void;
+  className?: string;
+}
+
+const HEADING_CLASSES = [
+  "text-xl font-bold",
+  "text-lg font-bold",
+  "text-base font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-medium",
+  "text-xs font-medium uppercase tracking-wide",
+];
+
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "strong":
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "code":
+        return (
+          <code key={index} className="px-1 py-0.5 bg-black/30 rounded text-purple-100 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-300 underline hover:text-blue-200 link-hover-enhanced focus-enhanced"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, index: number, onToggleCheckbox?: (line: number) => void) {
+  switch (block.type) {
+    case "heading": {
+      const Tag = `h${Math.min(block.level + 2, 6)}` as "h3" | "h4" | "h5" | "h6";
+      return (
+        <Tag key={index} className={`${HEADING_CLASSES[block.level - 1]} text-white mt-3 first:mt-0`}>
+          {renderInline(block.children)}
+        </Tag>
+      );
+    }
+    case "paragraph":
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case "list": {
+      const ListTag = block.ordered ? "ol" : "ul";
+      const isTaskList = block.items.some(item => item.checked !== undefined);
+      return (
+        <ListTag
+          key={index}
+          className={`${isTaskList ? "list-none pl-1" : block.ordered ? "list-decimal pl-5" : "list-disc pl-5"} space-y-1`}
+        >
+          {block.items.map(item => (
+            <li key={item.line} className={item.checked !== undefined ? "flex items-start gap-2" : undefined}>
+              {item.checked !== undefined && (
+                <input
+                  type="checkbox"
+                  checked={item.checked}
+                  disabled={!onToggleCheckbox}
+                  onChange={() => onToggleCheckbox?.(item.line)}
+                  className="mt-1 accent-purple-500 focus-enhanced keyboard-enhanced"
+                  aria-label={`Mark checklist item as ${item.checked ? "not done" : "done"}`}
+                />
+              )}
+              <span className={item.checked ? "line-through opacity-70" : undefined}>
+                {renderInline(item.children)}
+              </span>
+            </li>
+          ))}
+        </ListTag>
+      );
+    }
+    case "code":
+      return (
+        <pre key={index} className="p-3 bg-black/30 rounded-lg overflow-x-auto text-xs">
+          <code className="font-mono text-purple-100" data-language={block.language}>
+            {block.text}
+          </code>
+        </pre>
+      );
+    case "rule":
+      return <hr key={index} className="border-white/20" />;
+  }
+}
+
+export function MarkdownView({ source, onToggleCheckbox, className = "" }: MarkdownViewProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  if (blocks.length === 0) {
+    return <p className={`text-purple-300 italic text-responsive-sm ${className}`}>Nothing to preview</p>;
+  }
+
+  return (
+    <div className={`space-y-2 text-responsive-sm text-purple-100 break-words ${className}`}>
+      {blocks.map((block, index) => renderBlock(block, index, onToggleCheckbox))}
+    </div>
+  );
+}
@@ -3,14 +3,32 @@
 import { useState, useCallback, useRef } from "react";
 import { useLiveRegion } from "@/hooks/useAccessibility";
 import { ariaUtils } from "@/utils/accessibility";
+import { Project } from "@/utils/projects";
+import { SmartView } from "@/utils/smart-views";
 
 interface MobileNavigationProps {
   onAddTask: () => void;
   onToggleFilters: () => void;
   isFiltersOpen: boolean;
+  onToggleLists: () => void;
+  isListsOpen: boolean;
+  activeProject: Project;
+  // Smart view shown instead of a list, if any
+  activeView?: SmartView | null;
+  // Open tasks due today or overdue, shown as a badge on the list switcher
+  todayCount?: number;
 }
 
-export function MobileNavigation({ onAddTask, onToggleFilters, isFiltersOpen }: MobileNavigationProps) {
+export function MobileNavigation({
+  onAddTask,
+  onToggleFilters,
+  isFiltersOpen,
+  onToggleLists,
+  isListsOpen,
+  activeProject,
+  activeView = null,
+  todayCount = 0
+}: MobileNavigationProps) {
   const [isPressed, setIsPressed] = useState<string | null>(null);
   const { announce } = useLiveRegion();
   
@@ -35,6 +53,12 @@ export function MobileNavigation({ onAddTask, onToggleFilters, isFiltersOpen }:
     announce(isFiltersOpen ? 'Closing filters' : 'Opening filters', 'polite');
   }, [onToggleFilters, isFiltersOpen, handleButtonPress, announce]);
 
+  const handleToggleLists = useCallback(() => {
+    handleButtonPress("lists");
+    onToggleLists();
+    announce(isListsOpen ? 'Closing lists' : 'Opening lists', 'polite');
+  }, [onToggleLists, isListsOpen, handleButtonPress, announce]);
+
   const handleMenuToggle = useCallback(() => {
     handleButtonPress("menu");
     onToggleFilters();
@@ -111,6 +135,32 @@ export function MobileNavigation({ onAddTask, onToggleFilters, isFiltersOpen }:
               <h1 className="text-white font-semibold">NovaTask</h1>
             </div>
 
+            {/* List Switcher Button */}
+            <button
+              onClick={handleToggleLists}
+              className={`
+                flex items-center gap-2 max-w-[40%] px-3 h-10 rounded-lg glass-desktop text-white text-sm
+                touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced performance-optimized
+                ${isPressed === "lists" ? "scale-95" : ""}
+              `}
+              aria-label={`Switch list, current ${activeView ? `view: ${activeView.name}` : `list: ${activeProject.name}`}${todayCount > 0 ? `, ${todayCount} due today` : ""}`}
+              aria-expanded={isListsOpen}
+              aria-pressed={isPressed === "lists"}
+              title="Switch list"
+            >
+              {activeView ? (
+                <span className="flex-shrink-0" aria-hidden="true">{activeView.icon}</span>
+              ) : (
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: activeProject.color }} aria-hidden="true" />
+              )}
+              <span className="truncate">{activeView ? activeView.name : activeProject.name}</span>
+              {todayCount > 0 && (
+                <span className="min-w-[1.25rem] px-1 rounded-full bg-yellow-500 text-slate-900 text-xs font-semibold text-center flex-shrink-0" aria-hidden="true">
+                  {todayCount}
+                </span>
+              )}
+            </button>
+
             {/* Hamburger Menu Button */}
             <button
               onClick={handleMenuToggle}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { MarkdownView } from "@/components/MarkdownView";
+import { MAX_NOTES_LENGTH } from "@/utils/markdown";
+
+interface NotesEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  id?: string;
+  label?: string;
+  error?: string;
+  rows?: number;
+}
+
+export function NotesEditor({ value, onChange, id = "notes-input", label = "Notes (Optional)", error, rows = 5 }: NotesEditorProps) {
+  const [isPreview, setIsPreview] = useState(false);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label
+          htmlFor={id}
+          className="block text-responsive-sm font-medium text-purple-200"
+        >
+          {label}
+          <span className="text-purple-400 text-xs ml-2" aria-live="polite">
+            {value.length}/{MAX_NOTES_LENGTH}
+          </span>
+        </label>
+        <div className="flex gap-1" role="group" aria-label="Notes view">
+          <button
+            type="button"
+            onClick={() => setIsPreview(false)}
+            className={`px-2 py-1 text-xs rounded button-hover-enhanced focus-enhanced keyboard-enhanced ${
+              !isPreview ? "bg-purple-600 text-white" : "bg-white/10 text-purple-200"
+            }`}
+            aria-pressed={!isPreview}
+          >
+            Write
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsPreview(true)}
+            className={`px-2 py-1 text-xs rounded button-hover-enhanced focus-enhanced keyboard-enhanced ${
+              isPreview ? "bg-purple-600 text-white" : "bg-white/10 text-purple-200"
+            }`}
+            aria-pressed={isPreview}
+          >
+            Preview
+          </button>
+        </div>
+      </div>
+
+      {isPreview ? (
+        <div
+          className="min-h-[120px] px-4 py-3 bg-white/10 border border-white/30 rounded-lg"
+          aria-label="Notes preview"
+        >
+          <MarkdownView source={value} />
+        </div>
+      ) : (
+        <textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={rows}
+          maxLength={MAX_NOTES_LENGTH}
+          placeholder="Details, links, checklists… Markdown supported"
+          className={`w-full px-4 py-3 text-responsive-sm bg-white/20 border rounded-lg text-white placeholder-purple-300 backdrop-blur-sm font-mono input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced ${
+            error ? "border-red-400 focus:ring-red-400 error-enhanced" : "border-white/30"
+          }`}
+          aria-describedby={`${id}-help`}
+          aria-invalid={!!error}
+        />
+      )}
+      <div id={`${id}-help`} className="sr-only">
+        Supports headings, lists, checkboxes, links, code, bold and italic Markdown
+      </div>
+      {error && (
+        <p className="mt-2 text-red-400 text-responsive-xs animate-fade-in" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { useToastNotification } from "@/components/ToastNotification";
+import { useTodoStore } from "@/contexts/TodoContext";
+import {
+  DEFAULT_PROJECT_ID,
+  MAX_PROJECT_NAME_LENGTH,
+  PROJECT_COLORS,
+  Project,
+  belongsToProject,
+  createProject,
+  validateProjectName,
+} from "@/utils/projects";
+
+interface ProjectSwitcherProps {
+  categories: string[];
+  // Called after a list is chosen, e.g. to close the mobile panel
+  onSelect?: () => void;
+  // False while something other than a list (such as a smart view) is shown
+  highlightActive?: boolean;
+}
+
+interface ProjectFormProps {
+  project?: Project;
+  projects: Project[];
+  categories: string[];
+  onSave: (values: Omit<Project, "id">) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "w-full px-3 py-2 text-responsive-sm bg-white/20 border border-white/30 rounded-lg text-white placeholder-purple-300 backdrop-blur-sm min-h-[44px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced";
+
+// Name, colour and default category of a new or existing list
+function ProjectForm({ project, projects, categories, onSave, onCancel }: ProjectFormProps) {
+  const [name, setName] = useState(project?.name || "");
+  const [color, setColor] = useState(project?.color || PROJECT_COLORS[projects.length % PROJECT_COLORS.length]);
+  const [defaultCategory, setDefaultCategory] = useState(project?.defaultCategory || "General");
+  const [error, setError] = useState<string | null>(null);
+  const idPrefix = project ? `project-${project.id}` : "new-project";
+
+  const save = () => {
+    const reason = validateProjectName(name, projects, project?.id);
+    if (reason) {
+      setError(reason);
+      return;
+    }
+    onSave({ name: name.trim(), color, defaultCategory });
+  };
+
+  return (
+    <div
+      className="space-y-2 p-3 bg-white/5 rounded-lg"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <input
+        id={`${idPrefix}-name`}
+        type="text"
+        value={name}
+        onChange={(e) => {
+          setName(e.target.value);
+          setError(null);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            save();
+          }
+        }}
+        maxLength={MAX_PROJECT_NAME_LENGTH}
+        placeholder="List name"
+        className={inputClassName}
+        aria-label="List name"
+        aria-invalid={!!error}
+        autoFocus
+      />
+
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="List colour">
+        {PROJECT_COLORS.map(option => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={color === option}
+            aria-label={`Colour ${option}`}
+            onClick={() => setColor(option)}
+            className={`w-7 h-7 rounded-full border-2 focus-enhanced keyboard-enhanced ${color === option ? "border-white scale-110" : "border-transparent"}`}
+            style={{ backgroundColor: option }}
+          />
+        ))}
+      </div>
+
+      <select
+        id={`${idPrefix}-category`}
+        value={defaultCategory}
+        onChange={(e) => setDefaultCategory(e.target.value)}
+        className={inputClassName}
+        aria-label="Default category for new tasks"
+      >
+        {categories.map(category => (
+          <option key={category} value={category} className="bg-gray-800">
+            {category}
+          </option>
+        ))}
+      </select>
+
+      {error && (
+        <p className="text-red-400 text-responsive-xs animate-fade-in" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={save}
+          className="px-3 py-2 bg-green-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+        >
+          {project ? "Save" : "Create list"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-2 bg-gray-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function ProjectSwitcher({ categories, onSelect, highlightActive = true }: ProjectSwitcherProps) {
+  const { todos, projects, activeProjectId, addProject, updateProject, deleteProject, selectProject } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const { info } = useToastNotification();
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const select = (project: Project) => {
+    selectProject(project.id);
+    announce(`Switched to list ${project.name}`, 'polite');
+    onSelect?.();
+  };
+
+  const remove = (project: Project) => {
+    const moved = todos.filter(todo => belongsToProject(todo, project.id)).length;
+    deleteProject(project.id);
+    announce(`List ${project.name} deleted`, 'polite');
+    if (moved > 0) {
+      info(`${moved} task${moved > 1 ? "s" : ""} from "${project.name}" moved to ${projects[0].name}`);
+    }
+  };
+
+  return (
+    <nav className="space-y-2" aria-label="Task lists">
+      <div className="flex items-center justify-between">
+        <h3 className="text-responsive-sm font-medium text-purple-200">Lists</h3>
+        {!isCreating && (
+          <button
+            type="button"
+            onClick={() => {
+              setIsCreating(true);
+              setEditingId(null);
+            }}
+            className="px-2 py-1 text-xs bg-purple-600/50 text-white rounded touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+          >
+            + New list
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {projects.map(project => {
+          const openCount = todos.filter(todo => belongsToProject(todo, project.id) && !todo.completed).length;
+          const isActive = highlightActive && project.id === activeProjectId;
+
+          if (editingId === project.id) {
+            return (
+              <li key={project.id}>
+                <ProjectForm
+                  project={project}
+                  projects={projects}
+                  categories={categories}
+                  onSave={(values) => {
+                    updateProject(project.id, values);
+                    setEditingId(null);
+                    announce(`List ${values.name} updated`, 'polite');
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              </li>
+            );
+          }
+
+          return (
+            <li key={project.id} className="group flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => select(project)}
+                className={`flex-1 min-w-0 flex items-center gap-2 px-3 py-2 rounded-lg text-left text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced ${
+                  isActive ? "bg-white/20 text-white" : "text-purple-200 hover:bg-white/10"
+                }`}
+                aria-current={isActive ? "page" : undefined}
+                aria-label={`${project.name}, ${openCount} open task${openCount === 1 ? "" : "s"}`}
+              >
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: project.color }} aria-hidden="true" />
+                <span className="flex-1 truncate">{project.name}</span>
+                <span className="text-xs text-purple-300">{openCount}</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingId(project.id);
+                  setIsCreating(false);
+                }}
+                className="p-2 text-purple-300 opacity-60 hover:opacity-100 focus-enhanced keyboard-enhanced"
+                aria-label={`Edit list ${project.name}`}
+                title="Edit list"
+              >
+                ✎
+              </button>
+              {project.id !== DEFAULT_PROJECT_ID && (
+                <button
+                  type="button"
+                  onClick={() => remove(project)}
+                  className="p-2 text-red-400 opacity-60 hover:opacity-100 focus-enhanced keyboard-enhanced"
+                  aria-label={`Delete list ${project.name}`}
+                  title="Delete list"
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {isCreating && (
+        <ProjectForm
+          projects={projects}
+          categories={categories}
+          onSave={(values) => {
+            addProject(createProject(values.name, values.color, values.defaultCategory));
+            setIsCreating(false);
+            announce(`List ${values.name} created`, 'polite');
+            onSelect?.();
+          }}
+          onCancel={() => setIsCreating(false)}
+        />
+      )}
+    </nav>
+  );
+}
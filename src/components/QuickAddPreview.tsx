@@ -0,0 +1,90 @@
+"use client";
+
+import { forwardRef } from "react";
+import { QuickAddField, QuickAddResult, segmentQuickAdd } from "@/utils/quick-add";
+import { describeRecurrence } from "@/utils/recurrence";
+
+const FIELD_STYLES: Record<QuickAddField, string> = {
+  dueDate: "bg-blue-500/40",
+  category: "bg-green-500/40",
+  priority: "bg-red-500/40",
+  recurrence: "bg-amber-500/40",
+};
+
+interface QuickAddHighlightProps {
+  input: string;
+  result: QuickAddResult;
+  className: string;
+}
+
+// Mirror of the text input drawn behind it, with the recognised tokens highlighted.
+// The text itself is transparent so only the highlights show through the input.
+export const QuickAddHighlight = forwardRef<HTMLDivElement, QuickAddHighlightProps>(
+  function QuickAddHighlight({ input, result, className }, ref) {
+    return (
+      <div
+        ref={ref}
+        className={`absolute inset-0 flex items-center overflow-hidden whitespace-pre text-transparent pointer-events-none border border-transparent ${className}`}
+        aria-hidden="true"
+      >
+        {segmentQuickAdd(input, result.tokens).map((segment, index) =>
+          segment.field ? (
+            <mark key={index} className={`rounded text-transparent ${FIELD_STYLES[segment.field]}`}>
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </div>
+    );
+  }
+);
+
+interface QuickAddPreviewProps {
+  id: string;
+  result: QuickAddResult;
+}
+
+// What the task will be created with, shown before submitting
+export function QuickAddPreview({ id, result }: QuickAddPreviewProps) {
+  if (result.tokens.length === 0) return null;
+
+  const formatDue = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      ...(result.hasDueTime ? { hour: "numeric", minute: "2-digit" } : {}),
+    }).format(date);
+
+  const priorityLabel = result.priority && result.priority.charAt(0).toUpperCase() + result.priority.slice(1);
+
+  return (
+    <div id={id} className="mt-2 flex flex-wrap items-center gap-2 text-responsive-xs animate-fade-in" role="status" aria-live="polite">
+      <span className="text-purple-300">
+        Creates <span className="text-white">&quot;{result.text || "…"}&quot;</span>
+      </span>
+      {result.dueDate && (
+        <span className="px-2 py-1 rounded-full bg-blue-500/30 text-blue-100">
+          <span aria-hidden="true">📅 </span>Due {formatDue(result.dueDate)}
+        </span>
+      )}
+      {result.category && (
+        <span className="px-2 py-1 rounded-full bg-green-500/30 text-green-100">
+          <span aria-hidden="true"># </span>{result.category}
+        </span>
+      )}
+      {priorityLabel && (
+        <span className="px-2 py-1 rounded-full bg-red-500/30 text-red-100">
+          <span aria-hidden="true">! </span>{priorityLabel} priority
+        </span>
+      )}
+      {result.recurrence && (
+        <span className="px-2 py-1 rounded-full bg-amber-500/30 text-amber-100">
+          <span aria-hidden="true">🔁 </span>{describeRecurrence(result.recurrence)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import {
+  RECURRENCE_FREQUENCIES,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  Weekday,
+  describeRecurrence,
+  formatRRule,
+} from "@/utils/recurrence";
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  idPrefix?: string;
+  error?: string;
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly",
+};
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+  YEARLY: "year(s)",
+};
+
+// Monday-first for display
+const DISPLAY_WEEKDAYS: Weekday[] = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+type EndMode = "never" | "until" | "count";
+
+const inputClassName = "px-3 py-2 text-responsive-sm bg-white/20 border border-white/30 rounded-lg text-white backdrop-blur-sm min-h-[44px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced";
+
+function toDateInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function RecurrenceEditor({ value, onChange, idPrefix = "recurrence", error }: RecurrenceEditorProps) {
+  const endMode: EndMode = value?.until ? "until" : value?.count !== undefined ? "count" : "never";
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const toggleDay = (day: Weekday) => {
+    if (!value) return;
+    const days = value.byDay || [];
+    const byDay = days.includes(day) ? days.filter(d => d !== day) : [...days, day];
+    // Keep days in calendar order so the rule reads naturally
+    update({ byDay: byDay.length > 0 ? DISPLAY_WEEKDAYS.filter(d => byDay.includes(d)) : undefined });
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    if (!value) return;
+    if (mode === "never") {
+      update({ until: undefined, count: undefined });
+    } else if (mode === "until") {
+      const until = new Date();
+      until.setMonth(until.getMonth() + 1);
+      until.setHours(23, 59, 59, 999);
+      update({ until, count: undefined });
+    } else {
+      update({ until: undefined, count: 10 });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label
+          htmlFor={`${idPrefix}-freq`}
+          className="block text-responsive-sm font-medium text-purple-200 mb-2"
+        >
+          Repeat
+        </label>
+        <select
+          id={`${idPrefix}-freq`}
+          value={value?.freq || ""}
+          onChange={(e) => {
+            const freq = e.target.value as RecurrenceFrequency | "";
+            if (!freq) {
+              onChange(null);
+            } else {
+              // Weekday selection only applies to daily and weekly rules
+              const keepDays = freq === "DAILY" || freq === "WEEKLY";
+              onChange({ interval: 1, ...value, freq, byDay: keepDays ? value?.byDay : undefined });
+            }
+          }}
+          className={`w-full ${inputClassName}`}
+          aria-describedby={`${idPrefix}-summary`}
+        >
+          <option value="" className="bg-slate-800">Does not repeat</option>
+          {RECURRENCE_FREQUENCIES.map(freq => (
+            <option key={freq} value={freq} className="bg-slate-800">
+              {FREQUENCY_LABELS[freq]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {value && (
+        <>
+          <div className="flex items-center gap-2 text-responsive-sm text-purple-200">
+            <label htmlFor={`${idPrefix}-interval`}>Every</label>
+            <input
+              id={`${idPrefix}-interval`}
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className={`w-20 ${inputClassName}`}
+            />
+            <span>{INTERVAL_UNITS[value.freq]}</span>
+          </div>
+
+          {(value.freq === "DAILY" || value.freq === "WEEKLY") && (
+            <div role="group" aria-label="Repeat on days" className="flex flex-wrap gap-1">
+              {DISPLAY_WEEKDAYS.map(day => {
+                const selected = value.byDay?.includes(day) ?? false;
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`px-2 py-1 text-responsive-xs rounded-lg min-w-[44px] min-h-[36px] button-hover-enhanced focus-enhanced keyboard-enhanced ${
+                      selected ? "bg-purple-600 text-white" : "bg-white/10 text-purple-200"
+                    }`}
+                    aria-pressed={selected}
+                  >
+                    {WEEKDAY_LABELS[day]}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-responsive-sm text-purple-200">
+            <label htmlFor={`${idPrefix}-end`}>Ends</label>
+            <select
+              id={`${idPrefix}-end`}
+              value={endMode}
+              onChange={(e) => setEndMode(e.target.value as EndMode)}
+              className={inputClassName}
+            >
+              <option value="never" className="bg-slate-800">Never</option>
+              <option value="until" className="bg-slate-800">On date</option>
+              <option value="count" className="bg-slate-800">After</option>
+            </select>
+
+            {endMode === "until" && value.until && (
+              <input
+                type="date"
+                value={toDateInputValue(value.until)}
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  const [year, month, day] = e.target.value.split("-").map(Number);
+                  update({ until: new Date(year, month - 1, day, 23, 59, 59, 999) });
+                }}
+                className={inputClassName}
+                aria-label="Repeat until"
+              />
+            )}
+
+            {endMode === "count" && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={value.count ?? 1}
+                  onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className={`w-20 ${inputClassName}`}
+                  aria-label="Number of occurrences"
+                />
+                <span>times</span>
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      <div id={`${idPrefix}-summary`} className="text-responsive-xs text-purple-300" aria-live="polite">
+        {value ? (
+          <span title={formatRRule(value)}>{describeRecurrence(value)}</span>
+        ) : (
+          <span className="sr-only">This task does not repeat</span>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-red-400 text-responsive-xs animate-fade-in" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
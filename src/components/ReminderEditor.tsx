@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { useToastNotification } from "@/components/ToastNotification";
+import {
+  REMINDER_OFFSET_PRESETS,
+  Reminder,
+  describeReminder,
+  requestNotificationPermission,
+} from "@/utils/reminders";
+
+interface ReminderEditorProps {
+  reminders: Reminder[];
+  onAdd: (reminder: Reminder) => void;
+  onRemove: (reminderId: string) => void;
+  hasDueDate: boolean;
+  idPrefix?: string;
+  error?: string;
+}
+
+type ReminderMode = "offset" | "absolute";
+
+const inputClassName = "px-3 py-2 text-responsive-sm bg-white/20 border border-white/30 rounded-lg text-white backdrop-blur-sm min-h-[44px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced";
+
+export function ReminderEditor({ reminders, onAdd, onRemove, hasDueDate, idPrefix = "reminders", error }: ReminderEditorProps) {
+  const { info } = useToastNotification();
+  const [mode, setMode] = useState<ReminderMode>(hasDueDate ? "offset" : "absolute");
+  const [minutesBefore, setMinutesBefore] = useState(REMINDER_OFFSET_PRESETS[1].minutesBefore);
+  const [at, setAt] = useState("");
+
+  const atDate = at ? new Date(at) : null;
+  const canAdd = mode === "offset" ? hasDueDate : !!atDate && !isNaN(atDate.getTime());
+
+  const addReminder = async () => {
+    if (!canAdd) return;
+    const reminder: Reminder = mode === "offset"
+      ? { id: crypto.randomUUID(), type: "offset", minutesBefore }
+      : { id: crypto.randomUUID(), type: "absolute", at: atDate as Date };
+    onAdd(reminder);
+    setAt("");
+
+    const permission = await requestNotificationPermission();
+    if (permission !== "granted") {
+      info("Browser notifications are off, so reminders will appear in the app while it is open", { persistent: false });
+    }
+  };
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="block text-responsive-sm font-medium text-purple-200 mb-2">
+        Reminders (Optional)
+      </legend>
+
+      {reminders.length > 0 && (
+        <ul className="flex flex-wrap gap-2" aria-label="Reminders">
+          {reminders.map(reminder => (
+            <li
+              key={reminder.id}
+              className="flex items-center gap-1 px-2 py-1 text-responsive-xs bg-purple-600/30 text-purple-100 rounded-full"
+            >
+              <span aria-hidden="true">🔔</span>
+              {describeReminder(reminder)}
+              {reminder.type === "offset" && !hasDueDate && (
+                <span className="text-yellow-300"> (needs a due date)</span>
+              )}
+              <button
+                type="button"
+                onClick={() => onRemove(reminder.id)}
+                className="ml-1 text-purple-200 hover:text-white focus-enhanced keyboard-enhanced"
+                aria-label={`Remove reminder ${describeReminder(reminder)}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          id={`${idPrefix}-mode`}
+          value={mode}
+          onChange={(e) => setMode(e.target.value as ReminderMode)}
+          className={inputClassName}
+          aria-label="Reminder type"
+        >
+          <option value="offset" className="bg-gray-800">Before due date</option>
+          <option value="absolute" className="bg-gray-800">At a specific time</option>
+        </select>
+
+        {mode === "offset" ? (
+          <select
+            id={`${idPrefix}-offset`}
+            value={minutesBefore}
+            onChange={(e) => setMinutesBefore(Number(e.target.value))}
+            disabled={!hasDueDate}
+            className={`${inputClassName} disabled:opacity-50`}
+            aria-label="Remind me"
+            aria-describedby={`${idPrefix}-help`}
+          >
+            {REMINDER_OFFSET_PRESETS.map(preset => (
+              <option key={preset.minutesBefore} value={preset.minutesBefore} className="bg-gray-800">
+                {preset.label}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            id={`${idPrefix}-at`}
+            type="datetime-local"
+            value={at}
+            onChange={(e) => setAt(e.target.value)}
+            className={inputClassName}
+            aria-label="Reminder time"
+          />
+        )}
+
+        <button
+          type="button"
+          onClick={addReminder}
+          disabled={!canAdd}
+          className="px-3 py-2 bg-purple-600/50 text-white rounded-lg text-responsive-sm min-h-[44px] disabled:opacity-50 button-hover-enhanced focus-enhanced keyboard-enhanced"
+        >
+          Add reminder
+        </button>
+      </div>
+
+      <p id={`${idPrefix}-help`} className="text-purple-300 text-responsive-xs">
+        {mode === "offset" && !hasDueDate
+          ? "Set a due date to add reminders relative to it"
+          : "You will be notified even when the tab is in the background"}
+      </p>
+
+      {error && (
+        <p className="text-red-400 text-responsive-xs animate-fade-in" role="alert">
+          {error}
+        </p>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { useToastNotification } from "@/components/ToastNotification";
+import { Todo } from "@/utils/todo-store";
+import { describeDueDate } from "@/utils/due-dates";
+import { describeBlockers, getOpenBlockers } from "@/utils/dependencies";
+import {
+  DEFAULT_SNOOZE_MINUTES,
+  DueReminder,
+  MISSED_REMINDER_WINDOW_MS,
+  REMINDER_ACTION_MESSAGE,
+  ReminderAction,
+  getDueReminders,
+  getNextReminderTime,
+  isNotificationSupported,
+  registerReminderServiceWorker,
+} from "@/utils/reminders";
+
+// Timers in background tabs are throttled, so never sleep longer than this
+// before re-checking which reminders are due
+const MAX_CHECK_INTERVAL_MS = 60 * 1000;
+
+interface PendingAction {
+  action: ReminderAction;
+  todoId: string;
+  reminderId?: string;
+}
+
+// Watches the todo list and fires due reminders as browser notifications,
+// falling back to toasts when notifications are unavailable or not allowed
+export function ReminderScheduler() {
+  const { todos, toggleTodo, bulkToggle, fireReminder, snoozeReminder } = useTodoStore();
+  const toast = useToastNotification();
+  const [tick, setTick] = useState(0);
+  // undefined while the service worker is still being registered
+  const [registration, setRegistration] = useState<ServiceWorkerRegistration | null | undefined>(undefined);
+  const pendingActionRef = useRef<PendingAction | null>(null);
+  const todosRef = useRef(todos);
+  const toastRef = useRef(toast);
+
+  useEffect(() => {
+    todosRef.current = todos;
+    toastRef.current = toast;
+  });
+
+  // Completes a task the way the list does: one still waiting on others only once confirmed
+  const completeRef = useRef((todoId: string) => {
+    const todo = todosRef.current.find(t => t.id === todoId);
+    if (!todo || todo.completed) return;
+
+    const blockers = getOpenBlockers(todo, todosRef.current);
+    if (blockers.length > 0) {
+      toastRef.current.withActions(
+        describeBlockers(todo, blockers),
+        [{ label: "Complete anyway", action: () => bulkToggle([todo.id], true), primary: true }],
+        { type: "warning" }
+      );
+      return;
+    }
+    toggleTodo(todo.id);
+  });
+
+  const applyActionRef = useRef((pending: PendingAction): boolean => {
+    const todo = todosRef.current.find(t => t.id === pending.todoId);
+    if (!todo) return false;
+
+    if (pending.action === "complete") {
+      completeRef.current(todo.id);
+    } else if (pending.action === "snooze" && pending.reminderId) {
+      snoozeReminder(todo.id, pending.reminderId, new Date(Date.now() + DEFAULT_SNOOZE_MINUTES * 60 * 1000));
+    }
+    return true;
+  });
+
+  // Register the service worker and pick up actions relayed from notifications
+  useEffect(() => {
+    let cancelled = false;
+    registerReminderServiceWorker().then(result => {
+      if (!cancelled) setRegistration(result);
+    });
+
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data;
+      if (data?.type !== REMINDER_ACTION_MESSAGE || !data.todoId) return;
+      const pending: PendingAction = { action: data.action, todoId: data.todoId, reminderId: data.reminderId };
+      if (!applyActionRef.current(pending)) {
+        pendingActionRef.current = pending;
+      }
+    };
+
+    // The service worker opens the app with the action in the URL when no tab was open
+    const params = new URLSearchParams(window.location.search);
+    const action = params.get("reminderAction") as ReminderAction | null;
+    const todoId = params.get("todoId");
+    if (action && todoId) {
+      pendingActionRef.current = { action, todoId, reminderId: params.get("reminderId") || undefined };
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => {
+      cancelled = true;
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+    };
+  }, []);
+
+  // Apply a relayed action once the todos it refers to have loaded
+  useEffect(() => {
+    if (pendingActionRef.current && applyActionRef.current(pendingActionRef.current)) {
+      pendingActionRef.current = null;
+    }
+  }, [todos]);
+
+  // Re-check as soon as the tab becomes visible again
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") setTick(t => t + 1);
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => document.removeEventListener("visibilitychange", handleVisibility);
+  }, []);
+
+  useEffect(() => {
+    if (registration === undefined) return;
+    const now = new Date();
+
+    const deliver = ({ todo, reminder }: DueReminder<Todo>) => {
+      const title = `Reminder: ${todo.text}`;
+      const body = todo.dueDate
+        ? `Due ${describeDueDate(todo)}`
+        : "This task needs your attention";
+
+      const snooze = () =>
+        snoozeReminder(todo.id, reminder.id, new Date(Date.now() + DEFAULT_SNOOZE_MINUTES * 60 * 1000));
+      const complete = () => completeRef.current(todo.id);
+      // A blocked task can't be completed from the notification, so it isn't offered there
+      const isBlocked = getOpenBlockers(todo, todos).length > 0;
+
+      const canNotify = isNotificationSupported() && Notification.permission === "granted";
+
+      if (canNotify && registration) {
+        // Shown by the service worker so the Snooze / Complete buttons work from the OS tray
+        registration.showNotification(title, {
+          body,
+          tag: reminder.id,
+          requireInteraction: true,
+          data: { todoId: todo.id, reminderId: reminder.id },
+          actions: [
+            { action: "snooze", title: `Snooze ${DEFAULT_SNOOZE_MINUTES} min` },
+            ...(isBlocked ? [] : [{ action: "complete", title: "Mark complete" }]),
+          ],
+        } as NotificationOptions).catch(() => {
+          toastRef.current.warning(title, { persistent: true });
+        });
+      } else if (canNotify) {
+        const notification = new Notification(title, { body, tag: reminder.id });
+        notification.onclick = () => {
+          window.focus();
+          notification.close();
+        };
+      } else {
+        toastRef.current.withActions(`${title}. ${body}`, [
+          { label: `Snooze ${DEFAULT_SNOOZE_MINUTES} min`, action: snooze, primary: isBlocked },
+          ...(isBlocked ? [] : [{ label: "Mark complete", action: complete, primary: true }]),
+        ], { type: "warning", persistent: true });
+      }
+    };
+
+    getDueReminders(todos, now).forEach(due => {
+      // Long-missed reminders are only marked as handled
+      if (now.getTime() - due.time.getTime() <= MISSED_REMINDER_WINDOW_MS) {
+        deliver(due);
+      }
+      fireReminder(due.todo.id, due.reminder.id);
+    });
+
+    const next = getNextReminderTime(todos, now);
+    if (!next) return;
+
+    const delay = Math.min(Math.max(next.getTime() - now.getTime(), 0), MAX_CHECK_INTERVAL_MS);
+    const timer = setTimeout(() => setTick(t => t + 1), delay);
+    return () => clearTimeout(timer);
+  }, [todos, tick, registration, fireReminder, snoozeReminder]);
+
+  return null;
+}
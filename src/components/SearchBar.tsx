@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { SearchQueryError } from "@/utils/search";
+
+interface SearchBarProps {
+  id: string;
+  query: string;
+  onChange: (query: string) => void;
+  error: SearchQueryError | null;
+  resultCount: number;
+}
+
+const SYNTAX_HELP: [string, string][] = [
+  ["milk \"weekly report\"", "Words anywhere in a task, or an exact phrase"],
+  ["priority:high", "Priority (high, medium, low); p: for short"],
+  ["cat:Work  tag:urgent", "Category or tag; quote values with spaces"],
+  ["due:today  due:<7d  due:>=2026-11-01", "Due date relative to today or on a date; due:none"],
+  ["is:overdue  is:open  is:blocked", "Also done, ready, recurring and running"],
+  ["has:notes  has:subtasks", "Also tags, due, reminders and estimate"],
+  ["-done  -tag:later", "A leading - excludes matches"],
+];
+
+// Search box for the task list, with the query language's errors and a syntax reference
+export function SearchBar({ id, query, onChange, error, resultCount }: SearchBarProps) {
+  const [showHelp, setShowHelp] = useState(false);
+
+  return (
+    <div className="mb-4" role="search">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <label htmlFor={id} className="sr-only">Search tasks</label>
+          <input
+            id={id}
+            type="search"
+            value={query}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape" && query) {
+                e.stopPropagation();
+                onChange("");
+              }
+            }}
+            placeholder="Search tasks…  try is:overdue or cat:Work"
+            className={`w-full px-4 py-2 text-responsive-sm bg-white/20 border rounded-lg text-white placeholder-purple-300 backdrop-blur-sm min-h-[44px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced ${
+              error ? "border-red-400" : "border-white/30"
+            }`}
+            aria-invalid={!!error}
+            aria-describedby={`${id}-status`}
+            autoComplete="off"
+            spellCheck={false}
+            data-task-search
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowHelp(prev => !prev)}
+          className="w-11 h-11 flex-shrink-0 rounded-lg glass-desktop text-white touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+          aria-expanded={showHelp}
+          aria-controls={`${id}-help`}
+          aria-label="Search syntax help"
+          title="Search syntax"
+        >
+          ?
+        </button>
+      </div>
+
+      <p id={`${id}-status`} className="mt-1 text-responsive-xs" role={error ? "alert" : "status"} aria-live="polite">
+        {error ? (
+          <span className="text-red-400">
+            {error.message}
+            {error.end > error.start && (
+              <> at <code className="px-1 bg-red-500/20 rounded">{query.slice(error.start, error.end)}</code></>
+            )}
+          </span>
+        ) : query.trim() ? (
+          <span className="text-purple-300">{resultCount} matching task{resultCount === 1 ? "" : "s"}</span>
+        ) : null}
+      </p>
+
+      {showHelp && (
+        <dl id={`${id}-help`} className="mt-2 p-3 bg-white/5 rounded-lg grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-responsive-xs animate-fade-in">
+          {SYNTAX_HELP.map(([example, description]) => (
+            <div key={example} className="contents">
+              <dt><code className="text-purple-100">{example}</code></dt>
+              <dd className="text-purple-300">{description}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { SMART_VIEWS, SmartView, SmartViewId } from "@/utils/smart-views";
+
+interface SmartViewNavProps {
+  counts: Record<SmartViewId, number>;
+  activeViewId: SmartViewId | null;
+  onSelect: (viewId: SmartViewId) => void;
+}
+
+// Built-in date-based views, listed above the user's lists with their open task counts
+export function SmartViewNav({ counts, activeViewId, onSelect }: SmartViewNavProps) {
+  const { announce } = useLiveRegion();
+
+  const select = (view: SmartView) => {
+    onSelect(view.id);
+    announce(`Showing ${view.name}, ${counts[view.id]} task${counts[view.id] === 1 ? "" : "s"}`, 'polite');
+  };
+
+  return (
+    <nav className="space-y-2" aria-label="Smart views">
+      <h3 className="text-responsive-sm font-medium text-purple-200">Views</h3>
+      <ul className="space-y-1">
+        {SMART_VIEWS.map(view => {
+          const isActive = view.id === activeViewId;
+          const count = counts[view.id];
+          return (
+            <li key={view.id}>
+              <button
+                type="button"
+                onClick={() => select(view)}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced ${
+                  isActive ? "bg-white/20 text-white" : "text-purple-200 hover:bg-white/10"
+                }`}
+                aria-current={isActive ? "page" : undefined}
+                aria-label={`${view.name}, ${count} task${count === 1 ? "" : "s"}`}
+                title={view.description}
+              >
+                <span className="w-4 text-center flex-shrink-0" aria-hidden="true">{view.icon}</span>
+                <span className="flex-1 truncate">{view.name}</span>
+                <span className={`text-xs ${view.id === "overdue" && count > 0 ? "text-red-300" : "text-purple-300"}`}>{count}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { SORT_MODES, SortMode, TodoSort, getSortModeOption, isManualSort } from "@/utils/sorting";
+
+interface SortControlProps {
+  id: string;
+  sort: TodoSort;
+  onChange: (sort: TodoSort) => void;
+}
+
+// Sort picker for the task list. Picking a mode starts from that mode's most
+// useful direction; the stored manual order is kept and can be returned to.
+export function SortControl({ id, sort, onChange }: SortControlProps) {
+  const option = getSortModeOption(sort.mode);
+  const nextDirection = sort.direction === "asc" ? "desc" : "asc";
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2">
+        <label htmlFor={id} className="text-responsive-xs text-purple-300 flex-shrink-0">Sort by</label>
+        <select
+          id={id}
+          value={sort.mode}
+          onChange={(e) => {
+            const mode = e.target.value as SortMode;
+            onChange({ mode, direction: getSortModeOption(mode).defaultDirection });
+          }}
+          className="flex-1 min-w-0 px-3 py-2 text-responsive-sm bg-white/20 border border-white/30 rounded-lg text-white backdrop-blur-sm min-h-[44px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+        >
+          {SORT_MODES.map(({ mode, label }) => (
+            <option key={mode} value={mode} className="bg-slate-800">{label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onChange({ ...sort, direction: nextDirection })}
+          className="px-3 h-11 flex-shrink-0 rounded-lg glass-desktop text-white text-responsive-xs touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+          aria-label={`${option.directionLabels[sort.direction]}. Switch to ${option.directionLabels[nextDirection].toLowerCase()}`}
+        >
+          <span aria-hidden="true">{sort.direction === "asc" ? "↑ " : "↓ "}</span>
+          {option.directionLabels[sort.direction]}
+        </button>
+      </div>
+      {!isManualSort(sort) && (
+        <p className="mt-1 text-responsive-xs text-purple-300">
+          Switch to manual order to drag tasks into place. Your arrangement is kept.
+        </p>
+      )}
+    </div>
+  );
+}
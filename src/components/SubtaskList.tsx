@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { Todo } from "@/utils/todo-store";
+import { MAX_SUBTASK_DEPTH, Subtask, getSubtaskProgress } from "@/utils/subtasks";
+
+interface SubtaskProgressIndicatorProps {
+  subtasks?: Subtask[];
+}
+
+export function SubtaskProgressIndicator({ subtasks }: SubtaskProgressIndicatorProps) {
+  const { total, completed, percent } = getSubtaskProgress(subtasks);
+
+  if (total === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 mt-2" aria-label={`Subtasks: ${completed} of ${total} completed`}>
+      <div
+        className="flex-1 h-1.5 bg-white/20 rounded-full overflow-hidden max-w-[160px]"
+        role="progressbar"
+        aria-valuenow={percent}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-label="Subtask progress"
+      >
+        <div
+          className="h-full bg-gradient-to-r from-purple-500 to-blue-500 rounded-full transition-all duration-300 ease-out"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="text-responsive-xs text-purple-200">
+        {completed}/{total}
+      </span>
+    </div>
+  );
+}
+
+interface SubtaskListProps {
+  todo: Todo;
+}
+
+export function SubtaskList({ todo }: SubtaskListProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { total } = getSubtaskProgress(todo.subtasks);
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="text-responsive-xs text-purple-300 hover:text-white flex items-center gap-1 focus-enhanced keyboard-enhanced"
+        aria-expanded={isExpanded}
+        aria-controls={`subtasks-${todo.id}`}
+      >
+        <svg
+          className={`w-3 h-3 transition-transform duration-200 ${isExpanded ? "rotate-90" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        {total > 0 ? `Subtasks (${total})` : "Add subtasks"}
+      </button>
+
+      {isExpanded && (
+        <div id={`subtasks-${todo.id}`} className="mt-2 animate-fade-in">
+          <SubtaskLevel todoId={todo.id} subtasks={todo.subtasks || []} depth={1} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SubtaskLevelProps {
+  todoId: string;
+  subtasks: Subtask[];
+  depth: number;
+  parentId?: string;
+}
+
+function SubtaskLevel({ todoId, subtasks, depth, parentId }: SubtaskLevelProps) {
+  const { addSubtask } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const [newText, setNewText] = useState("");
+
+  const handleAdd = useCallback(() => {
+    const text = newText.trim();
+    if (!text) return;
+
+    addSubtask(todoId, { id: crypto.randomUUID(), text, completed: false }, parentId);
+    setNewText("");
+    announce(`Subtask "${text}" added`, 'polite');
+  }, [newText, addSubtask, todoId, parentId, announce]);
+
+  return (
+    <ul className={`space-y-1 ${depth > 1 ? "ml-6 mt-1 border-l border-white/10 pl-2" : ""}`} role="list">
+      {subtasks.map(subtask => (
+        <SubtaskItem key={subtask.id} todoId={todoId} subtask={subtask} depth={depth} />
+      ))}
+      <li className="flex gap-2">
+        <input
+          type="text"
+          value={newText}
+          onChange={(e) => setNewText(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep typing from reaching the task list's keyboard navigation
+            e.stopPropagation();
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={depth === 1 ? "Add a subtask" : "Add a step"}
+          className="flex-1 px-2 py-1 text-responsive-xs bg-white/10 border border-white/20 rounded text-white placeholder-purple-300 input-hover-enhanced focus-enhanced keyboard-enhanced"
+          aria-label={depth === 1 ? "New subtask" : "New nested subtask"}
+          maxLength={200}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!newText.trim()}
+          className="px-2 py-1 text-responsive-xs bg-purple-600/50 text-white rounded disabled:opacity-50 button-hover-enhanced focus-enhanced keyboard-enhanced"
+        >
+          Add
+        </button>
+      </li>
+    </ul>
+  );
+}
+
+interface SubtaskItemProps {
+  todoId: string;
+  subtask: Subtask;
+  depth: number;
+}
+
+function SubtaskItem({ todoId, subtask, depth }: SubtaskItemProps) {
+  const { toggleSubtask, deleteSubtask } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const [showChildren, setShowChildren] = useState((subtask.subtasks?.length ?? 0) > 0);
+  const canNest = depth < MAX_SUBTASK_DEPTH;
+
+  return (
+    <li>
+      <div className="flex items-center gap-2 group">
+        <button
+          type="button"
+          onClick={() => {
+            toggleSubtask(todoId, subtask.id);
+            announce(`Subtask "${subtask.text}" marked as ${subtask.completed ? 'active' : 'completed'}`, 'polite');
+          }}
+          className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 focus-enhanced keyboard-enhanced ${
+            subtask.completed ? "bg-green-500 border-green-500" : "border-purple-400 hover:border-purple-300"
+          }`}
+          aria-label={`${subtask.completed ? 'Mark as active' : 'Mark as complete'}: ${subtask.text}`}
+          aria-pressed={subtask.completed}
+        >
+          {subtask.completed && (
+            <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
+              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+            </svg>
+          )}
+        </button>
+
+        <span className={`flex-1 text-responsive-xs text-white ${subtask.completed ? "line-through opacity-60" : ""}`}>
+          {subtask.text}
+        </span>
+
+        {canNest && (
+          <button
+            type="button"
+            onClick={() => setShowChildren(prev => !prev)}
+            className="text-xs text-purple-300 hover:text-white px-1 focus-enhanced keyboard-enhanced"
+            aria-expanded={showChildren}
+            aria-label={`${showChildren ? 'Hide' : 'Show'} steps for subtask: ${subtask.text}`}
+          >
+            {subtask.subtasks?.length ? `${subtask.subtasks.length} steps` : "+ step"}
+          </button>
+        )}
+
+        <button
+          type="button"
+          onClick={() => {
+            deleteSubtask(todoId, subtask.id);
+            announce(`Subtask "${subtask.text}" deleted`, 'polite');
+          }}
+          className="text-red-400 opacity-60 hover:opacity-100 p-1 focus-enhanced keyboard-enhanced"
+          aria-label={`Delete subtask: ${subtask.text}`}
+        >
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {canNest && showChildren && (
+        <SubtaskLevel todoId={todoId} subtasks={subtask.subtasks || []} depth={depth + 1} parentId={subtask.id} />
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { MAX_TAGS_PER_TODO, addTag, removeTag, suggestTags } from "@/utils/tags";
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  availableTags: string[];
+  id?: string;
+  label?: string;
+}
+
+export function TagInput({ tags, onChange, availableTags, id = "tag-input", label = "Tags (Optional)" }: TagInputProps) {
+  const [input, setInput] = useState("");
+  const [highlighted, setHighlighted] = useState(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { announce } = useLiveRegion();
+
+  const suggestions = suggestTags(input, availableTags, tags);
+  const listboxId = `${id}-suggestions`;
+
+  const commit = (tag: string) => {
+    const next = addTag(tags, tag);
+    setInput("");
+    setHighlighted(-1);
+    if (next !== tags) {
+      onChange(next);
+      announce(`Tag ${next[next.length - 1]} added`, 'polite');
+    }
+  };
+
+  const remove = (tag: string) => {
+    onChange(removeTag(tags, tag));
+    announce(`Tag ${tag} removed`, 'polite');
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep arrow keys and Enter from reaching the form-level shortcuts (Ctrl/Cmd combos still pass)
+    if (!e.ctrlKey && !e.metaKey) e.stopPropagation();
+
+    if (e.key === "Enter" || e.key === ",") {
+      if (!input.trim() && e.key === "Enter") return;
+      e.preventDefault();
+      commit(highlighted >= 0 ? suggestions[highlighted] : input);
+    } else if (e.key === "Backspace" && !input && tags.length > 0) {
+      remove(tags[tags.length - 1]);
+    } else if (e.key === "ArrowDown" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === "Escape") {
+      setHighlighted(-1);
+      setInput("");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <label
+        htmlFor={id}
+        className="block text-responsive-sm font-medium text-purple-200 mb-2"
+      >
+        {label}
+      </label>
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-white/20 border border-white/30 rounded-lg backdrop-blur-sm min-h-[44px] sm:min-h-[48px] input-hover-enhanced">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 px-2 py-1 bg-blue-600/40 text-blue-100 rounded-full text-responsive-xs"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => remove(tag)}
+              className="text-blue-200 hover:text-white focus-enhanced keyboard-enhanced"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          ref={inputRef}
+          id={id}
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => {
+            if (input.trim()) commit(input);
+          }}
+          placeholder={tags.length >= MAX_TAGS_PER_TODO ? "Tag limit reached" : "Add a tag"}
+          disabled={tags.length >= MAX_TAGS_PER_TODO}
+          className="flex-1 min-w-[80px] bg-transparent text-white placeholder-purple-300 text-responsive-sm focus:outline-none"
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={highlighted >= 0 ? `${listboxId}-${highlighted}` : undefined}
+          aria-describedby={`${id}-help`}
+          autoComplete="off"
+        />
+      </div>
+      <div id={`${id}-help`} className="sr-only">
+        Press Enter or comma to add a tag, Backspace to remove the last one
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul
+          id={listboxId}
+          className="absolute top-full left-0 right-0 mt-1 glass-desktop rounded-lg border border-white/20 z-10 animate-fade-in"
+          role="listbox"
+          aria-label="Tag suggestions"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === highlighted}
+              // Prevent the input blur from committing the partial text first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => commit(tag)}
+              className={`px-4 py-2 text-responsive-sm text-white cursor-pointer first:rounded-t-lg last:rounded-b-lg hover-enhanced ${
+                index === highlighted ? "bg-purple-600/40" : ""
+              }`}
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
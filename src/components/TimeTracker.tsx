@@ -0,0 +1,243 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { useNow } from "@/hooks/useNow";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { Todo } from "@/utils/todo-store";
+import {
+  formatClock,
+  formatDuration,
+  getEntryDuration,
+  getRunningEntry,
+  getTrackedMs,
+  minutesToMs,
+  parseDuration,
+} from "@/utils/time-tracking";
+
+interface TimeTrackerProps {
+  todo: Todo;
+}
+
+const controlClassName = "px-2 py-1 text-xs rounded touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced micro-interaction";
+
+// Compact timer controls and totals shown on each task
+export function TimeTracker({ todo }: TimeTrackerProps) {
+  const { startTimer, pauseTimer, stopTimer } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const isRunning = !!getRunningEntry(todo.timeEntries);
+  const now = useNow(isRunning);
+
+  const trackedMs = getTrackedMs(todo.timeEntries, now);
+  const estimateMs = todo.estimateMinutes ? minutesToMs(todo.estimateMinutes) : 0;
+  const isOverEstimate = estimateMs > 0 && trackedMs > estimateMs;
+
+  if (todo.completed && trackedMs === 0 && estimateMs === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2 text-responsive-xs" aria-label="Time tracking">
+      <span
+        className={`font-mono ${isRunning ? "text-green-300" : isOverEstimate ? "text-red-300" : "text-purple-200"}`}
+        aria-label={`Tracked ${formatDuration(trackedMs)}${estimateMs ? ` of ${formatDuration(estimateMs)} estimated` : ""}`}
+      >
+        <span aria-hidden="true">⏱ </span>
+        {isRunning ? formatClock(trackedMs) : formatDuration(trackedMs)}
+        {estimateMs > 0 && <span className="text-purple-400"> / {formatDuration(estimateMs)}</span>}
+      </span>
+
+      {!todo.completed && (
+        <div className="flex gap-1" role="group" aria-label="Timer controls">
+          {isRunning ? (
+            <button
+              type="button"
+              onClick={() => {
+                pauseTimer(todo.id);
+                announce(`Timer paused for "${todo.text}"`, 'polite');
+              }}
+              className={`${controlClassName} bg-yellow-600/40 text-yellow-100`}
+              aria-label={`Pause timer: ${todo.text}`}
+            >
+              Pause
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => {
+                startTimer(todo.id);
+                announce(`Timer ${todo.timerPaused ? 'resumed' : 'started'} for "${todo.text}"`, 'polite');
+              }}
+              className={`${controlClassName} bg-green-600/40 text-green-100`}
+              aria-label={`${todo.timerPaused ? "Resume" : "Start"} timer: ${todo.text}`}
+            >
+              {todo.timerPaused ? "Resume" : "Start"}
+            </button>
+          )}
+          {(isRunning || todo.timerPaused) && (
+            <button
+              type="button"
+              onClick={() => {
+                stopTimer(todo.id);
+                announce(`Timer stopped for "${todo.text}"`, 'polite');
+              }}
+              className={`${controlClassName} bg-white/10 text-purple-100`}
+              aria-label={`Stop timer: ${todo.text}`}
+            >
+              Stop
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Estimate, session history and manual entries, shown in the task detail view
+export function TimeLog({ todo }: TimeTrackerProps) {
+  const { updateTodo, addTimeEntry, deleteTimeEntry } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const isRunning = !!getRunningEntry(todo.timeEntries);
+  const now = useNow(isRunning);
+
+  const [estimateInput, setEstimateInput] = useState(
+    todo.estimateMinutes ? formatDuration(minutesToMs(todo.estimateMinutes)) : ""
+  );
+  const [manualDuration, setManualDuration] = useState("");
+  const [manualDate, setManualDate] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const saveEstimate = () => {
+    if (!estimateInput.trim()) {
+      updateTodo(todo.id, { estimateMinutes: undefined });
+      setError(null);
+      return;
+    }
+    const minutes = parseDuration(estimateInput);
+    if (minutes === null) {
+      setError("Enter the estimate as minutes, h:mm or e.g. 1h 30m");
+      return;
+    }
+    setError(null);
+    updateTodo(todo.id, { estimateMinutes: minutes });
+    setEstimateInput(formatDuration(minutesToMs(minutes)));
+    announce(`Estimate set to ${formatDuration(minutesToMs(minutes))}`, 'polite');
+  };
+
+  const addManualEntry = () => {
+    const minutes = parseDuration(manualDuration);
+    if (minutes === null) {
+      setError("Enter the time spent as minutes, h:mm or e.g. 1h 30m");
+      return;
+    }
+    // Manual entries end at the chosen date's current time, or now
+    const end = manualDate ? new Date(`${manualDate}T${now.toTimeString().slice(0, 8)}`) : new Date();
+    if (isNaN(end.getTime())) {
+      setError("Invalid date");
+      return;
+    }
+    setError(null);
+    addTimeEntry(todo.id, {
+      id: crypto.randomUUID(),
+      start: new Date(end.getTime() - minutesToMs(minutes)),
+      end,
+      manual: true,
+    });
+    setManualDuration("");
+    setManualDate("");
+    announce(`Added ${formatDuration(minutesToMs(minutes))} of tracked time`, 'polite');
+  };
+
+  const formatDateTime = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }).format(new Date(date));
+
+  const inputClassName = "px-3 py-2 text-responsive-sm bg-white/20 border border-white/30 rounded-lg text-white placeholder-purple-300 min-h-[44px] input-hover-enhanced focus-enhanced keyboard-enhanced";
+  const entries = [...(todo.timeEntries || [])].reverse();
+
+  return (
+    <section aria-labelledby={`time-log-${todo.id}`} className="space-y-3">
+      <h3 id={`time-log-${todo.id}`} className="text-responsive-sm font-medium text-purple-200">Time</h3>
+
+      <TimeTracker todo={todo} />
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={estimateInput}
+          onChange={(e) => setEstimateInput(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && saveEstimate()}
+          placeholder="Estimate, e.g. 1h 30m"
+          className={`flex-1 ${inputClassName}`}
+          aria-label="Time estimate"
+        />
+        <button
+          type="button"
+          onClick={saveEstimate}
+          className="px-3 py-2 bg-purple-600/50 text-white rounded-lg text-responsive-sm min-h-[44px] button-hover-enhanced focus-enhanced keyboard-enhanced"
+        >
+          Set
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={manualDuration}
+          onChange={(e) => setManualDuration(e.target.value)}
+          placeholder="Time spent"
+          className={`w-28 ${inputClassName}`}
+          aria-label="Manual time entry duration"
+        />
+        <input
+          type="date"
+          value={manualDate}
+          onChange={(e) => setManualDate(e.target.value)}
+          className={inputClassName}
+          aria-label="Manual time entry date"
+        />
+        <button
+          type="button"
+          onClick={addManualEntry}
+          disabled={!manualDuration.trim()}
+          className="px-3 py-2 bg-purple-600/50 text-white rounded-lg text-responsive-sm min-h-[44px] disabled:opacity-50 button-hover-enhanced focus-enhanced keyboard-enhanced"
+        >
+          Add time
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-red-400 text-responsive-xs animate-fade-in" role="alert">
+          {error}
+        </p>
+      )}
+
+      {entries.length > 0 && (
+        <ul className="space-y-1 text-responsive-xs text-purple-200" aria-label="Time entries">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-center justify-between gap-2 px-2 py-1 bg-white/5 rounded">
+              <span>
+                {formatDateTime(entry.start)}
+                {entry.manual && <span className="ml-2 text-purple-400">(manual)</span>}
+                {!entry.end && <span className="ml-2 text-green-300">running</span>}
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="font-mono">{formatDuration(getEntryDuration(entry, now))}</span>
+                {entry.end && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      deleteTimeEntry(todo.id, entry.id);
+                      announce("Time entry deleted", 'polite');
+                    }}
+                    className="text-red-400 opacity-60 hover:opacity-100 p-1 focus-enhanced keyboard-enhanced"
+                    aria-label={`Delete time entry from ${formatDateTime(entry.start)}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { SlidePanel } from "@/components/SlidePanel";
+import { MarkdownView } from "@/components/MarkdownView";
+import { NotesEditor } from "@/components/NotesEditor";
+import { SubtaskProgressIndicator } from "@/components/SubtaskList";
+import { TimeLog } from "@/components/TimeTracker";
+import { ReminderEditor } from "@/components/ReminderEditor";
+import { DependencyEditor } from "@/components/DependencyEditor";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { toggleMarkdownCheckbox } from "@/utils/markdown";
+import { describeRecurrence } from "@/utils/recurrence";
+import { getTodoProjectId } from "@/utils/projects";
+import { describeDueDate } from "@/utils/due-dates";
+
+interface TodoDetailProps {
+  todoId: string | null;
+  onClose: () => void;
+}
+
+export function TodoDetail({ todoId, onClose }: TodoDetailProps) {
+  const { todos, projects, updateTodo, addReminder, removeReminder, moveToProject } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const todo = todoId ? todos.find(t => t.id === todoId) : undefined;
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  // Leave edit mode whenever a different task is opened
+  useEffect(() => {
+    setIsEditing(false);
+  }, [todoId]);
+
+  const startEditing = () => {
+    setDraft(todo?.notes || "");
+    setIsEditing(true);
+  };
+
+  const saveNotes = () => {
+    if (!todo) return;
+    updateTodo(todo.id, { notes: draft.trim() ? draft : undefined });
+    setIsEditing(false);
+    announce("Notes saved", 'polite');
+  };
+
+  const toggleCheckbox = (line: number) => {
+    if (!todo?.notes) return;
+    updateTodo(todo.id, { notes: toggleMarkdownCheckbox(todo.notes, line) });
+  };
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", year: "numeric" }).format(new Date(date));
+
+  return (
+    <SlidePanel isOpen={!!todo} onClose={onClose} direction="right" size="xl">
+      {todo && (
+        <div className="p-4 sm:p-6 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <h2 id="slide-panel-title" className={`text-xl font-semibold text-white break-words ${todo.completed ? "line-through opacity-75" : ""}`}>
+              {todo.text}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-10 h-10 flex-shrink-0 rounded-lg glass-desktop flex items-center justify-center touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+              aria-label="Close task details"
+              title="Close"
+            >
+              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-responsive-xs text-purple-200">
+            <dt className="text-purple-400">Status</dt>
+            <dd>{todo.completed ? "Completed" : "Active"}</dd>
+            <dt className="text-purple-400">Priority</dt>
+            <dd className="capitalize">{todo.priority}</dd>
+            <dt className="text-purple-400">Category</dt>
+            <dd>{todo.category}</dd>
+            <dt className="text-purple-400">
+              <label htmlFor={`detail-project-${todo.id}`}>List</label>
+            </dt>
+            <dd>
+              <select
+                id={`detail-project-${todo.id}`}
+                value={getTodoProjectId(todo)}
+                onChange={(e) => {
+                  const project = projects.find(p => p.id === e.target.value);
+                  if (!project) return;
+                  moveToProject([todo.id], project.id);
+                  announce(`Moved to list ${project.name}`, 'polite');
+                }}
+                className="px-2 py-1 bg-white/20 border border-white/30 rounded text-white focus-enhanced keyboard-enhanced"
+              >
+                {projects.map(project => (
+                  <option key={project.id} value={project.id} className="bg-gray-800">
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </dd>
+            {todo.tags && todo.tags.length > 0 && (
+              <>
+                <dt className="text-purple-400">Tags</dt>
+                <dd>{todo.tags.map(tag => `#${tag}`).join(" ")}</dd>
+              </>
+            )}
+            {todo.dueDate && (
+              <>
+                <dt className="text-purple-400">Due</dt>
+                <dd>{describeDueDate(todo)}</dd>
+              </>
+            )}
+            {todo.recurrence && (
+              <>
+                <dt className="text-purple-400">Repeats</dt>
+                <dd>{describeRecurrence(todo.recurrence)}</dd>
+              </>
+            )}
+            <dt className="text-purple-400">Created</dt>
+            <dd>{formatDate(todo.createdAt)}</dd>
+          </dl>
+
+          <SubtaskProgressIndicator subtasks={todo.subtasks} />
+
+          <TimeLog key={todo.id} todo={todo} />
+
+          <ReminderEditor
+            key={`reminders-${todo.id}`}
+            reminders={todo.reminders || []}
+            onAdd={(reminder) => {
+              addReminder(todo.id, reminder);
+              announce("Reminder added", 'polite');
+            }}
+            onRemove={(reminderId) => {
+              removeReminder(todo.id, reminderId);
+              announce("Reminder removed", 'polite');
+            }}
+            hasDueDate={!!todo.dueDate}
+            idPrefix={`detail-reminders-${todo.id}`}
+          />
+
+          <DependencyEditor key={`dependencies-${todo.id}`} todo={todo} />
+
+          <section aria-labelledby="todo-detail-notes">
+            <div className="flex items-center justify-between mb-2">
+              <h3 id="todo-detail-notes" className="text-responsive-sm font-medium text-purple-200">Notes</h3>
+              {!isEditing && (
+                <button
+                  onClick={startEditing}
+                  className="px-2 py-1 text-xs bg-purple-600/50 text-white rounded touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+                >
+                  {todo.notes ? "Edit notes" : "Add notes"}
+                </button>
+              )}
+            </div>
+
+            {isEditing ? (
+              <div className="space-y-2">
+                <NotesEditor
+                  id={`detail-notes-${todo.id}`}
+                  label="Edit notes"
+                  value={draft}
+                  onChange={setDraft}
+                  rows={10}
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={saveNotes}
+                    className="px-3 py-2 bg-green-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setIsEditing(false)}
+                    className="px-3 py-2 bg-gray-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : todo.notes ? (
+              <MarkdownView source={todo.notes} onToggleCheckbox={toggleCheckbox} />
+            ) : (
+              <p className="text-purple-300 italic text-responsive-sm">No notes yet</p>
+            )}
+          </section>
+        </div>
+      )}
+    </SlidePanel>
+  );
+}
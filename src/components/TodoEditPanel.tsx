@@ -0,0 +1,334 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { SlidePanel } from "@/components/SlidePanel";
+import { NotesEditor } from "@/components/NotesEditor";
+import { TagInput } from "@/components/TagInput";
+import { RecurrenceEditor } from "@/components/RecurrenceEditor";
+import { ReminderEditor } from "@/components/ReminderEditor";
+import { useToastNotification } from "@/components/ToastNotification";
+import { useFormValidation } from "@/hooks/useErrorHandling";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { Todo } from "@/utils/todo-store";
+import { collectTags } from "@/utils/tags";
+import { getLocalTimeZone } from "@/utils/due-dates";
+import { RecurrenceRule } from "@/utils/recurrence";
+import { Reminder } from "@/utils/reminders";
+import {
+  MAX_TODO_TEXT_LENGTH,
+  TodoFormValues,
+  createTodoValidationRules,
+  getChangedFields,
+  getTodoChanges,
+  getTodoFormValues,
+  resolveFormDue
+} from "@/utils/todo-form";
+
+interface TodoEditPanelProps {
+  todoId: string | null;
+  categories: string[];
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-4 py-3 text-responsive-base bg-white/20 border rounded-lg text-white placeholder-purple-300 backdrop-blur-sm min-h-[44px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced";
+
+const labelClassName = "block text-responsive-sm font-medium text-purple-200 mb-2";
+
+// Edits every field of a task in a side panel. Only the fields that changed are saved,
+// as one undoable update.
+export function TodoEditPanel({ todoId, categories, onClose }: TodoEditPanelProps) {
+  const { todos } = useTodoStore();
+  const todo = todoId ? todos.find(t => t.id === todoId) : undefined;
+
+  if (!todo) return null;
+  // Keyed so opening another task starts from that task's values
+  return <TodoEditForm key={todo.id} todo={todo} categories={categories} onClose={onClose} />;
+}
+
+interface TodoEditFormProps {
+  todo: Todo;
+  categories: string[];
+  onClose: () => void;
+}
+
+function TodoEditForm({ todo, categories, onClose }: TodoEditFormProps) {
+  const { todos, updateTodo } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const { success } = useToastNotification();
+  // The values the task had when editing started; changes are measured against these
+  const [initialValues] = useState(() => getTodoFormValues(todo));
+  const [isConfirmingDiscard, setIsConfirmingDiscard] = useState(false);
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const {
+    values,
+    errors,
+    touched,
+    isSubmitting,
+    setValue,
+    setTouchedField,
+    handleSubmit
+  } = useFormValidation<TodoFormValues>(initialValues);
+
+  const changedFields = getChangedFields(initialValues, values);
+  const isDirty = changedFields.length > 0;
+  const due = resolveFormDue(values);
+  const dueUnchanged = values.dueDate === initialValues.dueDate && values.dueTime === initialValues.dueTime;
+  const idPrefix = `edit-${todo.id}`;
+
+  // The task's category stays selectable even if it is no longer one of the suggestions
+  const categoryOptions = categories.includes(initialValues.category)
+    ? categories
+    : [initialValues.category, ...categories];
+
+  const validationRules = createTodoValidationRules({ dueDate: due?.dueDate, dueAllDay: due?.dueAllDay, dueUnchanged });
+
+  const requestClose = () => {
+    if (isDirty) {
+      setIsConfirmingDiscard(true);
+      announce("You have unsaved changes. Discard them?", 'assertive');
+    } else {
+      onClose();
+    }
+  };
+
+  const discard = () => {
+    setIsConfirmingDiscard(false);
+    announce("Changes discarded", 'polite');
+    onClose();
+  };
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleSubmit(validationRules, () => {
+      if (isDirty) {
+        updateTodo(todo.id, getTodoChanges(initialValues, values));
+        success(`Updated ${changedFields.length} field${changedFields.length === 1 ? "" : "s"} of "${values.text.trim()}"`);
+      }
+      onClose();
+    }, { showErrorToast: false });
+  };
+
+  // Ctrl/Cmd + Enter saves from any field. Kept from reaching the document so the
+  // new-task form's own shortcut doesn't submit it as well.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
+      e.preventDefault();
+      e.stopPropagation();
+      formRef.current?.requestSubmit();
+    }
+  };
+
+  const fieldError = (field: keyof TodoFormValues) =>
+    errors[field] && touched[field] ? (
+      <p id={`${idPrefix}-${String(field)}-error`} className="mt-2 text-red-400 text-responsive-xs animate-fade-in" role="alert">
+        {errors[field]}
+      </p>
+    ) : null;
+
+  const borderClass = (field: keyof TodoFormValues) =>
+    errors[field] ? "border-red-400 focus:ring-red-400 error-enhanced" : "border-white/30";
+
+  return (
+    <SlidePanel isOpen onClose={requestClose} direction="right" size="xl" className="overflow-y-auto">
+      <form ref={formRef} onSubmit={save} onKeyDown={handleKeyDown} className="p-4 sm:p-6 space-y-4" aria-labelledby="slide-panel-title" noValidate>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 id="slide-panel-title" className="text-xl font-semibold text-white">Edit Task</h2>
+            <p className="text-responsive-xs text-purple-300" aria-live="polite">
+              {isDirty ? `${changedFields.length} unsaved change${changedFields.length === 1 ? "" : "s"}` : "No changes"}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={requestClose}
+            className="w-10 h-10 flex-shrink-0 rounded-lg glass-desktop flex items-center justify-center touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+            aria-label="Close editor"
+            title="Close"
+          >
+            <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div>
+          <label htmlFor={`${idPrefix}-text`} className={labelClassName}>
+            Task Description
+            <span className="text-purple-400 text-xs ml-2">
+              {values.text.length}/{MAX_TODO_TEXT_LENGTH} characters
+            </span>
+          </label>
+          <input
+            id={`${idPrefix}-text`}
+            type="text"
+            value={values.text}
+            onChange={(e) => setValue("text", e.target.value)}
+            onBlur={() => setTouchedField("text")}
+            className={`${inputClassName} ${borderClass("text")}`}
+            aria-required="true"
+            aria-invalid={!!errors.text}
+            aria-describedby={errors.text ? `${idPrefix}-text-error` : undefined}
+            maxLength={MAX_TODO_TEXT_LENGTH}
+            autoComplete="off"
+          />
+          {fieldError("text")}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor={`${idPrefix}-priority`} className={labelClassName}>Priority</label>
+            <select
+              id={`${idPrefix}-priority`}
+              value={values.priority}
+              onChange={(e) => setValue("priority", e.target.value)}
+              className={`${inputClassName} ${borderClass("priority")}`}
+            >
+              <option value="low" className="bg-slate-800">Low</option>
+              <option value="medium" className="bg-slate-800">Medium</option>
+              <option value="high" className="bg-slate-800">High</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}-category`} className={labelClassName}>Category</label>
+            <select
+              id={`${idPrefix}-category`}
+              value={values.category}
+              onChange={(e) => setValue("category", e.target.value)}
+              className={`${inputClassName} ${borderClass("category")}`}
+            >
+              {categoryOptions.map(category => (
+                <option key={category} value={category} className="bg-slate-800">{category}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <NotesEditor
+          id={`${idPrefix}-notes`}
+          value={values.notes}
+          onChange={(notes) => setValue("notes", notes)}
+          error={errors.notes}
+        />
+
+        <TagInput
+          id={`${idPrefix}-tags`}
+          tags={values.tags}
+          onChange={(tags) => setValue("tags", tags)}
+          availableTags={collectTags(todos)}
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor={`${idPrefix}-due-date`} className={labelClassName}>Due Date (Optional)</label>
+            <input
+              id={`${idPrefix}-due-date`}
+              type="date"
+              value={values.dueDate}
+              onChange={(e) => setValue("dueDate", e.target.value)}
+              onBlur={() => setTouchedField("dueDate")}
+              className={`${inputClassName} ${borderClass("dueDate")}`}
+              aria-invalid={!!errors.dueDate}
+              aria-describedby={errors.dueDate ? `${idPrefix}-dueDate-error` : undefined}
+            />
+            {fieldError("dueDate")}
+          </div>
+          <div>
+            <label htmlFor={`${idPrefix}-due-time`} className={labelClassName}>Due Time (Optional)</label>
+            <input
+              id={`${idPrefix}-due-time`}
+              type="time"
+              value={values.dueTime}
+              onChange={(e) => setValue("dueTime", e.target.value)}
+              onBlur={() => setTouchedField("dueTime")}
+              className={`${inputClassName} ${borderClass("dueTime")}`}
+              aria-invalid={!!errors.dueTime}
+              aria-describedby={errors.dueTime ? `${idPrefix}-dueTime-error` : `${idPrefix}-due-time-help`}
+            />
+            <p id={`${idPrefix}-due-time-help`} className="text-purple-400 text-xs mt-1">
+              {todo.dueTimeZone && todo.dueTimeZone !== getLocalTimeZone()
+                ? `Set in ${todo.dueTimeZone}; shown in your time zone`
+                : "Leave empty for an all-day task"}
+            </p>
+            {fieldError("dueTime")}
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor={`${idPrefix}-estimate`} className={labelClassName}>Time Estimate (Optional)</label>
+            <input
+              id={`${idPrefix}-estimate`}
+              type="text"
+              value={values.estimate}
+              onChange={(e) => setValue("estimate", e.target.value)}
+              onBlur={() => setTouchedField("estimate")}
+              placeholder="e.g. 45m or 1h 30m"
+              className={`${inputClassName} ${borderClass("estimate")}`}
+              aria-invalid={!!errors.estimate}
+              aria-describedby={errors.estimate ? `${idPrefix}-estimate-error` : undefined}
+            />
+            {fieldError("estimate")}
+          </div>
+        </div>
+
+        <RecurrenceEditor
+          value={values.recurrence}
+          onChange={(rule: RecurrenceRule | null) => setValue("recurrence", rule)}
+          idPrefix={`${idPrefix}-recurrence`}
+          error={errors.recurrence}
+        />
+
+        <ReminderEditor
+          reminders={values.reminders}
+          onAdd={(reminder: Reminder) => setValue("reminders", [...values.reminders, reminder])}
+          onRemove={(reminderId) => setValue("reminders", values.reminders.filter(reminder => reminder.id !== reminderId))}
+          hasDueDate={!!due}
+          idPrefix={`${idPrefix}-reminders`}
+          error={errors.reminders}
+        />
+
+        {isConfirmingDiscard ? (
+          <div className="p-3 rounded-lg border border-yellow-400/40 bg-yellow-500/10 space-y-3" role="alertdialog" aria-labelledby={`${idPrefix}-discard`}>
+            <p id={`${idPrefix}-discard`} className="text-responsive-sm text-yellow-100">
+              Discard {changedFields.length} unsaved change{changedFields.length === 1 ? "" : "s"}?
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setIsConfirmingDiscard(false)}
+                className="flex-1 px-3 py-2 bg-white/10 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+                autoFocus
+              >
+                Keep editing
+              </button>
+              <button
+                type="button"
+                onClick={discard}
+                className="flex-1 px-3 py-2 bg-red-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!isDirty || isSubmitting}
+              className="flex-1 px-3 py-2 bg-green-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced disabled:opacity-40"
+              title="Save (Ctrl+Enter)"
+            >
+              Save changes
+            </button>
+            <button
+              type="button"
+              onClick={requestClose}
+              className="flex-1 px-3 py-2 bg-gray-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+      </form>
+    </SlidePanel>
+  );
+}
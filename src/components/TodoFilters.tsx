@@ -7,22 +7,54 @@ import { ErrorBoundary, withErrorBoundary } from "@/components/ErrorBoundary";
 import { useErrorHandler } from "@/contexts/ErrorContext";
 import { useToastNotification } from "@/components/ToastNotification";
 import { AppError } from "@/utils/error-handling";
+import { TagMatchMode } from "@/utils/tags";
+import { TodoPriority } from "@/utils/todo-store";
+import { getStorageAdapter } from "@/utils/storage-adapter";
+import {
+  DUE_RANGES,
+  DueRange,
+  EMPTY_FILTER,
+  FILTER_PRIORITIES,
+  FilterPreset,
+  StatusFilter,
+  TodoFilter,
+  countActiveFilters,
+  filtersEqual,
+  reviveFilter,
+  toggleFilterItem,
+} from "@/utils/filters";
+import { FilterPresetStore } from "@/hooks/useFilterPresets";
+import { FilterPresets } from "@/components/FilterPresets";
 
 interface TodoFiltersProps {
-  filter: "all" | "active" | "completed";
-  setFilter: (filter: "all" | "active" | "completed") => void;
-  categoryFilter: string;
-  setCategoryFilter: (category: string) => void;
+  filter: TodoFilter;
+  setFilter: (filter: TodoFilter) => void;
   categories: string[];
+  tags: string[];
+  // User-saved presets, shared by every instance of the panel
+  savedPresets: FilterPresetStore;
   onClose?: () => void;
   isMobilePanel?: boolean;
 }
 
-interface FilterPreset {
-  name: string;
-  filter: "all" | "active" | "completed";
-  category: string;
-  icon: string;
+const FILTER_HISTORY_KEY = "novatask-filter-history";
+
+const PRIORITY_STYLES: Record<TodoPriority, string> = {
+  high: "bg-red-600 text-white",
+  medium: "bg-yellow-600 text-white",
+  low: "bg-green-600 text-white",
+};
+
+// History entries saved before filters were composable held only a status and one category
+function reviveHistoryEntry(value: unknown): TodoFilter {
+  if (value && typeof value === "object" && typeof (value as Record<string, unknown>).category === "string") {
+    const legacy = value as { filter?: string; category: string };
+    return reviveFilter({
+      status: legacy.filter,
+      categories: legacy.category === "all" ? [] : [legacy.category],
+    });
+  }
+  return reviveFilter(value);
 }
 
 const TodoFiltersWithBoundary = withErrorBoundary(TodoFilters, {
@@ -34,87 +66,89 @@ const TodoFiltersWithBoundary = withErrorBoundary(TodoFilters, {
 export function TodoFilters({
   filter,
   setFilter,
-  categoryFilter,
-  setCategoryFilter,
   categories,
+  tags,
+  savedPresets,
   onClose,
   isMobilePanel = false
 }: TodoFiltersProps) {
   const { handleError } = useErrorHandler();
-  const [filterHistory, setFilterHistory] = useState<Array<{filter: string; category: string}>>([]);
-  const [activePreset, setActivePreset] = useState<string | null>(null);
+  const [filterHistory, setFilterHistory] = useState<TodoFilter[]>([]);
   const { announce } = useLiveRegion();
   
   // Generate unique IDs for accessibility
   const titleId = useRef(ariaUtils.generateId('filters-title'));
   const statusId = useRef(ariaUtils.generateId('filter-status'));
-  const presetsId = useRef(ariaUtils.generateId('filter-presets'));
+  const categoryLabelId = useRef(ariaUtils.generateId('category-filter-label'));
+  const priorityLabelId = useRef(ariaUtils.generateId('priority-filter-label'));
+  const dueId = useRef(ariaUtils.generateId('due-filter'));
+  const textId = useRef(ariaUtils.generateId('text-filter'));
 
-  // Load filter history from localStorage
+  // Load filter history from storage
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem("novatask-filter-history");
-      if (saved) {
-        try {
-          setFilterHistory(JSON.parse(saved));
-        } catch (error) {
-          handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'loadFilterHistory' });
-        }
-      }
-    } catch (error) {
-      handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'loadFilterHistory' });
-    }
+    let cancelled = false;
+    getStorageAdapter()
+      .then(storage => storage.getItem(FILTER_HISTORY_KEY))
+      .then(saved => {
+        if (!saved || cancelled) return;
+        const parsed = JSON.parse(saved);
+        setFilterHistory(Array.isArray(parsed) ? parsed.map(reviveHistoryEntry) : []);
+      })
+      .catch(error => {
+        handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'loadFilterHistory' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [handleError]);
+
+  const saveFilterHistory = useCallback((history: TodoFilter[]) => {
+    getStorageAdapter()
+      .then(storage => storage.setItem(FILTER_HISTORY_KEY, JSON.stringify(history)))
+      .catch(error => {
+        handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'saveFilterHistory' });
+      });
   }, [handleError]);
 
-  // Save filter history to localStorage
+  // Save filter history to storage
   useEffect(() => {
+    if (countActiveFilters(filter) === 0) return;
+    setFilterHistory(prev => {
+      if (prev.length > 0 && filtersEqual(prev[0], filter)) return prev;
+      // Typing in the text filter refines the latest entry rather than adding one per keystroke
+      const refinesText = prev.length > 0 && filtersEqual({ ...prev[0], text: filter.text }, filter);
+      const newHistory = refinesText
+        ? [filter, ...prev.slice(1, 5)]
+        : [filter, ...prev.slice(0, 4)]; // Keep only last 5 items
+      saveFilterHistory(newHistory);
+      return newHistory;
+    });
+  }, [filter, saveFilterHistory]);
+
+  const update = useCallback((changes: Partial<TodoFilter>, message: string) => {
     try {
-      if (filter !== "all" || categoryFilter !== "all") {
-        const newHistory = [
-          { filter, category: categoryFilter },
-          ...filterHistory.slice(0, 4) // Keep only last 5 items
-        ];
-        setFilterHistory(newHistory);
-        localStorage.setItem("novatask-filter-history", JSON.stringify(newHistory));
-      }
+      setFilter({ ...filter, ...changes });
+      announce(message, 'polite');
     } catch (error) {
-      handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'saveFilterHistory' });
+      handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'updateFilter' });
     }
-  }, [filter, categoryFilter, filterHistory, handleError]);
-
-  // Filter presets
-  const presets: FilterPreset[] = [
-    { name: "All Tasks", filter: "all", category: "all", icon: "📋" },
-    { name: "High Priority", filter: "all", category: "all", icon: "🔥" },
-    { name: "Due Today", filter: "all", category: "all", icon: "📅" },
-    { name: "Work", filter: "all", category: "Work", icon: "💼" },
-    { name: "Personal", filter: "all", category: "Personal", icon: "🏠" }
-  ];
+  }, [filter, setFilter, announce, handleError]);
 
   const applyPreset = useCallback((preset: FilterPreset) => {
     try {
-      setActivePreset(preset.name);
       setFilter(preset.filter);
-      if (preset.category !== "all") {
-        setCategoryFilter(preset.category);
-      }
       
       // Announce filter change
       announce(`Applied filter: ${preset.name}`, 'polite');
-      
-      // Clear preset selection after animation
-      setTimeout(() => setActivePreset(null), 300);
     } catch (error) {
       handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'applyPreset' });
     }
-  }, [setFilter, setCategoryFilter, announce, handleError]);
+  }, [setFilter, announce, handleError]);
 
   const goBack = useCallback(() => {
     try {
       if (filterHistory.length > 1) {
-        const previous = filterHistory[1];
-        setFilter(previous.filter as "all" | "active" | "completed");
-        setCategoryFilter(previous.category);
+        setFilter(filterHistory[1]);
         
         // Announce going back
         announce('Returned to previous filter', 'polite');
@@ -122,19 +156,19 @@ export function TodoFilters({
         // Update history
         const newHistory = filterHistory.slice(1);
         setFilterHistory(newHistory);
-        localStorage.setItem("novatask-filter-history", JSON.stringify(newHistory));
+        saveFilterHistory(newHistory);
       }
     } catch (error) {
       handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'goBack' });
     }
-  }, [filterHistory, setFilter, setCategoryFilter, announce, handleError]);
+  }, [filterHistory, setFilter, announce, handleError, saveFilterHistory]);
 
-  const getActiveCount = () => {
-    if (filter === "all" && categoryFilter === "all") return 0;
-    if (filter !== "all" && categoryFilter === "all") return 1;
-    if (filter === "all" && categoryFilter !== "all") return 1;
-    return 2;
-  };
+  const toggleTag = useCallback((tag: string) => {
+    const selected = filter.tags.includes(tag);
+    update({ tags: toggleFilterItem(filter.tags, tag) }, `Tag filter ${tag} ${selected ? 'removed' : 'added'}`);
+  }, [filter.tags, update]);
+
+  const activeCount = countActiveFilters(filter);
 
   return (
     <div className="glass-desktop p-4 sm:p-6 shadow-2xl">
@@ -156,63 +190,39 @@ export function TodoFilters({
       )}
       
       {/* Filter Presets */}
-      <div className="mb-6">
-        <h3 className="text-responsive-sm font-medium text-purple-200 mb-3">Quick Filters</h3>
-        <div
-          className="grid grid-cols-2 sm:grid-cols-3 gap-2"
-          role="group"
-          aria-labelledby={presetsId.current}
-        >
-          {presets.map((preset, index) => (
-            <button
-              key={preset.name}
-              onClick={() => applyPreset(preset)}
-              className={`
-                p-3 rounded-lg border touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced micro-interaction card-hover-enhanced
-                ${activePreset === preset.name
-                  ? "bg-purple-600/30 border-purple-400 scale-95"
-                  : "glass-desktop border-white/20"
-                }
-              `}
-              role="button"
-              aria-pressed={activePreset === preset.name}
-              aria-label={`Apply filter: ${preset.name}`}
-              aria-describedby={`preset-desc-${index}`}
-            >
-              <div className="flex flex-col items-center gap-1">
-                <span className="text-lg" aria-hidden="true">{preset.icon}</span>
-                <span className="text-responsive-xs text-white">{preset.name}</span>
-              </div>
-              <div id={`preset-desc-${index}`} className="sr-only">
-                {preset.name} filter
-              </div>
-            </button>
-          ))}
-        </div>
-      </div>
+      <FilterPresets filter={filter} onApply={applyPreset} store={savedPresets} />
       
       {/* Active Filters Count */}
-      {getActiveCount() > 0 && (
+      {activeCount > 0 && (
         <div
+          id={statusId.current}
           className="mb-4 p-2 glass-desktop rounded-lg border border-purple-400/30 bg-purple-600/10 animate-fade-in"
           role="status"
           aria-live="polite"
           aria-atomic="true"
         >
-          <div className="flex items-center justify-between">
+          <div className="flex items-center justify-between gap-2">
             <p className="text-purple-200 text-sm">
-              {getActiveCount()} active filter{getActiveCount() > 1 ? 's' : ''}
+              {activeCount} active filter{activeCount > 1 ? 's' : ''}
             </p>
-            {filterHistory.length > 1 && (
+            <div className="flex gap-1">
+              {filterHistory.length > 1 && (
+                <button
+                  onClick={goBack}
+                  className="px-2 py-1 text-xs bg-purple-600/50 text-white rounded touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced micro-interaction"
+                  aria-label="Go back to previous filter"
+                  title="Go back to previous filter"
+                >
+                  Back
+                </button>
+              )}
               <button
-                onClick={goBack}
-                className="px-2 py-1 text-xs bg-purple-600/50 text-white rounded touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced micro-interaction"
-                aria-label="Go back to previous filter"
-                title="Go back to previous filter"
+                onClick={() => update(EMPTY_FILTER, 'All filters cleared')}
+                className="px-2 py-1 text-xs bg-white/10 text-white rounded touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced micro-interaction"
               >
-                Back
+                Clear all
               </button>
-            )}
+            </div>
           </div>
         </div>
       )}
@@ -227,15 +237,8 @@ export function TodoFilters({
           </label>
           <select
             id="status-filter"
-            value={filter}
-            onChange={(e) => {
-              try {
-                setFilter(e.target.value as "all" | "active" | "completed");
-                announce(`Status filter changed to: ${e.target.value}`, 'polite');
-              } catch (error) {
-                handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'statusFilterChange' });
-              }
-            }}
+            value={filter.status}
+            onChange={(e) => update({ status: e.target.value as StatusFilter }, `Status filter changed to: ${e.target.value}`)}
             className="w-full px-4 py-3 sm:py-4 text-responsive-base bg-white/20 border border-white/30 rounded-lg text-white backdrop-blur-sm min-h-[44px] sm:min-h-[48px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized"
             aria-describedby="status-help"
           >
@@ -248,37 +251,178 @@ export function TodoFilters({
           </div>
         </div>
 
+        <div className="transition-all duration-300 transform">
+          <button
+            type="button"
+            onClick={() => update(
+              { readyOnly: !filter.readyOnly },
+              filter.readyOnly ? 'Showing all tasks' : 'Showing only tasks that are ready to work on'
+            )}
+            className={`w-full flex items-center justify-between px-4 py-3 rounded-lg border text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced micro-interaction ${
+              filter.readyOnly ? "bg-green-600/30 border-green-400 text-white" : "bg-white/10 border-white/30 text-purple-200"
+            }`}
+            aria-pressed={filter.readyOnly}
+            aria-describedby="ready-filter-help"
+          >
+            <span>
+              <span aria-hidden="true">🚀 </span>
+              Ready to work on
+            </span>
+            <span className="text-xs">{filter.readyOnly ? "On" : "Off"}</span>
+          </button>
+          <div id="ready-filter-help" className="sr-only">
+            Show only open tasks that are not waiting on other tasks
+          </div>
+        </div>
+
+        <div className="transition-all duration-300 transform">
+          <h3 id={priorityLabelId.current} className="text-responsive-sm font-medium text-purple-200 mb-2 sm:mb-3">
+            Filter by Priority
+          </h3>
+          <div className="flex gap-2" role="group" aria-labelledby={priorityLabelId.current}>
+            {FILTER_PRIORITIES.map(priority => {
+              const selected = filter.priorities.includes(priority);
+              return (
+                <button
+                  key={priority}
+                  type="button"
+                  onClick={() => update(
+                    { priorities: toggleFilterItem(filter.priorities, priority) },
+                    `Priority filter ${priority} ${selected ? 'removed' : 'added'}`
+                  )}
+                  className={`flex-1 px-3 py-2 rounded-lg text-responsive-xs capitalize min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced micro-interaction ${
+                    selected ? PRIORITY_STYLES[priority] : "bg-white/10 text-purple-200"
+                  }`}
+                  aria-pressed={selected}
+                >
+                  {priority}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
         <div className="transition-all duration-300 transform">
           <label
-            htmlFor="category-filter"
+            htmlFor={dueId.current}
             className="block text-responsive-sm font-medium text-purple-200 mb-2 sm:mb-3"
           >
-            Filter by Category
+            Filter by Due Date
           </label>
           <select
-            id="category-filter"
-            value={categoryFilter}
+            id={dueId.current}
+            value={filter.due}
             onChange={(e) => {
-              try {
-                setCategoryFilter(e.target.value);
-                announce(`Category filter changed to: ${e.target.value}`, 'polite');
-              } catch (error) {
-                handleError(error instanceof Error ? error : new Error(String(error)), { component: 'TodoFilters', action: 'categoryFilterChange' });
-              }
+              const due = e.target.value as DueRange;
+              update({ due }, `Due date filter changed to: ${DUE_RANGES.find(range => range.value === due)?.label}`);
             }}
             className="w-full px-4 py-3 sm:py-4 text-responsive-base bg-white/20 border border-white/30 rounded-lg text-white backdrop-blur-sm min-h-[44px] sm:min-h-[48px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized"
-            aria-describedby="category-filter-help"
           >
-            <option value="all" className="bg-slate-800">All Categories</option>
-            {categories.map((category) => (
-              <option key={category} value={category} className="bg-slate-800">
-                {category}
+            {DUE_RANGES.map(range => (
+              <option key={range.value} value={range.value} className="bg-slate-800">
+                {range.label}
               </option>
             ))}
           </select>
-          <div id="category-filter-help" className="sr-only">
-            Filter tasks by category
+        </div>
+
+        <div className="transition-all duration-300 transform">
+          <h3 id={categoryLabelId.current} className="text-responsive-sm font-medium text-purple-200 mb-2 sm:mb-3">
+            Filter by Category
+          </h3>
+          <div className="flex flex-wrap gap-2" role="group" aria-labelledby={categoryLabelId.current}>
+            {categories.map(category => {
+              const selected = filter.categories.includes(category);
+              return (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => update(
+                    { categories: toggleFilterItem(filter.categories, category) },
+                    `Category filter ${category} ${selected ? 'removed' : 'added'}`
+                  )}
+                  className={`px-3 py-1 rounded-full text-responsive-xs touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced micro-interaction ${
+                    selected ? "bg-purple-600 text-white" : "bg-white/10 text-purple-200"
+                  }`}
+                  aria-pressed={selected}
+                >
+                  {category}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {tags.length > 0 && (
+          <div className="transition-all duration-300 transform">
+            <div className="flex items-center justify-between mb-2 sm:mb-3">
+              <h3 id="tag-filter-label" className="text-responsive-sm font-medium text-purple-200">
+                Filter by Tags
+              </h3>
+              {filter.tags.length > 1 && (
+                <div className="flex gap-1" role="group" aria-label="Tag match mode">
+                  {(["any", "all"] as TagMatchMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => update({ tagMatch: mode }, `Showing tasks with ${mode} of the selected tags`)}
+                      className={`px-2 py-1 text-xs rounded touch-target button-hover-enhanced focus-enhanced keyboard-enhanced ${
+                        filter.tagMatch === mode ? "bg-purple-600 text-white" : "bg-white/10 text-purple-200"
+                      }`}
+                      aria-pressed={filter.tagMatch === mode}
+                    >
+                      {mode === "any" ? "Any" : "All"}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2" role="group" aria-labelledby="tag-filter-label">
+              {tags.map(tag => {
+                const selected = filter.tags.includes(tag);
+                return (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTag(tag)}
+                    className={`px-3 py-1 rounded-full text-responsive-xs touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced micro-interaction ${
+                      selected ? "bg-blue-600 text-white" : "bg-white/10 text-blue-200"
+                    }`}
+                    aria-pressed={selected}
+                  >
+                    #{tag}
+                  </button>
+                );
+              })}
+            </div>
+            {filter.tags.length > 0 && (
+              <button
+                type="button"
+                onClick={() => update({ tags: [] }, 'Tag filters cleared')}
+                className="mt-2 text-xs text-purple-300 hover:text-white focus-enhanced keyboard-enhanced"
+              >
+                Clear tags
+              </button>
+            )}
           </div>
+        )}
+
+        <div className="transition-all duration-300 transform">
+          <label
+            htmlFor={textId.current}
+            className="block text-responsive-sm font-medium text-purple-200 mb-2 sm:mb-3"
+          >
+            Text Contains
+          </label>
+          <input
+            id={textId.current}
+            type="text"
+            value={filter.text}
+            onChange={(e) => setFilter({ ...filter, text: e.target.value })}
+            placeholder="Words in the title, notes or tags"
+            className="w-full px-4 py-3 text-responsive-base bg-white/20 border border-white/30 rounded-lg text-white placeholder-purple-300 backdrop-blur-sm min-h-[44px] sm:min-h-[48px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced"
+            autoComplete="off"
+          />
         </div>
       </div>
     </div>
@@ -1,7 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
-import { Todo } from "@/app/page";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useFormAccessibility, useLiveRegion } from "@/hooks/useAccessibility";
 import { ariaUtils, keyboardNavigation } from "@/utils/accessibility";
 import { useFormValidation } from "@/hooks/useErrorHandling";
@@ -10,10 +9,24 @@ import { useLocalStorage } from "@/hooks/useLocalStorage";
 import { ErrorBoundary, withErrorBoundary } from "@/components/ErrorBoundary";
 import { useErrorHandler } from "@/contexts/ErrorContext";
 import { AppError } from "@/utils/error-handling";
+import { Todo } from "@/utils/todo-store";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { RecurrenceRule } from "@/utils/recurrence";
+import { RecurrenceEditor } from "@/components/RecurrenceEditor";
+import { TagInput } from "@/components/TagInput";
+import { collectTags } from "@/utils/tags";
+import { NotesEditor } from "@/components/NotesEditor";
+import { parseDuration } from "@/utils/time-tracking";
+import { Reminder } from "@/utils/reminders";
+import { ReminderEditor } from "@/components/ReminderEditor";
+import { DEFAULT_PROJECT, DEFAULT_PROJECT_ID } from "@/utils/projects";
+import { parseQuickAdd } from "@/utils/quick-add";
+import { QuickAddHighlight, QuickAddPreview } from "@/components/QuickAddPreview";
+import { MAX_TODO_TEXT_LENGTH, TodoFormValues, createTodoValidationRules, resolveFormDue } from "@/utils/todo-form";
+import { dueFields } from "@/utils/due-dates";
+import { getStorageAdapter } from "@/utils/storage-adapter";
 
 interface TodoFormProps {
-  todos: Todo[];
-  setTodos: React.Dispatch<React.SetStateAction<Todo[]>>;
   categories: string[];
   onClose?: () => void;
   isMobilePanel?: boolean;
@@ -21,23 +34,23 @@ interface TodoFormProps {
 
 interface FormErrors {
   text?: string;
+  notes?: string;
   category?: string;
   dueDate?: string;
+  dueTime?: string;
   priority?: string;
-}
-
-interface FormValues extends Record<string, unknown> {
-  text: string;
-  priority: "low" | "medium" | "high";
-  category: string;
-  dueDate: string;
+  recurrence?: string;
+  estimate?: string;
+  reminders?: string;
 }
 
 interface DraftTodo {
   text: string;
+  notes?: string;
   priority: "low" | "medium" | "high";
   category: string;
   dueDate: string;
+  dueTime?: string;
 }
 
 const TodoFormWithBoundary = withErrorBoundary(TodoForm, {
@@ -46,13 +59,21 @@ const TodoFormWithBoundary = withErrorBoundary(TodoForm, {
   maxRetries: 3
 });
 
-export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel = false }: TodoFormProps) {
+export function TodoForm({ categories, onClose, isMobilePanel = false }: TodoFormProps) {
   const { handleError } = useErrorHandler();
-  const initialValues: FormValues = {
+  const { todos, addTodo, projects, activeProjectId } = useTodoStore();
+  const activeProject = projects.find(project => project.id === activeProjectId) || DEFAULT_PROJECT;
+  const initialValues: TodoFormValues = {
     text: "",
+    notes: "",
     priority: "medium",
-    category: "General",
-    dueDate: ""
+    category: activeProject.defaultCategory,
+    tags: [],
+    dueDate: "",
+    dueTime: "",
+    recurrence: null,
+    estimate: "",
+    reminders: []
   };
 
   const {
@@ -61,6 +82,7 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
     touched,
     isSubmitting,
     setValue,
+    setTouchedField,
     setFieldError,
     clearFieldError,
     clearAllErrors,
@@ -71,8 +93,23 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [draftSaved, setDraftSaved] = useState(false);
+  // Quick-add syntax can be turned off to type "#", "!" or dates literally
+  const [smartParsing, setSmartParsing] = useState(true);
+
+  const quickAdd = useMemo(
+    () => (smartParsing ? parseQuickAdd(values.text as string, new Date(), categories) : null),
+    [smartParsing, values.text, categories]
+  );
+  // Explicitly typed fields win over the form controls
+  const effectiveDue = useMemo(
+    () => quickAdd?.dueDate
+      ? { dueDate: quickAdd.dueDate, dueAllDay: !quickAdd.hasDueTime }
+      : resolveFormDue(values as TodoFormValues),
+    [quickAdd, values]
+  );
   
   const textInputRef = useRef<HTMLInputElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
   const { announce } = useLiveRegion();
   const { success, error, validation } = useToastNotification();
@@ -94,16 +131,18 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
   useEffect(() => {
     const draftData: DraftTodo = {
       text: values.text as string,
+      notes: values.notes as string,
       priority: values.priority as "low" | "medium" | "high",
       category: values.category as string,
-      dueDate: values.dueDate as string
+      dueDate: values.dueDate as string,
+      dueTime: values.dueTime as string
     };
     
     try {
       setDraft(draftData);
       
       // Show draft saved indicator
-      if (values.text || values.category !== "General" || values.dueDate) {
+      if (values.text || values.notes || values.category !== "General" || values.dueDate) {
         setDraftSaved(true);
         const timer = setTimeout(() => setDraftSaved(false), 2000);
         return () => clearTimeout(timer);
@@ -117,16 +156,26 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
   useEffect(() => {
     if (draft) {
       try {
-        setValue("text" as keyof FormValues, draft.text || "");
-        setValue("priority" as keyof FormValues, draft.priority || "medium");
-        setValue("category" as keyof FormValues, draft.category || "General");
-        setValue("dueDate" as keyof FormValues, draft.dueDate || "");
+        setValue("text" as keyof TodoFormValues, draft.text || "");
+        setValue("notes" as keyof TodoFormValues, draft.notes || "");
+        setValue("priority" as keyof TodoFormValues, draft.priority || "medium");
+        setValue("category" as keyof TodoFormValues, draft.category || "General");
+        setValue("dueDate" as keyof TodoFormValues, draft.dueDate || "");
+        setValue("dueTime" as keyof TodoFormValues, draft.dueTime || "");
       } catch (err) {
         error("Failed to load draft: " + (err instanceof Error ? err.message : String(err)), { persistent: false });
       }
     }
   }, [draft, setValue, error]);
 
+  // Switching lists preselects that list's default category
+  const previousProjectId = useRef(activeProjectId);
+  useEffect(() => {
+    if (previousProjectId.current === activeProjectId) return;
+    previousProjectId.current = activeProjectId;
+    setValue("category" as keyof TodoFormValues, activeProject.defaultCategory);
+  }, [activeProjectId, activeProject.defaultCategory, setValue]);
+
   // Generate smart suggestions
   const generateSuggestions = (input: string) => {
     if (!input.trim()) return [];
@@ -143,48 +192,12 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
     return [...new Set([...recentTasks, ...categoryMatches])];
   };
 
-  // Validation rules
-  const validationRules = {
-    text: (value: unknown) => {
-      const textValue = String(value || "");
-      if (!textValue.trim()) {
-        return "Task description is required";
-      }
-      if (textValue.trim().length < 3) {
-        return "Task must be at least 3 characters";
-      }
-      if (textValue.trim().length > 200) {
-        return "Task must be less than 200 characters";
-      }
-      return null;
-    },
-    priority: (value: unknown) => {
-      if (!value) {
-        return "Priority is required";
-      }
-      return null;
-    },
-    category: (value: unknown) => {
-      const categoryValue = String(value || "");
-      if (!categoryValue.trim()) {
-        return "Category is required";
-      }
-      return null;
-    },
-    dueDate: (value: unknown) => {
-      const dateValue = String(value || "");
-      if (dateValue) {
-        const selectedDate = new Date(dateValue);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        
-        if (selectedDate < today) {
-          return "Due date cannot be in the past";
-        }
-      }
-      return null;
-    }
-  };
+  // Validation rules, shared with editing an existing task
+  const validationRules = createTodoValidationRules({
+    text: quickAdd?.text,
+    dueDate: effectiveDue?.dueDate,
+    dueAllDay: effectiveDue?.dueAllDay
+  });
 
   // Handle text input with suggestions
   const handleTextChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -209,7 +222,7 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
 
   // Handle suggestion selection
   const selectSuggestion = useCallback((suggestion: string) => {
-    setValue("text" as keyof FormValues, suggestion);
+    setValue("text" as keyof TodoFormValues, suggestion);
     setShowSuggestions(false);
     setSuggestions([]);
     textInputRef.current?.focus();
@@ -262,29 +275,42 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
         // Simulate API call delay
         await new Promise(resolve => setTimeout(resolve, 500));
         
+        const text = quickAdd ? quickAdd.text : (values.text as string).trim();
         const newTodo: Todo = {
           id: crypto.randomUUID(),
-          text: (values.text as string).trim(),
+          text,
+          notes: (values.notes as string).trim() ? (values.notes as string) : undefined,
           completed: false,
-          priority: values.priority as "low" | "medium" | "high",
-          category: (values.category as string) || "General",
-          dueDate: values.dueDate ? new Date(values.dueDate as string) : undefined,
+          priority: quickAdd?.priority ?? (values.priority as "low" | "medium" | "high"),
+          category: quickAdd?.category || (values.category as string) || "General",
+          tags: (values.tags as string[]).length > 0 ? (values.tags as string[]) : undefined,
+          ...dueFields(effectiveDue),
           createdAt: new Date(),
+          recurrence: quickAdd?.recurrence || (values.recurrence as RecurrenceRule | null) || undefined,
+          estimateMinutes: parseDuration(values.estimate as string) ?? undefined,
+          reminders: (values.reminders as Reminder[]).length > 0 ? (values.reminders as Reminder[]) : undefined,
+          projectId: activeProjectId === DEFAULT_PROJECT_ID ? undefined : activeProjectId,
         };
 
-        setTodos([...todos, newTodo]);
+        addTodo(newTodo);
         
         // Announce success
-        announce(`Task "${(values.text as string).trim()}" created successfully`, 'polite');
+        announce(`Task "${text}" created successfully`, 'polite');
         
         // Clear draft
         setDraft(null);
         
         // Reset form
-        setValue("text" as keyof FormValues, "");
-        setValue("priority" as keyof FormValues, "medium");
-        setValue("category" as keyof FormValues, "General");
-        setValue("dueDate" as keyof FormValues, "");
+        setValue("text" as keyof TodoFormValues, "");
+        setValue("notes" as keyof TodoFormValues, "");
+        setValue("priority" as keyof TodoFormValues, "medium");
+        setValue("category" as keyof TodoFormValues, activeProject.defaultCategory);
+        setValue("tags" as keyof TodoFormValues, []);
+        setValue("dueDate" as keyof TodoFormValues, "");
+        setValue("dueTime" as keyof TodoFormValues, "");
+        setValue("recurrence" as keyof TodoFormValues, null);
+        setValue("estimate" as keyof TodoFormValues, "");
+        setValue("reminders" as keyof TodoFormValues, []);
         setSuggestions([]);
         setShowSuggestions(false);
         
@@ -311,7 +337,7 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
         throw err;
       }
     }, { showErrorToast: false });
-  }, [values, todos, setTodos, isMobilePanel, onClose, handleFormSubmit, validationRules, announce, setValue, setDraft, success, error]);
+  }, [values, quickAdd, effectiveDue, addTodo, activeProjectId, activeProject.defaultCategory, isMobilePanel, onClose, handleFormSubmit, validationRules, announce, setValue, setDraft, success, error]);
 
   return (
     <div className="glass-desktop p-4 sm:p-6 shadow-2xl">
@@ -360,10 +386,27 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
           >
             Task Description
             <span className="text-purple-400 text-xs ml-2" aria-live="polite">
-              {(values.text as string).length}/200 characters
+              {(values.text as string).length}/{MAX_TODO_TEXT_LENGTH} characters
             </span>
           </label>
+          <button
+            type="button"
+            onClick={() => setSmartParsing(prev => !prev)}
+            className="absolute top-0 right-0 px-2 py-0.5 text-xs rounded text-purple-200 hover:text-white focus-enhanced keyboard-enhanced"
+            aria-pressed={smartParsing}
+            title={'Recognise dates, #category, !priority and "every …" in the text'}
+          >
+            Quick-add syntax: {smartParsing ? "on" : "off"}
+          </button>
           <div className="relative">
+            {quickAdd && (
+              <QuickAddHighlight
+                ref={highlightRef}
+                input={values.text as string}
+                result={quickAdd}
+                className="px-4 py-3 sm:py-4 text-responsive-base rounded-lg"
+              />
+            )}
             <input
               ref={textInputRef}
               id="task-input"
@@ -371,15 +414,18 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
               value={values.text as string}
               onChange={handleTextChange}
               onBlur={() => setTouchedField("text")}
+              onScroll={(e) => {
+                if (highlightRef.current) highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+              }}
               placeholder="What needs to be done?"
-              className={`w-full px-4 py-3 sm:py-4 text-responsive-base bg-white/20 border rounded-lg text-white placeholder-purple-300 backdrop-blur-sm min-h-[44px] sm:min-h-[48px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized ${
+              className={`relative w-full px-4 py-3 sm:py-4 text-responsive-base bg-white/20 border rounded-lg text-white placeholder-purple-300 backdrop-blur-sm min-h-[44px] sm:min-h-[48px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized ${
                 errors.text ? "border-red-400 focus:ring-red-400 error-enhanced" : "border-white/30"
               }`}
               aria-required="true"
-              aria-describedby={errors.text ? "error-task-text" : descriptionId.current}
+              aria-describedby={errors.text ? "error-task-text" : quickAdd?.tokens.length ? "quick-add-preview" : descriptionId.current}
               aria-invalid={!!errors.text}
               autoComplete="off"
-              maxLength={200}
+              maxLength={MAX_TODO_TEXT_LENGTH}
             />
             
             {/* Suggestions dropdown */}
@@ -421,6 +467,8 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
               {errors.text}
             </p>
           )}
+
+          {quickAdd && <QuickAddPreview id="quick-add-preview" result={quickAdd} />}
         </div>
 
         {/* Priority and Category row */}
@@ -484,6 +532,22 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
           </div>
         </div>
 
+        {/* Notes */}
+        <NotesEditor
+          id="notes-input"
+          value={values.notes as string}
+          onChange={(notes) => setValue("notes", notes)}
+          error={errors.notes}
+        />
+
+        {/* Tags */}
+        <TagInput
+          id="tags-input"
+          tags={values.tags as string[]}
+          onChange={(tags) => setValue("tags", tags)}
+          availableTags={collectTags(todos)}
+        />
+
         {/* Due date */}
         <div>
           <label
@@ -519,6 +583,97 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
           )}
         </div>
 
+        {/* Due time; without one the task is due all day */}
+        <div>
+          <label
+            htmlFor="due-time-input"
+            className="block text-responsive-sm font-medium text-purple-200 mb-2"
+          >
+            Due Time (Optional)
+          </label>
+          <input
+            id="due-time-input"
+            type="time"
+            value={values.dueTime as string}
+            onChange={(e) => setValue("dueTime", e.target.value)}
+            onBlur={() => setTouchedField("dueTime")}
+            className={`w-full px-4 py-3 sm:py-4 text-responsive-base bg-white/20 border rounded-lg text-white backdrop-blur-sm min-h-[44px] sm:min-h-[48px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized ${
+              errors.dueTime ? "border-red-400 focus:ring-red-400 error-enhanced" : "border-white/30"
+            }`}
+            aria-describedby={errors.dueTime ? "error-due-time" : "due-time-help"}
+            aria-invalid={!!errors.dueTime}
+          />
+          <div id="due-time-help" className="text-purple-400 text-xs mt-1">
+            Leave empty for an all-day task
+          </div>
+          {errors.dueTime && touched.dueTime && (
+            <p
+              id="error-due-time"
+              className="mt-2 text-red-400 text-responsive-xs animate-fade-in"
+              role="alert"
+              aria-live="assertive"
+            >
+              {errors.dueTime}
+            </p>
+          )}
+        </div>
+
+        {/* Time estimate */}
+        <div>
+          <label
+            htmlFor="estimate-input"
+            className="block text-responsive-sm font-medium text-purple-200 mb-2"
+          >
+            Time Estimate (Optional)
+          </label>
+          <input
+            id="estimate-input"
+            type="text"
+            value={values.estimate as string}
+            onChange={(e) => setValue("estimate", e.target.value)}
+            onBlur={() => setTouchedField("estimate")}
+            placeholder="e.g. 45m or 1h 30m"
+            className={`w-full px-4 py-3 sm:py-4 text-responsive-base bg-white/20 border rounded-lg text-white placeholder-purple-300 backdrop-blur-sm min-h-[44px] sm:min-h-[48px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized ${
+              errors.estimate ? "border-red-400 focus:ring-red-400 error-enhanced" : "border-white/30"
+            }`}
+            aria-describedby={errors.estimate ? "error-estimate" : "estimate-help"}
+            aria-invalid={!!errors.estimate}
+          />
+          <div id="estimate-help" className="sr-only">
+            Optional estimate of how long the task will take
+          </div>
+          {errors.estimate && touched.estimate && (
+            <p
+              id="error-estimate"
+              className="mt-2 text-red-400 text-responsive-xs animate-fade-in"
+              role="alert"
+              aria-live="assertive"
+            >
+              {errors.estimate}
+            </p>
+          )}
+        </div>
+
+        {/* Recurrence */}
+        <RecurrenceEditor
+          value={values.recurrence as RecurrenceRule | null}
+          onChange={(rule) => setValue("recurrence", rule)}
+          idPrefix="todo-recurrence"
+          error={errors.recurrence}
+        />
+
+        {/* Reminders */}
+        <ReminderEditor
+          reminders={values.reminders as Reminder[]}
+          onAdd={(reminder) => setValue("reminders", [...(values.reminders as Reminder[]), reminder])}
+          onRemove={(reminderId) =>
+            setValue("reminders", (values.reminders as Reminder[]).filter(reminder => reminder.id !== reminderId))
+          }
+          hasDueDate={!!effectiveDue}
+          idPrefix="todo-reminders"
+          error={errors.reminders}
+        />
+
         {/* Submit button */}
         <button
           type="submit"
@@ -554,7 +709,8 @@ export function TodoForm({ todos, setTodos, categories, onClose, isMobilePanel =
         
         {/* Form description for screen readers */}
         <div id={descriptionId.current} className="sr-only">
-          Create a new task with description, priority, category, and optional due date
+          Create a new task with description, optional notes, priority, category, tags, due date and repeat schedule.
+          With quick-add syntax on, the description may include a due date such as &quot;tomorrow 9am&quot;, a #category, a !priority and a repeat such as &quot;every month&quot;.
         </div>
       </form>
     </div>
@@ -587,17 +743,17 @@ function TodoFormFallback({ error, errorInfo, retry }: TodoFormFallbackProps) {
           </button>
           <button
             onClick={() => {
-              // Try to recover from localStorage
-              try {
-                const saved = localStorage.getItem("novatask-draft");
-                if (saved) {
-                  success("Form draft recovered from storage");
-                } else {
-                  showError("No form draft found in storage");
-                }
-              } catch (e) {
-                showError("Failed to recover form draft");
-              }
+              // Try to recover from storage
+              getStorageAdapter()
+                .then(storage => storage.getItem("novatask-draft"))
+                .then(saved => {
+                  if (saved) {
+                    success("Form draft recovered from storage");
+                  } else {
+                    showError("No form draft found in storage");
+                  }
+                })
+                .catch(() => showError("Failed to recover form draft"));
             }}
             className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced micro-interaction"
           >
@@ -1,9 +1,11 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
-import { Todo } from "@/app/page";
+import { Fragment, useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useSwipeGesture } from "@/hooks/useSwipeGesture";
 import { usePullToRefresh } from "@/hooks/usePullToRefresh";
+import { useSelection } from "@/hooks/useSelection";
+import { useLongPress } from "@/hooks/useLongPress";
+import { KeyboardShortcut, useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { SkeletonLoader, TodoSkeleton, PullToRefreshSkeleton } from "@/components/SkeletonLoader";
 import { useLiveRegion, useListNavigation, useButtonAccessibility } from "@/hooks/useAccessibility";
 import { ariaUtils, keyboardNavigation } from "@/utils/accessibility";
@@ -11,13 +13,39 @@ import { ErrorBoundary, withErrorBoundary } from "@/components/ErrorBoundary";
 import { useErrorHandler } from "@/contexts/ErrorContext";
 import { useToastNotification } from "@/components/ToastNotification";
 import { AppError } from "@/utils/error-handling";
+import { Todo, TodoPriority } from "@/utils/todo-store";
+import { TODOS_STORAGE_KEY, parseStoredTodos, quarantineTodos } from "@/utils/todo-storage";
+import { getStorageAdapter } from "@/utils/storage-adapter";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { SubtaskList, SubtaskProgressIndicator } from "@/components/SubtaskList";
+import { TodoDetail } from "@/components/TodoDetail";
+import { TodoEditPanel } from "@/components/TodoEditPanel";
+import { TrashBin } from "@/components/TrashBin";
+import { TimeTracker } from "@/components/TimeTracker";
+import { BulkActionBar } from "@/components/BulkActionBar";
+import { describeRecurrence, formatRRule, getNextOccurrence } from "@/utils/recurrence";
+import { getNextReminderTime } from "@/utils/reminders";
+import { describeBlockers, getOpenBlockers } from "@/utils/dependencies";
+import { describeDueDate, dueFields } from "@/utils/due-dates";
+import { getMatchSnippet, highlightMatches } from "@/utils/search";
 
 interface TodoListProps {
   todos: Todo[];
-  setTodos: React.Dispatch<React.SetStateAction<Todo[]>>;
   onAddTask?: () => void;
   onRefresh?: () => Promise<void> | void;
   isLoading?: boolean;
+  // Search words and phrases to highlight in each task
+  highlightTerms?: string[];
+  // The list is narrowed by a search, so an empty list means "no matches"
+  isFiltered?: boolean;
+  // Drag to reorder is only offered while the list shows its manual order
+  canReorder?: boolean;
+  // Headings shown before the task with that id, e.g. the days of the Upcoming view
+  sectionHeadings?: Record<string, string>;
+  // Replaces the "no tasks yet" message, e.g. for a smart view with nothing in it
+  emptyState?: { icon: string; title: string; description: string };
+  // Offered by the bulk action bar's category picker
+  categories?: string[];
 }
 
 const TodoListWithBoundary = withErrorBoundary(TodoList, {
@@ -26,13 +54,33 @@ const TodoListWithBoundary = withErrorBoundary(TodoList, {
   maxRetries: 3
 });
 
-export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = false }: TodoListProps) {
+export function TodoList({ todos, onAddTask, onRefresh, isLoading = false, highlightTerms = [], isFiltered = false, canReorder = true, sectionHeadings, emptyState, categories = [] }: TodoListProps) {
   const { handleError } = useErrorHandler();
+  const {
+    todos: allTodos,
+    projects,
+    trashedTodos,
+    toggleTodo: toggleStoredTodo,
+    bulkToggle,
+    bulkUpdate,
+    moveToProject,
+    trashTodos,
+    restoreTodos,
+    reorderTodos,
+    bindUndo
+  } = useTodoStore();
+  const { withActions, info } = useToastNotification();
+  // Task open in the edit panel
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editingText, setEditingText] = useState("");
   const [draggedItem, setDraggedItem] = useState<string | null>(null);
   const [dragOverItem, setDragOverItem] = useState<string | null>(null);
   const [focusedIndex, setFocusedIndex] = useState<number>(-1);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  // Selection mode turns clicks (and long-presses on touch) into selecting tasks for bulk actions
+  const [isSelecting, setIsSelecting] = useState(false);
+  const todoIds = useMemo(() => todos.map(todo => todo.id), [todos]);
+  const { selectedIds, isSelected, toggle: toggleSelected, selectRange, selectAll, clear: clearSelection } = useSelection(todoIds);
   
   const listRef = useRef<HTMLDivElement>(null);
   const { announce } = useLiveRegion();
@@ -58,25 +106,156 @@ export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = fa
     const todo = todos.find(t => t.id === id);
     if (todo) {
       const newCompleted = !todo.completed;
-      setTodos(todos.map((t) =>
-        t.id === id ? { ...t, completed: newCompleted } : t
-      ));
+
+      // Completing a task that is still waiting on others needs confirmation
+      const blockers = newCompleted ? getOpenBlockers(todo, allTodos) : [];
+      if (blockers.length > 0) {
+        // bulkToggle sets rather than flips, so a late click can't reopen the task
+        const completeAnyway = () => {
+          bulkToggle([id], true);
+          announce(`Task "${todo.text}" marked as completed`, 'polite');
+        };
+        withActions(
+          describeBlockers(todo, blockers),
+          [{ label: "Complete anyway", action: completeAnyway, primary: true }],
+          { type: "warning" }
+        );
+        announce(`Task "${todo.text}" is blocked by ${blockers.length} open task${blockers.length > 1 ? 's' : ''}`, 'assertive');
+        return;
+      }
+
+      toggleStoredTodo(id);
       
       // Announce the change to screen readers
       announce(
         `Task "${todo.text}" marked as ${newCompleted ? 'completed' : 'active'}`,
         'polite'
       );
+
+      if (newCompleted && todo.recurrence && !todo.nextOccurrenceId) {
+        const next = getNextOccurrence(todo.recurrence, todo.dueDate ? new Date(todo.dueDate) : new Date(), todo.occurrence);
+        if (next) {
+          announce(`Next occurrence scheduled for ${next.toLocaleDateString()}`, 'polite');
+        }
+      }
     }
-  }, [todos, setTodos, announce, handleError]);
+  }, [todos, allTodos, toggleStoredTodo, bulkToggle, withActions, announce]);
 
+  // Deleting moves the task to the trash, so it can be undone
   const deleteTodo = useCallback((id: string) => {
     const todo = todos.find(t => t.id === id);
     if (todo) {
-      setTodos(todos.filter((t) => t.id !== id));
-      announce(`Task "${todo.text}" deleted`, 'polite');
+      trashTodos([id]);
+      announce(`Task "${todo.text}" moved to trash`, 'polite');
+      withActions(`"${todo.text}" moved to trash`, [
+        {
+          label: "Undo",
+          action: () => {
+            restoreTodos([id]);
+            announce(`Task "${todo.text}" restored`, 'polite');
+          },
+          primary: true
+        },
+        { label: "View trash", action: () => setIsTrashOpen(true) }
+      ]);
     }
-  }, [todos, setTodos, announce, handleError]);
+  }, [todos, trashTodos, restoreTodos, withActions, announce]);
+
+  const exitSelection = useCallback(() => {
+    setIsSelecting(false);
+    clearSelection();
+  }, [clearSelection]);
+
+  // Toggle one task, or with extend add the range from the last toggled one
+  const selectTodo = useCallback((id: string, extend: boolean) => {
+    setIsSelecting(true);
+    if (extend) {
+      selectRange(id);
+    } else {
+      toggleSelected(id);
+    }
+  }, [selectRange, toggleSelected]);
+
+  const selectAllTodos = useCallback(() => {
+    setIsSelecting(true);
+    selectAll();
+    announce(`All ${todos.length} tasks selected`, 'polite');
+  }, [selectAll, todos.length, announce]);
+
+  // Each bulk action is one store action, so a single undo reverts all of it.
+  // The toast's Undo is bound to this action and does nothing once another change follows it.
+  const runBulkAction = useCallback((message: string, apply: (ids: string[]) => void, keepSelection = false) => {
+    if (selectedIds.length === 0) return;
+    const undoAction = bindUndo();
+    apply(selectedIds);
+    announce(message, 'polite');
+    withActions(message, [{
+      label: "Undo",
+      action: () => {
+        if (!undoAction()) info("This change can no longer be undone");
+      },
+      primary: true
+    }]);
+    if (!keepSelection) exitSelection();
+  }, [selectedIds, bindUndo, announce, withActions, info, exitSelection]);
+
+  const countLabel = `${selectedIds.length} task${selectedIds.length === 1 ? "" : "s"}`;
+
+  const bulkDelete = useCallback(() => {
+    const ids = selectedIds;
+    if (ids.length === 0) return;
+    trashTodos(ids);
+    announce(`${countLabel} moved to trash`, 'polite');
+    withActions(`${countLabel} moved to trash`, [
+      {
+        label: "Undo",
+        action: () => {
+          restoreTodos(ids);
+          announce(`${ids.length} task${ids.length === 1 ? "" : "s"} restored`, 'polite');
+        },
+        primary: true
+      },
+      { label: "View trash", action: () => setIsTrashOpen(true) }
+    ]);
+    exitSelection();
+  }, [selectedIds, countLabel, trashTodos, restoreTodos, withActions, announce, exitSelection]);
+
+  // Ctrl+A selects every task in the list that is showing (other layouts are hidden)
+  const selectionShortcuts = useMemo<KeyboardShortcut[]>(() => {
+    const selectAllIfVisible = () => {
+      if (listRef.current?.offsetParent) selectAllTodos();
+    };
+    return [
+      { key: "a", ctrlKey: true, ignoreInEditable: true, action: selectAllIfVisible, description: "Select all tasks" },
+      { key: "a", metaKey: true, ignoreInEditable: true, action: selectAllIfVisible, description: "Select all tasks" },
+    ];
+  }, [selectAllTodos]);
+
+  const exitShortcuts = useMemo<KeyboardShortcut[]>(() => [
+    { key: "Escape", action: exitSelection, description: "Exit selection" },
+  ], [exitSelection]);
+
+  useKeyboardShortcuts({ shortcuts: selectionShortcuts, enabled: todos.length > 0 });
+  useKeyboardShortcuts({ shortcuts: exitShortcuts, enabled: isSelecting });
+
+  const trashControls = (
+    <>
+      {trashedTodos.length > 0 && (
+        <div className="flex justify-end mt-3 px-2">
+          <button
+            type="button"
+            onClick={() => setIsTrashOpen(true)}
+            className="px-3 py-1 text-xs text-purple-200 bg-white/10 rounded-lg touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+            aria-label={`Open trash, ${trashedTodos.length} deleted task${trashedTodos.length === 1 ? '' : 's'}`}
+          >
+            <span aria-hidden="true">🗑 </span>
+            Trash ({trashedTodos.length})
+          </button>
+        </div>
+      )}
+      <TrashBin isOpen={isTrashOpen} onClose={() => setIsTrashOpen(false)} />
+    </>
+  );
 
   // Drag and drop handlers
   const handleDragStart = (e: React.DragEvent, todoId: string) => {
@@ -101,18 +280,9 @@ export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = fa
     e.preventDefault();
     setDragOverItem(null);
     
-    if (!draggedItem || draggedItem === targetId) return;
-    
-    const draggedIndex = todos.findIndex(todo => todo.id === draggedItem);
-    const targetIndex = todos.findIndex(todo => todo.id === targetId);
-    
-    if (draggedIndex === -1 || targetIndex === -1) return;
+    if (!canReorder || !draggedItem || draggedItem === targetId) return;
     
-    const newTodos = [...todos];
-    const [draggedTodo] = newTodos.splice(draggedIndex, 1);
-    newTodos.splice(targetIndex, 0, draggedTodo);
-    
-    setTodos(newTodos);
+    reorderTodos(draggedItem, targetId);
     setDraggedItem(null);
   };
 
@@ -123,27 +293,9 @@ export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = fa
 
   const startEditing = useCallback((todo: Todo) => {
     setEditingId(todo.id);
-    setEditingText(todo.text);
     announce(`Editing task "${todo.text}"`, 'polite');
   }, [announce]);
 
-  const saveEdit = useCallback((id: string) => {
-    if (editingText.trim()) {
-      setTodos(todos.map((todo) =>
-        todo.id === id ? { ...todo, text: editingText.trim() } : todo
-      ));
-      announce(`Task updated to "${editingText.trim()}"`, 'polite');
-    }
-    setEditingId(null);
-    setEditingText("");
-  }, [editingText, setTodos, announce]);
-
-  const cancelEdit = useCallback(() => {
-    setEditingId(null);
-    setEditingText("");
-    announce('Edit cancelled', 'polite');
-  }, [announce]);
-
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case "high": return "border-l-red-400 bg-red-500/10";
@@ -175,6 +327,14 @@ export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = fa
 
     if (newIndex !== null) {
       event.preventDefault();
+
+      // Shift+arrows extend the selection from the focused task
+      if (event.shiftKey) {
+        const focusedTodo = todos[focusedIndex];
+        if (focusedTodo && !isSelected(focusedTodo.id)) selectTodo(focusedTodo.id, false);
+        selectTodo(todos[newIndex].id, true);
+      }
+
       setFocusedIndex(newIndex);
       
       // Focus the todo item
@@ -184,16 +344,27 @@ export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = fa
       }
     }
 
+    // "x" selects the focused task, as in many mail clients
+    if (focusedIndex >= 0 && event.key === "x" && !event.ctrlKey && !event.metaKey && !(event.target instanceof HTMLInputElement)) {
+      const focusedTodo = todos[focusedIndex];
+      if (focusedTodo) selectTodo(focusedTodo.id, false);
+      return;
+    }
+
     // Handle activation keys for focused todo
     if (focusedIndex >= 0 && keyboardNavigation.isActivationKey(event.key)) {
       event.preventDefault();
       const focusedTodo = todos[focusedIndex];
       if (focusedTodo) {
-        // Toggle completion with Enter/Space
-        toggleTodo(focusedTodo.id);
+        // Enter/Space toggle completion, or selection while selecting
+        if (isSelecting) {
+          selectTodo(focusedTodo.id, event.shiftKey);
+        } else {
+          toggleTodo(focusedTodo.id);
+        }
       }
     }
-  }, [todos, focusedIndex, toggleTodo]);
+  }, [todos, focusedIndex, toggleTodo, isSelecting, isSelected, selectTodo]);
 
   // Announce list changes
   useEffect(() => {
@@ -218,6 +389,26 @@ export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = fa
     );
   }
 
+  if (todos.length === 0 && isFiltered) {
+    return (
+      <div className="glass-desktop rounded-2xl p-6 sm:p-12 text-center" role="status" aria-live="polite">
+        <div className="text-4xl mb-4" aria-hidden="true">🔍</div>
+        <h2 className="text-responsive-lg font-semibold text-white mb-2">No matching tasks</h2>
+        <p className="text-responsive-sm text-purple-200">Try fewer words or remove a filter from the search.</p>
+      </div>
+    );
+  }
+
+  if (todos.length === 0 && emptyState) {
+    return (
+      <div className="glass-desktop rounded-2xl p-6 sm:p-12 text-center" role="status" aria-live="polite">
+        <div className="text-4xl mb-4" aria-hidden="true">{emptyState.icon}</div>
+        <h2 className="text-responsive-lg font-semibold text-white mb-2">{emptyState.title}</h2>
+        <p className="text-responsive-sm text-purple-200">{emptyState.description}</p>
+      </div>
+    );
+  }
+
   if (todos.length === 0) {
     return (
       <div
@@ -245,6 +436,8 @@ export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = fa
             </div>
           </button>
         )}
+
+        {trashControls}
       </div>
     );
   }
@@ -256,6 +449,53 @@ export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = fa
       
       {/* Status announcement for screen readers */}
       <div id={statusId.current} className="sr-only" aria-live="polite" aria-atomic="true" />
+
+      {isSelecting ? (
+        <BulkActionBar
+          selectedCount={selectedIds.length}
+          totalCount={todos.length}
+          allCompleted={selectedIds.length > 0 && selectedIds.every(id => todos.find(todo => todo.id === id)?.completed)}
+          categories={categories}
+          projects={projects}
+          onSelectAll={selectAllTodos}
+          onExit={exitSelection}
+          onSetCompleted={(completed) => runBulkAction(
+            `${countLabel} marked as ${completed ? "completed" : "active"}`,
+            ids => bulkToggle(ids, completed)
+          )}
+          onDelete={bulkDelete}
+          onSetPriority={(priority: TodoPriority) => runBulkAction(
+            `Priority of ${countLabel} set to ${priority}`,
+            ids => bulkUpdate(ids, { priority }),
+            true
+          )}
+          onSetCategory={(category) => runBulkAction(
+            `Category of ${countLabel} set to ${category}`,
+            ids => bulkUpdate(ids, { category }),
+            true
+          )}
+          onSetDueDate={(dueDate) => runBulkAction(
+            dueDate ? `${countLabel} due ${dueDate.toLocaleDateString()}` : `Due date cleared from ${countLabel}`,
+            ids => bulkUpdate(ids, dueFields(dueDate && { dueDate, dueAllDay: true })),
+            true
+          )}
+          onMove={(projectId) => runBulkAction(
+            `${countLabel} moved to ${projects.find(project => project.id === projectId)?.name ?? "list"}`,
+            ids => moveToProject(ids, projectId)
+          )}
+        />
+      ) : (
+        <div className="flex justify-end px-2 mb-2">
+          <button
+            type="button"
+            onClick={() => setIsSelecting(true)}
+            className="px-3 py-1 text-xs text-purple-200 bg-white/10 rounded-lg touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+            title="Select tasks (Ctrl+A selects all; Ctrl+click, Shift+click or long-press also work)"
+          >
+            Select
+          </button>
+        </div>
+      )}
       
       <div
         ref={(node) => {
@@ -271,34 +511,47 @@ export function TodoList({ todos, setTodos, onAddTask, onRefresh, isLoading = fa
         tabIndex={0}
       >
         {todos.map((todo, index) => (
-          <TodoItem
-            key={todo.id}
-            todo={todo}
-            index={index}
-            totalTodos={todos.length}
-            focusedIndex={focusedIndex}
-            setFocusedIndex={setFocusedIndex}
-            toggleTodo={toggleTodo}
-            deleteTodo={deleteTodo}
-            startEditing={startEditing}
-            saveEdit={saveEdit}
-            cancelEdit={cancelEdit}
-            editingId={editingId}
-            editingText={editingText}
-            setEditingText={setEditingText}
-            draggedItem={draggedItem}
-            dragOverItem={dragOverItem}
-            handleDragStart={handleDragStart}
-            handleDragOver={handleDragOver}
-            handleDragEnter={handleDragEnter}
-            handleDragLeave={handleDragLeave}
-            handleDrop={handleDrop}
-            handleDragEnd={handleDragEnd}
-            getPriorityColor={getPriorityColor}
-            formatDate={formatDate}
-          />
+          <Fragment key={todo.id}>
+            {sectionHeadings?.[todo.id] && (
+              <h3 className={`text-responsive-sm font-semibold text-purple-200 px-1 ${index > 0 ? "pt-3" : ""}`}>
+                {sectionHeadings[todo.id]}
+              </h3>
+            )}
+            <TodoItem
+              todo={todo}
+              index={index}
+              totalTodos={todos.length}
+              focusedIndex={focusedIndex}
+              setFocusedIndex={setFocusedIndex}
+              toggleTodo={toggleTodo}
+              deleteTodo={deleteTodo}
+              startEditing={startEditing}
+              draggedItem={draggedItem}
+              dragOverItem={dragOverItem}
+              handleDragStart={handleDragStart}
+              handleDragOver={handleDragOver}
+              handleDragEnter={handleDragEnter}
+              handleDragLeave={handleDragLeave}
+              handleDrop={handleDrop}
+              handleDragEnd={handleDragEnd}
+              getPriorityColor={getPriorityColor}
+              formatDate={formatDate}
+              openDetails={setDetailId}
+              blockers={todo.completed ? [] : getOpenBlockers(todo, allTodos)}
+              highlightTerms={highlightTerms}
+              canReorder={canReorder && !isSelecting}
+              isSelecting={isSelecting}
+              isSelected={isSelected(todo.id)}
+              onSelect={selectTodo}
+            />
+          </Fragment>
         ))}
       </div>
+
+      {trashControls}
+
+      <TodoDetail todoId={detailId} onClose={() => setDetailId(null)} />
+      <TodoEditPanel todoId={editingId} categories={categories} onClose={() => setEditingId(null)} />
     </div>
   );
 }
@@ -313,11 +566,6 @@ interface TodoItemProps {
   toggleTodo: (id: string) => void;
   deleteTodo: (id: string) => void;
   startEditing: (todo: Todo) => void;
-  saveEdit: (id: string) => void;
-  cancelEdit: () => void;
-  editingId: string | null;
-  editingText: string;
-  setEditingText: (text: string) => void;
   draggedItem: string | null;
   dragOverItem: string | null;
   handleDragStart: (e: React.DragEvent, todoId: string) => void;
@@ -328,6 +576,14 @@ interface TodoItemProps {
   handleDragEnd: () => void;
   getPriorityColor: (priority: string) => string;
   formatDate: (date: Date) => string;
+  openDetails: (id: string) => void;
+  // Open tasks this one is waiting on
+  blockers: Todo[];
+  highlightTerms: string[];
+  canReorder: boolean;
+  isSelecting: boolean;
+  isSelected: boolean;
+  onSelect: (id: string, extend: boolean) => void;
 }
 
 function TodoItem({
@@ -339,11 +595,6 @@ function TodoItem({
   toggleTodo,
   deleteTodo,
   startEditing,
-  saveEdit,
-  cancelEdit,
-  editingId,
-  editingText,
-  setEditingText,
   draggedItem,
   dragOverItem,
   handleDragStart,
@@ -353,16 +604,51 @@ function TodoItem({
   handleDrop,
   handleDragEnd,
   getPriorityColor,
-  formatDate
+  formatDate,
+  openDetails,
+  blockers,
+  highlightTerms,
+  canReorder,
+  isSelecting,
+  isSelected,
+  onSelect
 }: TodoItemProps) {
   // Swipe gesture for each todo item
   const { elementRef, isSwiping, swipeDirection, swipeProgress, translateX } = useSwipeGesture({
-    onSwipeLeft: () => deleteTodo(todo.id),
-    onSwipeRight: () => toggleTodo(todo.id),
+    onSwipeLeft: isSelecting ? undefined : () => deleteTodo(todo.id),
+    onSwipeRight: isSelecting ? undefined : () => toggleTodo(todo.id),
     threshold: 80,
     hapticFeedback: true
   });
 
+  // Long-pressing starts selecting; the click that ends the press is swallowed
+  const suppressClickRef = useRef(false);
+  const longPress = useLongPress(() => {
+    suppressClickRef.current = true;
+    onSelect(todo.id, false);
+  });
+
+  // While selecting, a click anywhere on the task selects it instead of reaching its controls
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      e.preventDefault();
+      e.stopPropagation();
+      return;
+    }
+    if (isSelecting || e.ctrlKey || e.metaKey) {
+      e.preventDefault();
+      e.stopPropagation();
+      onSelect(todo.id, isSelecting && e.shiftKey);
+    }
+  };
+
+  const nextReminder = getNextReminderTime([todo]);
+  const isBlocked = blockers.length > 0;
+  // Matches outside the title are shown as an excerpt of the notes
+  const titleMatches = highlightMatches(todo.text, highlightTerms).some(segment => segment.match);
+  const notesSnippet = highlightTerms.length > 0 && !titleMatches ? getMatchSnippet(todo.notes, highlightTerms) : null;
+
   return (
     <div
       key={todo.id}
@@ -371,31 +657,36 @@ function TodoItem({
           (elementRef as React.RefObject<HTMLDivElement>).current = node as HTMLDivElement;
         }
       }}
-              draggable
+              draggable={canReorder}
               onDragStart={(e) => handleDragStart(e, todo.id)}
               onDragOver={handleDragOver}
               onDragEnter={() => handleDragEnter(todo.id)}
               onDragLeave={handleDragLeave}
               onDrop={(e) => handleDrop(e, todo.id)}
               onDragEnd={handleDragEnd}
+              onClickCapture={handleClickCapture}
+              {...longPress}
               data-todo-index={index}
               className={`
                 glass-desktop rounded-xl border border-white/20 p-3 sm:p-4
                 transition-all duration-300 hover:bg-white/20 hover:scale-[1.02]
                 ${getPriorityColor(todo.priority)}
                 ${todo.completed ? "opacity-75" : ""}
+                ${isBlocked ? "border-dashed border-orange-400/50" : ""}
                 ${draggedItem === todo.id ? "opacity-50 scale-95" : ""}
                 ${dragOverItem === todo.id ? "border-purple-400 scale-[1.02]" : ""}
                 animate-fade-in relative overflow-hidden cursor-move
                 ${isSwiping ? "cursor-grabbing" : "cursor-grab"}
                 ${focusedIndex === index ? "ring-2 ring-purple-400 ring-offset-2 ring-offset-slate-900" : ""}
+                ${isSelected ? "ring-2 ring-blue-400 bg-blue-500/20" : ""}
+                ${isSelecting ? "select-none" : ""}
               `}
               style={{
                 animationDelay: `${index * 100}ms`,
                 transform: isSwiping ? `translateX(${translateX}px)` : undefined
               }}
               role="listitem"
-              aria-label={`Task: ${todo.text}, ${todo.completed ? 'completed' : 'active'}, priority: ${todo.priority}`}
+              aria-label={`Task: ${todo.text}, ${todo.completed ? 'completed' : isBlocked ? 'blocked' : 'active'}, priority: ${todo.priority}${isSelected ? ', selected' : ''}`}
               aria-setsize={totalTodos}
               aria-posinset={index + 1}
               tabIndex={focusedIndex === index ? 0 : -1}
@@ -411,114 +702,166 @@ function TodoItem({
             </div>
             <div className="flex items-start gap-3">
               {/* Checkbox */}
-              <button
-                onClick={() => toggleTodo(todo.id)}
-                className={`
-                  w-6 h-6 sm:w-5 sm:h-5 rounded-full border-2 flex items-center justify-center touch-target micro-interaction focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized
-                  ${todo.completed
-                    ? "bg-green-500 border-green-500 success-enhanced"
-                    : "border-purple-400 hover:border-purple-300"
-                  }
-                `}
-                aria-label={`${todo.completed ? 'Mark as active' : 'Mark as complete'}: ${todo.text}`}
-                aria-pressed={todo.completed}
-                aria-describedby={`todo-text-${todo.id}`}
-              >
-                {todo.completed && (
-                  <svg className="w-3 h-3 sm:w-3 sm:h-3 text-white" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
-                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                  </svg>
-                )}
-              </button>
+              {isSelecting ? (
+                <button
+                  type="button"
+                  role="checkbox"
+                  aria-checked={isSelected}
+                  className={`w-6 h-6 sm:w-5 sm:h-5 rounded border-2 flex items-center justify-center touch-target focus-enhanced keyboard-enhanced accessibility-enhanced ${
+                    isSelected ? "bg-blue-500 border-blue-500" : "border-blue-300"
+                  }`}
+                  aria-label={`Select: ${todo.text}`}
+                >
+                  {isSelected && (
+                    <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
+                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                    </svg>
+                  )}
+                </button>
+              ) : (
+                <button
+                  onClick={() => toggleTodo(todo.id)}
+                  className={`
+                    w-6 h-6 sm:w-5 sm:h-5 rounded-full border-2 flex items-center justify-center touch-target micro-interaction focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized
+                    ${todo.completed
+                      ? "bg-green-500 border-green-500 success-enhanced"
+                      : "border-purple-400 hover:border-purple-300"
+                    }
+                  `}
+                  aria-label={`${todo.completed ? 'Mark as active' : 'Mark as complete'}: ${todo.text}`}
+                  aria-pressed={todo.completed}
+                  aria-describedby={`todo-text-${todo.id}`}
+                >
+                  {todo.completed && (
+                    <svg className="w-3 h-3 sm:w-3 sm:h-3 text-white" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
+                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                    </svg>
+                  )}
+                </button>
+              )}
 
               {/* Content */}
               <div className="flex-1 min-w-0">
-                {editingId === todo.id ? (
-                  <div className="flex flex-col sm:flex-row gap-2">
-                    <input
-                      type="text"
-                      value={editingText}
-                      onChange={(e) => setEditingText(e.target.value)}
-                      className="flex-1 px-3 py-2 text-responsive-sm bg-white/20 border border-white/30 rounded-lg text-white min-h-[44px] touch-target input-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized"
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter") saveEdit(todo.id);
-                        if (e.key === "Escape") cancelEdit();
-                      }}
-                      autoFocus
-                      aria-label="Edit task description"
-                      aria-describedby={`edit-help-${todo.id}`}
-                    />
-                    <div className="flex gap-2">
-                      <button
-                        onClick={() => saveEdit(todo.id)}
-                        className="px-3 py-2 bg-green-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced micro-interaction"
-                        aria-label="Save task changes"
-                      >
-                        Save
-                      </button>
-                      <button
-                        onClick={cancelEdit}
-                        className="px-3 py-2 bg-gray-600 text-white rounded-lg text-responsive-sm min-h-[44px] touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced micro-interaction"
-                        aria-label="Cancel editing"
+                <div
+                  className={`text-white cursor-pointer ${todo.completed ? "line-through opacity-75" : ""} link-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced`}
+                  onClick={() => startEditing(todo)}
+                  id={`todo-text-${todo.id}`}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={`Edit task: ${todo.text}`}
+                  onKeyDown={(e) => {
+                    if (keyboardNavigation.isActivationKey(e.key)) {
+                      e.preventDefault();
+                      startEditing(todo);
+                    }
+                  }}
+                >
+                  <p className="font-medium text-responsive-base">
+                    <HighlightedText text={todo.text} highlightTerms={highlightTerms} />
+                  </p>
+                  {notesSnippet && (
+                    <p className="mt-1 text-responsive-xs text-purple-200 italic">
+                      <HighlightedText text={notesSnippet} highlightTerms={highlightTerms} />
+                    </p>
+                  )}
+
+                  {/* Metadata */}
+                  <div className="flex flex-wrap gap-2 sm:gap-4 mt-2 text-responsive-xs text-purple-200" aria-label="Task metadata">
+                    {todo.category && (
+                      <span className="px-2 py-1 bg-purple-600/30 rounded-full" aria-label={`Category: ${todo.category}`}>
+                        {todo.category}
+                      </span>
+                    )}
+
+                    {todo.tags?.map(tag => (
+                      <span
+                        key={tag}
+                        className="px-2 py-1 bg-blue-600/30 text-blue-200 rounded-full"
+                        aria-label={`Tag: ${tag}`}
                       >
-                        Cancel
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  <div
-                    className={`text-white cursor-pointer ${todo.completed ? "line-through opacity-75" : ""} link-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced`}
-                    onClick={() => startEditing(todo)}
-                    id={`todo-text-${todo.id}`}
-                    role="button"
-                    tabIndex={0}
-                    aria-label={`Edit task: ${todo.text}`}
-                    onKeyDown={(e) => {
-                      if (keyboardNavigation.isActivationKey(e.key)) {
-                        e.preventDefault();
-                        startEditing(todo);
-                      }
-                    }}
-                  >
-                    <p className="font-medium text-responsive-base">{todo.text}</p>
+                        #{tag}
+                      </span>
+                    ))}
+
+                    <span
+                      className={`
+                        px-2 py-1 rounded-full font-medium
+                        ${todo.priority === "high" ? "bg-red-600/30 text-red-300" :
+                          todo.priority === "medium" ? "bg-yellow-600/30 text-yellow-300" :
+                          "bg-green-600/30 text-green-300"}
+                      `}
+                      aria-label={`Priority: ${todo.priority}`}
+                    >
+                      {todo.priority} priority
+                    </span>
+
+                    {todo.dueDate && (
+                      <span className="text-purple-300" aria-label={`Due date: ${describeDueDate(todo)}`}>
+                        Due: {describeDueDate(todo)}
+                      </span>
+                    )}
 
-                    {/* Metadata */}
-                    <div className="flex flex-wrap gap-2 sm:gap-4 mt-2 text-responsive-xs text-purple-200" aria-label="Task metadata">
-                      {todo.category && (
-                        <span className="px-2 py-1 bg-purple-600/30 rounded-full" aria-label={`Category: ${todo.category}`}>
-                          {todo.category}
-                        </span>
-                      )}
+                    {todo.notes && (
+                      <span className="text-purple-300" aria-label="Has notes">
+                        <span aria-hidden="true">📝</span> Notes
+                      </span>
+                    )}
 
+                    {isBlocked && (
                       <span
-                        className={`
-                          px-2 py-1 rounded-full font-medium
-                          ${todo.priority === "high" ? "bg-red-600/30 text-red-300" :
-                            todo.priority === "medium" ? "bg-yellow-600/30 text-yellow-300" :
-                            "bg-green-600/30 text-green-300"}
-                        `}
-                        aria-label={`Priority: ${todo.priority}`}
+                        className="px-2 py-1 bg-orange-600/30 text-orange-200 rounded-full"
+                        title={`Blocked by: ${blockers.map(b => b.text).join(", ")}`}
+                        aria-label={`Blocked by: ${blockers.map(b => b.text).join(", ")}`}
                       >
-                        {todo.priority} priority
+                        <span aria-hidden="true">🔒 </span>
+                        Blocked by {blockers.length}
                       </span>
+                    )}
 
-                      {todo.dueDate && (
-                        <span className="text-purple-300" aria-label={`Due date: ${formatDate(todo.dueDate)}`}>
-                          Due: {formatDate(todo.dueDate)}
-                        </span>
-                      )}
+                    {nextReminder && (
+                      <span className="text-yellow-200" aria-label={`Next reminder: ${formatDate(nextReminder)}`}>
+                        <span aria-hidden="true">🔔</span> {formatDate(nextReminder)}
+                      </span>
+                    )}
 
-                      <span className="text-purple-400" aria-label={`Created: ${formatDate(todo.createdAt)}`}>
-                        Created: {formatDate(todo.createdAt)}
+                    {todo.recurrence && (
+                      <span
+                        className="px-2 py-1 bg-blue-600/30 text-blue-200 rounded-full"
+                        title={formatRRule(todo.recurrence)}
+                        aria-label={`Repeats: ${describeRecurrence(todo.recurrence)}`}
+                      >
+                        <span aria-hidden="true">↻ </span>
+                        {describeRecurrence(todo.recurrence)}
+                        {todo.recurrence.count !== undefined && ` (${todo.occurrence ?? 1} of ${todo.recurrence.count})`}
                       </span>
-                    </div>
+                    )}
+
+                    <span className="text-purple-400" aria-label={`Created: ${formatDate(todo.createdAt)}`}>
+                      Created: {formatDate(todo.createdAt)}
+                    </span>
                   </div>
-                )}
+                </div>
+
+                {/* Subtasks */}
+                <SubtaskProgressIndicator subtasks={todo.subtasks} />
+                <TimeTracker todo={todo} />
+                <SubtaskList todo={todo} />
               </div>
 
               {/* Actions */}
-              {editingId !== todo.id && (
+              {!isSelecting && (
                 <div className="flex gap-2" role="group" aria-label="Task actions">
+                  <button
+                    onClick={() => openDetails(todo.id)}
+                    className="p-3 sm:p-2 text-purple-300 rounded-lg touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced micro-interaction"
+                    aria-label={`Open details${todo.notes ? " and notes" : ""}: ${todo.text}`}
+                    title={todo.notes ? "Details and notes" : "Details"}
+                  >
+                    <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                  </button>
+
                   <button
                     onClick={() => startEditing(todo)}
                     className="p-3 sm:p-2 text-purple-300 rounded-lg touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced micro-interaction"
@@ -545,6 +888,20 @@ function TodoItem({
   );
 }
 
+function HighlightedText({ text, highlightTerms }: { text: string; highlightTerms: string[] }) {
+  return (
+    <>
+      {highlightMatches(text, highlightTerms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-400/40 text-white rounded px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
 // Fallback component for TodoList errors
 interface TodoListFallbackProps {
   error: AppError;
@@ -554,6 +911,7 @@ interface TodoListFallbackProps {
 
 function TodoListFallback({ error, errorInfo, retry }: TodoListFallbackProps) {
   const { success, error: showError } = useToastNotification();
+  const { hydrate } = useTodoStore();
   
   return (
     <div className="glass-desktop rounded-2xl p-6 text-center">
@@ -570,17 +928,15 @@ function TodoListFallback({ error, errorInfo, retry }: TodoListFallbackProps) {
             Retry Loading Tasks
           </button>
           <button
-            onClick={() => {
-              // Try to recover from localStorage
+            onClick={async () => {
+              // Try to recover from storage
               try {
-                const saved = localStorage.getItem("novatask-todos");
+                const storage = await getStorageAdapter();
+                const saved = await storage.getItem(TODOS_STORAGE_KEY);
                 if (saved) {
-                  const parsedTodos = JSON.parse(saved).map((todo: Todo) => ({
-                    ...todo,
-                    createdAt: new Date(todo.createdAt),
-                    dueDate: todo.dueDate ? new Date(todo.dueDate) : undefined,
-                  }));
-                  // This would need to be handled by the parent component
+                  const { todos: recoveredTodos, projects, trashRetentionDays, quarantined } = parseStoredTodos(saved);
+                  await quarantineTodos(storage, quarantined);
+                  hydrate(recoveredTodos, { projects, trashRetentionDays });
                   success("Tasks recovered from local storage");
                 }
               } catch (e) {
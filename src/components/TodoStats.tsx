@@ -1,27 +1,41 @@
 "use client";
 
-import { Todo } from "@/app/page";
 import { ariaUtils } from "@/utils/accessibility";
 import { ErrorBoundary, withErrorBoundary } from "@/components/ErrorBoundary";
 import { useErrorHandler } from "@/contexts/ErrorContext";
 import { useToastNotification } from "@/components/ToastNotification";
 import { AppError } from "@/utils/error-handling";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { getSubtaskProgress } from "@/utils/subtasks";
+import { countTodosByTag } from "@/utils/tags";
+import { formatDuration, getRunningEntry, summarizeTimeByCategory } from "@/utils/time-tracking";
+import { useNow } from "@/hooks/useNow";
+import { belongsToProject, getProjectStats } from "@/utils/projects";
+import { isOverdue } from "@/utils/due-dates";
 
-interface TodoStatsProps {
-  todos: Todo[];
-}
-
-export function TodoStats({ todos }: TodoStatsProps) {
+export function TodoStats() {
   const { handleError } = useErrorHandler();
+  const { todos: allTodos, projects, activeProjectId } = useTodoStore();
+  // Totals describe the list currently shown
+  const todos = allTodos.filter((todo) => belongsToProject(todo, activeProjectId));
+  // Refresh tracked totals while any timer is running
+  const now = useNow(todos.some((todo) => getRunningEntry(todo.timeEntries)), 30000);
   try {
     const total = todos.length;
     const completed = todos.filter((todo) => todo.completed).length;
     const active = total - completed;
-    const overdue = todos.filter((todo) =>
-      todo.dueDate && new Date(todo.dueDate) < new Date() && !todo.completed
-    ).length;
+    // All-day tasks only become overdue once their day is over
+    const overdue = todos.filter((todo) => isOverdue(todo)).length;
 
     const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
+    const subtasks = getSubtaskProgress(todos.flatMap((todo) => todo.subtasks || []));
+    // Most used tags first
+    const tagCounts = Object.entries(countTodosByTag(todos))
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .slice(0, 5);
+    const timeByCategory = Object.entries(summarizeTimeByCategory(todos, now))
+      .sort(([, a], [, b]) => b.actualMs - a.actualMs);
+    const projectStats = projects.map((project) => ({ project, ...getProjectStats(allTodos, project.id) }));
   
   // Generate unique IDs for accessibility
   const statsId = ariaUtils.generateId('todo-stats');
@@ -75,6 +89,89 @@ export function TodoStats({ todos }: TodoStatsProps) {
         </div>
       )}
 
+      {tagCounts.length > 0 && (
+        <div
+          className="min-w-fit card-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized p-2 rounded-lg"
+          aria-label="Tasks per tag"
+        >
+          <ul className="flex flex-wrap gap-1 max-w-[220px]">
+            {tagCounts.map(([tag, count]) => (
+              <li
+                key={tag}
+                className="px-2 py-0.5 bg-blue-600/30 text-blue-200 rounded-full text-responsive-xs"
+                aria-label={`${count} task${count === 1 ? "" : "s"} tagged ${tag}`}
+              >
+                #{tag} <span className="font-semibold text-white">{count}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="text-responsive-xs text-purple-200 text-center mt-1">Tags</div>
+        </div>
+      )}
+
+      {timeByCategory.length > 0 && (
+        <div
+          className="min-w-fit card-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized p-2 rounded-lg"
+          aria-label="Time tracked versus estimated per category"
+        >
+          <ul className="space-y-0.5 text-responsive-xs">
+            {timeByCategory.slice(0, 4).map(([category, { actualMs, estimateMs }]) => (
+              <li
+                key={category}
+                className="flex justify-between gap-3"
+                aria-label={`${category}: ${formatDuration(actualMs)} tracked${estimateMs ? ` of ${formatDuration(estimateMs)} estimated` : ""}`}
+              >
+                <span className="text-purple-200">{category}</span>
+                <span className={`font-mono ${estimateMs && actualMs > estimateMs ? "text-red-300" : "text-white"}`}>
+                  {formatDuration(actualMs)}
+                  {estimateMs > 0 && <span className="text-purple-400"> / {formatDuration(estimateMs)}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="text-responsive-xs text-purple-200 text-center mt-1">Time</div>
+        </div>
+      )}
+
+      {projects.length > 1 && (
+        <div
+          className="min-w-fit card-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized p-2 rounded-lg"
+          aria-label="Progress per list"
+        >
+          <ul className="space-y-1 text-responsive-xs">
+            {projectStats.map(({ project, total: listTotal, completed: listCompleted, completionRate: listRate }) => (
+              <li
+                key={project.id}
+                className="flex items-center gap-2"
+                aria-label={`${project.name}: ${listCompleted} of ${listTotal} done`}
+              >
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: project.color }} aria-hidden="true" />
+                <span className={`truncate max-w-[100px] ${project.id === activeProjectId ? "text-white font-semibold" : "text-purple-200"}`}>
+                  {project.name}
+                </span>
+                <span className="w-12 h-1.5 bg-white/10 rounded-full overflow-hidden" aria-hidden="true">
+                  <span className="block h-full rounded-full" style={{ width: `${listRate}%`, backgroundColor: project.color }} />
+                </span>
+                <span className="font-mono text-white">{listCompleted}/{listTotal}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="text-responsive-xs text-purple-200 text-center mt-1">Lists</div>
+        </div>
+      )}
+
+      {subtasks.total > 0 && (
+        <div className="min-w-fit text-center card-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized p-2 rounded-lg">
+          <div
+            className="text-responsive-lg font-bold text-blue-300"
+            aria-label={`Subtasks completed: ${subtasks.completed} of ${subtasks.total}`}
+          >
+            {subtasks.completed}/{subtasks.total}
+          </div>
+          <div className="text-responsive-xs text-purple-200">Subtasks</div>
+        </div>
+      )}
+
       <div className="min-w-fit text-center card-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced mobile-enhanced desktop-enhanced performance-optimized p-2 rounded-lg">
         <div
           className="text-responsive-base font-semibold text-purple-300"
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { SlidePanel } from "@/components/SlidePanel";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { useTodoStore } from "@/contexts/TodoContext";
+import { TRASH_RETENTION_OPTIONS, daysUntilPurge, describeRetention } from "@/utils/trash";
+
+interface TrashBinProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const buttonClassName = "px-2 py-1 text-xs rounded touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced micro-interaction";
+
+// Deleted tasks, with restore, permanent delete and the retention setting
+export function TrashBin({ isOpen, onClose }: TrashBinProps) {
+  const { trashedTodos, trashRetentionDays, restoreTodos, deleteTodo, bulkDelete, setTrashRetention } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }).format(new Date(date));
+
+  const emptyTrash = () => {
+    if (!confirmEmpty) {
+      setConfirmEmpty(true);
+      return;
+    }
+    bulkDelete(trashedTodos.map(todo => todo.id));
+    setConfirmEmpty(false);
+    announce(`${trashedTodos.length} task${trashedTodos.length === 1 ? '' : 's'} permanently deleted`, 'polite');
+  };
+
+  return (
+    <SlidePanel isOpen={isOpen} onClose={onClose} direction="right" size="lg">
+      <div className="p-4 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="slide-panel-title" className="text-xl font-semibold text-white">
+            Trash
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex-shrink-0 rounded-lg glass-desktop flex items-center justify-center touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced"
+            aria-label="Close trash"
+            title="Close"
+          >
+            <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 text-responsive-sm text-purple-200">
+          <label htmlFor="trash-retention">Delete permanently after</label>
+          <select
+            id="trash-retention"
+            value={trashRetentionDays}
+            onChange={(e) => {
+              setTrashRetention(Number(e.target.value));
+              announce(`Trash retention set to ${describeRetention(Number(e.target.value))}`, 'polite');
+            }}
+            className="px-2 py-1 bg-white/20 border border-white/30 rounded text-white focus-enhanced keyboard-enhanced"
+          >
+            {TRASH_RETENTION_OPTIONS.map(days => (
+              <option key={days} value={days} className="bg-gray-800">
+                {describeRetention(days)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {trashedTodos.length === 0 ? (
+          <p className="text-purple-300 italic text-responsive-sm">The trash is empty</p>
+        ) : (
+          <>
+            <ul className="space-y-2" aria-label="Deleted tasks">
+              {trashedTodos.map(todo => {
+                const daysLeft = daysUntilPurge(todo, trashRetentionDays);
+                return (
+                  <li key={todo.id} className="flex items-center justify-between gap-3 p-3 bg-white/5 rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-white truncate">{todo.text}</p>
+                      <p className="text-responsive-xs text-purple-300">
+                        Deleted {formatDate(todo.deletedAt as Date)}
+                        {daysLeft !== null && ` · removed in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          restoreTodos([todo.id]);
+                          announce(`Task "${todo.text}" restored`, 'polite');
+                        }}
+                        className={`${buttonClassName} bg-green-600/40 text-green-100`}
+                        aria-label={`Restore ${todo.text}`}
+                      >
+                        Restore
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          deleteTodo(todo.id);
+                          announce(`Task "${todo.text}" permanently deleted`, 'polite');
+                        }}
+                        className={`${buttonClassName} bg-red-600/40 text-red-100`}
+                        aria-label={`Delete ${todo.text} permanently`}
+                      >
+                        Delete forever
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  restoreTodos(trashedTodos.map(todo => todo.id));
+                  announce('All deleted tasks restored', 'polite');
+                }}
+                className="px-3 py-2 bg-purple-600/50 text-white rounded-lg text-responsive-sm min-h-[44px] button-hover-enhanced focus-enhanced keyboard-enhanced"
+              >
+                Restore all
+              </button>
+              <button
+                type="button"
+                onClick={emptyTrash}
+                onBlur={() => setConfirmEmpty(false)}
+                className="px-3 py-2 bg-red-600/60 text-white rounded-lg text-responsive-sm min-h-[44px] button-hover-enhanced focus-enhanced keyboard-enhanced"
+              >
+                {confirmEmpty ? "Click again to empty trash" : "Empty trash"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </SlidePanel>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useKeyboardShortcuts, KeyboardShortcut } from "@/hooks/useKeyboardShortcuts";
+import { useLiveRegion } from "@/hooks/useAccessibility";
+import { useToastNotification } from "@/components/ToastNotification";
+import { useTodoStore } from "@/contexts/TodoContext";
+
+const buttonClassName = "w-10 h-10 rounded-lg glass-desktop flex items-center justify-center text-white disabled:opacity-40 disabled:cursor-not-allowed touch-target button-hover-enhanced focus-enhanced keyboard-enhanced accessibility-enhanced";
+
+// Header buttons and Ctrl+Z / Ctrl+Shift+Z for the app-wide todo history
+export function UndoRedoControls() {
+  const { undo, redo, undoLabel, redoLabel } = useTodoStore();
+  const { announce } = useLiveRegion();
+  const toast = useToastNotification();
+  const toastRef = useRef(toast);
+
+  useEffect(() => {
+    toastRef.current = toast;
+  });
+
+  const handleUndo = useCallback(() => {
+    if (!undoLabel) return;
+    undo();
+    toastRef.current.withActions(`Undid ${undoLabel}`, [{ label: "Redo", action: redo, primary: true }]);
+    announce(`Undid ${undoLabel}`, 'polite');
+  }, [undo, redo, undoLabel, announce]);
+
+  const handleRedo = useCallback(() => {
+    if (!redoLabel) return;
+    redo();
+    toastRef.current.withActions(`Redid ${redoLabel}`, [{ label: "Undo", action: undo, primary: true }]);
+    announce(`Redid ${redoLabel}`, 'polite');
+  }, [undo, redo, redoLabel, announce]);
+
+  // Text fields keep their own undo while focused
+  const shortcuts = useMemo<KeyboardShortcut[]>(() => [
+    { key: "z", ctrlKey: true, ignoreInEditable: true, action: handleUndo, description: "Undo" },
+    { key: "z", metaKey: true, ignoreInEditable: true, action: handleUndo, description: "Undo" },
+    { key: "z", ctrlKey: true, shiftKey: true, ignoreInEditable: true, action: handleRedo, description: "Redo" },
+    { key: "z", metaKey: true, shiftKey: true, ignoreInEditable: true, action: handleRedo, description: "Redo" },
+    { key: "y", ctrlKey: true, ignoreInEditable: true, action: handleRedo, description: "Redo" },
+  ], [handleUndo, handleRedo]);
+
+  useKeyboardShortcuts({ shortcuts });
+
+  return (
+    <div className="flex gap-2" role="group" aria-label="History">
+      <button
+        type="button"
+        onClick={handleUndo}
+        disabled={!undoLabel}
+        className={buttonClassName}
+        aria-label={undoLabel ? `Undo ${undoLabel}` : "Nothing to undo"}
+        title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14L4 9m0 0l5-5M4 9h11a5 5 0 010 10h-3" />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={handleRedo}
+        disabled={!redoLabel}
+        className={buttonClassName}
+        aria-label={redoLabel ? `Redo ${redoLabel}` : "Nothing to redo"}
+        title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 14l5-5m0 0l-5-5m5 5H9a5 5 0 000 10h3" />
+        </svg>
+      </button>
+    </div>
+  );
+}
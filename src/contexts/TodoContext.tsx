@@ -0,0 +1,297 @@
+"use client";
+
+import { useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { createOptimizedContext } from '@/utils/state-optimization';
+import {
+  Todo,
+  TodoAction,
+  TodoChanges,
+  TodoSettings,
+  TodoState,
+  initialTodoState,
+  isLatestAction,
+  todoActions,
+  todoReducer,
+  todoSelectors,
+} from '@/utils/todo-store';
+import { Subtask } from '@/utils/subtasks';
+import { TimeEntry } from '@/utils/time-tracking';
+import { Reminder } from '@/utils/reminders';
+import { Project } from '@/utils/projects';
+import {
+  TODOS_STORAGE_KEY,
+  TODO_HISTORY_STORAGE_KEY,
+  downloadQuarantine,
+  loadStoredTodos,
+  parseStoredHistory,
+  serializeTodoHistory,
+  serializeTodos,
+} from '@/utils/todo-storage';
+import { IndexedDBAdapter, getStorageAdapter, getStorageFallbackError, setStorageBackend } from '@/utils/storage-adapter';
+import { useToastNotification } from '@/components/ToastNotification';
+
+// How often deleted todos past their retention period are purged while the app is open
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const TodoStore = createOptimizedContext<TodoState, TodoAction>(initialTodoState, {
+  reducer: todoReducer,
+});
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Loads and saves the todo list so that components only ever talk to the store
+function TodoPersistence() {
+  const { state, dispatch } = useContext(TodoStore.Context);
+  // Nothing is saved before the stored todos have been read, or while unreadable
+  // records that could not be backed up would be overwritten
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [isPersistenceBlocked, setIsPersistenceBlocked] = useState(false);
+
+  const toast = useToastNotification();
+  const toastRef = useRef(toast);
+
+  useEffect(() => {
+    toastRef.current = toast;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const storage = await getStorageAdapter();
+      const fallbackError = getStorageFallbackError();
+      if (fallbackError && !cancelled) {
+        toastRef.current.warning(`IndexedDB can't be used, so tasks are kept in browser storage: ${fallbackError.message}`, {
+          category: 'system',
+        });
+      }
+
+      const stored = await loadStoredTodos(storage);
+      if (cancelled) return;
+
+      if (stored && stored.quarantined.length > 0) {
+        const backupNote = stored.backupError
+          ? ` The backup could not be saved: ${describeError(stored.backupError)}. Changes will not be saved until it can be.`
+          : ' A backup was kept.';
+        const message = stored.error
+          ? `Your saved tasks could not be upgraded: ${stored.error.message}.${backupNote}`
+          : `${stored.quarantined.length} saved task${stored.quarantined.length > 1 ? 's were' : ' was'} unreadable.${backupNote}`;
+
+        toastRef.current.error(message, {
+          persistent: true,
+          category: 'parse',
+          actions: [
+            ...(stored.backupError ? [] : [{ label: 'Download backup', action: () => downloadQuarantine(storage), primary: true }]),
+            { label: 'Dismiss', action: () => {} },
+          ],
+        });
+      }
+
+      if (stored?.backupError) {
+        setIsPersistenceBlocked(true);
+        return;
+      }
+      if (stored) {
+        // Undo history only makes sense on top of the todos it was recorded with
+        const savedHistory = stored.error ? null : await storage.getItem(TODO_HISTORY_STORAGE_KEY);
+        const history = savedHistory ? parseStoredHistory(savedHistory) : null;
+        if (cancelled) return;
+
+        dispatch(todoActions.hydrate(
+          stored.todos,
+          { projects: stored.projects, trashRetentionDays: stored.trashRetentionDays },
+          history || undefined
+        ));
+      }
+      dispatch(todoActions.purgeExpired());
+      setIsHydrated(true);
+    };
+
+    load().catch(error => {
+      toastRef.current.error(`Failed to load tasks: ${describeError(error)}`, {
+        persistent: true,
+        category: 'system',
+      });
+    });
+    const purgeTimer = setInterval(() => dispatch(todoActions.purgeExpired()), TRASH_PURGE_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(purgeTimer);
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!isHydrated || isPersistenceBlocked) return;
+
+    const serialized = serializeTodos(state.todos, {
+      projects: state.projects,
+      trashRetentionDays: state.trashRetentionDays,
+    });
+
+    const save = async () => {
+      const storage = await getStorageAdapter();
+      try {
+        await storage.setItem(TODOS_STORAGE_KEY, serialized);
+      } catch (error) {
+        // Out of localStorage space: move large data to IndexedDB and try again
+        if (error instanceof Error && error.name === 'QuotaExceededError' && storage.backend === 'localStorage' && IndexedDBAdapter.isAvailable()) {
+          const upgraded = await setStorageBackend('indexedDB');
+          await upgraded.setItem(TODOS_STORAGE_KEY, serialized);
+          toastRef.current.info('Browser storage was full, so your tasks were moved to IndexedDB');
+          return;
+        }
+        throw error;
+      }
+    };
+
+    save().catch(error => {
+      toastRef.current.error(`Failed to save tasks: ${describeError(error)}`, {
+        category: 'quota',
+      });
+    });
+  }, [state.todos, state.projects, state.trashRetentionDays, isHydrated, isPersistenceBlocked]);
+
+  useEffect(() => {
+    if (!isHydrated || isPersistenceBlocked) return;
+
+    const serialized = serializeTodoHistory(state.history);
+    getStorageAdapter()
+      .then(storage => storage.setItem(TODO_HISTORY_STORAGE_KEY, serialized))
+      .catch(error => {
+        toastRef.current.error(`Failed to save undo history: ${describeError(error)}`, {
+          category: 'quota',
+        });
+      });
+  }, [state.history, isHydrated, isPersistenceBlocked]);
+
+  return null;
+}
+
+interface TodoProviderProps {
+  children: ReactNode;
+  initialTodos?: Todo[];
+}
+
+export function TodoProvider({ children, initialTodos }: TodoProviderProps) {
+  return (
+    <TodoStore.Provider initialState={initialTodos ? { ...initialTodoState, todos: initialTodos } : initialTodoState}>
+      <TodoPersistence />
+      {children}
+    </TodoStore.Provider>
+  );
+}
+
+// Hook exposing the todo list together with bound, typed mutations
+export function useTodoStore() {
+  const { state, dispatch } = useContext(TodoStore.Context);
+
+  // Trashed todos are hidden from everything except the trash itself
+  const todos = useMemo(() => todoSelectors.all(state), [state]);
+  const trashedTodos = useMemo(() => todoSelectors.trash(state), [state]);
+
+  const hydrate = useCallback((todos: Todo[], settings?: TodoSettings) => dispatch(todoActions.hydrate(todos, settings)), [dispatch]);
+  const addTodo = useCallback((todo: Todo) => dispatch(todoActions.add(todo)), [dispatch]);
+  const updateTodo = useCallback((id: string, changes: TodoChanges) => dispatch(todoActions.update(id, changes)), [dispatch]);
+  const toggleTodo = useCallback((id: string) => dispatch(todoActions.toggle(id)), [dispatch]);
+  const deleteTodo = useCallback((id: string) => dispatch(todoActions.remove(id)), [dispatch]);
+  const reorderTodos = useCallback((sourceId: string, targetId: string) => dispatch(todoActions.reorder(sourceId, targetId)), [dispatch]);
+  const bulkUpdate = useCallback((ids: string[], changes: TodoChanges) => dispatch(todoActions.bulkUpdate(ids, changes)), [dispatch]);
+  const bulkToggle = useCallback((ids: string[], completed: boolean) => dispatch(todoActions.bulkToggle(ids, completed)), [dispatch]);
+  const bulkDelete = useCallback((ids: string[]) => dispatch(todoActions.bulkDelete(ids)), [dispatch]);
+  const addSubtask = useCallback((todoId: string, subtask: Subtask, parentId?: string) => dispatch(todoActions.addSubtask(todoId, subtask, parentId)), [dispatch]);
+  const updateSubtask = useCallback((todoId: string, subtaskId: string, text: string) => dispatch(todoActions.updateSubtask(todoId, subtaskId, { text })), [dispatch]);
+  const toggleSubtask = useCallback((todoId: string, subtaskId: string) => dispatch(todoActions.toggleSubtask(todoId, subtaskId)), [dispatch]);
+  const deleteSubtask = useCallback((todoId: string, subtaskId: string) => dispatch(todoActions.deleteSubtask(todoId, subtaskId)), [dispatch]);
+  const startTimer = useCallback((id: string) => dispatch(todoActions.startTimer(id)), [dispatch]);
+  const pauseTimer = useCallback((id: string) => dispatch(todoActions.pauseTimer(id)), [dispatch]);
+  const stopTimer = useCallback((id: string) => dispatch(todoActions.stopTimer(id)), [dispatch]);
+  const addTimeEntry = useCallback((id: string, entry: TimeEntry) => dispatch(todoActions.addTimeEntry(id, entry)), [dispatch]);
+  const deleteTimeEntry = useCallback((id: string, entryId: string) => dispatch(todoActions.deleteTimeEntry(id, entryId)), [dispatch]);
+  const addReminder = useCallback((id: string, reminder: Reminder) => dispatch(todoActions.addReminder(id, reminder)), [dispatch]);
+  const removeReminder = useCallback((id: string, reminderId: string) => dispatch(todoActions.removeReminder(id, reminderId)), [dispatch]);
+  const fireReminder = useCallback((id: string, reminderId: string) => dispatch(todoActions.fireReminder(id, reminderId)), [dispatch]);
+  const snoozeReminder = useCallback((id: string, reminderId: string, until: Date) => dispatch(todoActions.snoozeReminder(id, reminderId, until)), [dispatch]);
+  const addDependency = useCallback((id: string, blockerId: string) => dispatch(todoActions.addDependency(id, blockerId)), [dispatch]);
+  const removeDependency = useCallback((id: string, blockerId: string) => dispatch(todoActions.removeDependency(id, blockerId)), [dispatch]);
+  const addProject = useCallback((project: Project) => dispatch(todoActions.addProject(project)), [dispatch]);
+  const updateProject = useCallback((id: string, changes: Partial<Omit<Project, 'id'>>) => dispatch(todoActions.updateProject(id, changes)), [dispatch]);
+  const deleteProject = useCallback((id: string) => dispatch(todoActions.deleteProject(id)), [dispatch]);
+  const selectProject = useCallback((id: string) => dispatch(todoActions.selectProject(id)), [dispatch]);
+  const moveToProject = useCallback((ids: string[], projectId: string) => dispatch(todoActions.moveToProject(ids, projectId)), [dispatch]);
+  const trashTodos = useCallback((ids: string[]) => dispatch(todoActions.trash(ids)), [dispatch]);
+  const restoreTodos = useCallback((ids: string[]) => dispatch(todoActions.restore(ids)), [dispatch]);
+  const setTrashRetention = useCallback((days: number) => dispatch(todoActions.setTrashRetention(days)), [dispatch]);
+  const importTodos = useCallback((todos: Todo[], projects?: Project[]) => dispatch(todoActions.importTodos(todos, projects)), [dispatch]);
+  const undo = useCallback(() => dispatch(todoActions.undo()), [dispatch]);
+  const redo = useCallback(() => dispatch(todoActions.redo()), [dispatch]);
+
+  const historyRef = useRef(state.history);
+  useEffect(() => {
+    historyRef.current = state.history;
+  });
+
+  // Undo for the action about to be dispatched, for toasts that offer to undo it later.
+  // It returns false and does nothing once a later action has been recorded on top of it.
+  const bindUndo = useCallback(() => {
+    const snapshot = { todos: state.todos, projects: state.projects };
+    return () => {
+      if (!isLatestAction(historyRef.current, snapshot)) return false;
+      dispatch(todoActions.undo(new Date(), snapshot));
+      return true;
+    };
+  }, [state.todos, state.projects, dispatch]);
+
+  return {
+    todos,
+    trashedTodos,
+    projects: state.projects,
+    activeProjectId: state.activeProjectId,
+    trashRetentionDays: state.trashRetentionDays,
+    undoLabel: todoSelectors.undoLabel(state),
+    redoLabel: todoSelectors.redoLabel(state),
+    dispatch,
+    hydrate,
+    addTodo,
+    updateTodo,
+    toggleTodo,
+    deleteTodo,
+    reorderTodos,
+    bulkUpdate,
+    bulkToggle,
+    bulkDelete,
+    addSubtask,
+    updateSubtask,
+    toggleSubtask,
+    deleteSubtask,
+    startTimer,
+    pauseTimer,
+    stopTimer,
+    addTimeEntry,
+    deleteTimeEntry,
+    addReminder,
+    removeReminder,
+    fireReminder,
+    snoozeReminder,
+    addDependency,
+    removeDependency,
+    addProject,
+    updateProject,
+    deleteProject,
+    selectProject,
+    moveToProject,
+    trashTodos,
+    restoreTodos,
+    setTrashRetention,
+    importTodos,
+    undo,
+    redo,
+    bindUndo,
+  };
+}
+
+// Hook for reading derived data from the store, e.g. useTodoSelector(todoSelectors.active)
+export function useTodoSelector<R>(selector: (state: TodoState) => R): R {
+  const { state } = useContext(TodoStore.Context);
+  return useMemo(() => selector(state), [state, selector]);
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getNextViewChange } from "@/utils/smart-views";
+
+interface DatedTodo {
+  completed: boolean;
+  dueDate?: Date;
+  dueAllDay?: boolean;
+}
+
+// Current time, refreshed at local midnight and whenever an open task falls due, so
+// date-based views stay correct while the app is left open. Timers don't run while the
+// device sleeps, so the time is also refreshed when the page becomes visible again.
+export function useDueClock(todos: DatedTodo[]): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const delay = getNextViewChange(todos, now).getTime() - Date.now();
+    // A little past the boundary so comparisons land on the new side of it
+    const timer = setTimeout(() => setNow(new Date()), Math.max(delay, 0) + 1000);
+    return () => clearTimeout(timer);
+  }, [todos, now]);
+
+  useEffect(() => {
+    const refresh = () => {
+      if (document.visibilityState === "visible") setNow(new Date());
+    };
+    document.addEventListener("visibilitychange", refresh);
+    window.addEventListener("focus", refresh);
+    return () => {
+      document.removeEventListener("visibilitychange", refresh);
+      window.removeEventListener("focus", refresh);
+    };
+  }, []);
+
+  return now;
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useLocalStorage } from "./useLocalStorage";
+import {
+  FilterPreset,
+  MAX_PRESET_NAME_LENGTH,
+  MAX_SAVED_PRESETS,
+  TodoFilter,
+  createPreset,
+  revivePresets,
+} from "@/utils/filters";
+
+const PRESETS_STORAGE_KEY = "novatask-filter-presets";
+
+const NO_PRESETS: FilterPreset[] = [];
+
+export interface FilterPresetStore {
+  // User-saved presets in display order
+  presets: FilterPreset[];
+  save: (name: string, filter: TodoFilter) => FilterPreset | null;
+  rename: (id: string, name: string) => void;
+  // Move a preset one place up (-1) or down (1)
+  move: (id: string, offset: -1 | 1) => void;
+  remove: (id: string) => void;
+  // Put a removed preset back where it was
+  restore: (preset: FilterPreset, index: number) => void;
+}
+
+// User filter presets, remembered across sessions. Names are validated by the caller.
+export function useFilterPresets(): FilterPresetStore {
+  const { value, setValue } = useLocalStorage<FilterPreset[]>(PRESETS_STORAGE_KEY, {
+    defaultValue: NO_PRESETS,
+  });
+
+  const presets = useMemo(() => revivePresets(value), [value]);
+
+  const save = useCallback((name: string, filter: TodoFilter) => {
+    if (presets.length >= MAX_SAVED_PRESETS) return null;
+    const preset = createPreset(name, filter);
+    setValue(prev => [...revivePresets(prev), preset]);
+    return preset;
+  }, [presets.length, setValue]);
+
+  const rename = useCallback((id: string, name: string) => {
+    setValue(prev => revivePresets(prev).map(preset =>
+      preset.id === id ? { ...preset, name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH) } : preset
+    ));
+  }, [setValue]);
+
+  const move = useCallback((id: string, offset: -1 | 1) => {
+    setValue(prev => {
+      const next = revivePresets(prev);
+      const from = next.findIndex(preset => preset.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= next.length) return prev;
+      const [preset] = next.splice(from, 1);
+      next.splice(to, 0, preset);
+      return next;
+    });
+  }, [setValue]);
+
+  const remove = useCallback((id: string) => {
+    setValue(prev => revivePresets(prev).filter(preset => preset.id !== id));
+  }, [setValue]);
+
+  const restore = useCallback((preset: FilterPreset, index: number) => {
+    setValue(prev => {
+      const next = revivePresets(prev).filter(existing => existing.id !== preset.id);
+      next.splice(Math.min(index, next.length), 0, preset);
+      return next;
+    });
+  }, [setValue]);
+
+  return { presets, save, rename, move, remove, restore };
+}
@@ -8,10 +8,17 @@ export interface KeyboardShortcut {
   shiftKey?: boolean;
   altKey?: boolean;
   metaKey?: boolean;
+  // Leave the key to text fields (e.g. their own Ctrl+Z) while one has focus
+  ignoreInEditable?: boolean;
   action: () => void;
   description: string;
 }
 
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
 interface KeyboardShortcutsOptions {
   shortcuts: KeyboardShortcut[];
   enabled?: boolean;
@@ -43,7 +50,8 @@ export function useKeyboardShortcuts(options: KeyboardShortcutsOptions): UseKeyb
         !!shortcut.ctrlKey === event.ctrlKey &&
         !!shortcut.shiftKey === event.shiftKey &&
         !!shortcut.altKey === event.altKey &&
-        !!shortcut.metaKey === event.metaKey
+        !!shortcut.metaKey === event.metaKey &&
+        !(shortcut.ignoreInEditable && isEditableTarget(event.target))
       );
     });
 
@@ -88,26 +96,23 @@ export const commonTodoShortcuts: KeyboardShortcut[] = [
   },
   {
     key: "/",
+    ignoreInEditable: true,
     action: () => {
-      // Focus on search/filter input
-      const filterInput = document.querySelector('select') as HTMLSelectElement;
-      if (filterInput) {
-        filterInput.focus();
-      }
+      // Focus the search box of whichever layout is showing
+      const searchInputs = Array.from(document.querySelectorAll<HTMLInputElement>('input[data-task-search]'));
+      const visibleInput = searchInputs.find(input => input.offsetParent !== null);
+      visibleInput?.focus();
     },
-    description: "Focus on filters"
+    description: "Search tasks"
   },
   {
     key: "a",
     ctrlKey: true,
+    ignoreInEditable: true,
     action: () => {
-      // Toggle all tasks completion
-      const checkboxes = document.querySelectorAll('input[type="checkbox"]');
-      checkboxes.forEach(checkbox => {
-        (checkbox as HTMLInputElement).click();
-      });
+      // Handled by the task list, which selects every task for the bulk action bar
     },
-    description: "Toggle all tasks"
+    description: "Select all tasks"
   },
   {
     key: "Escape",
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { IndexedDBAdapter, getStorageAdapter, setStorageBackend } from "@/utils/storage-adapter";
 
 interface UseLocalStorageOptions<T> {
   defaultValue: T;
@@ -39,25 +40,36 @@ export function useLocalStorage<T>(
   const isSettingValue = useRef(false);
   const lastKnownValue = useRef<T>(defaultValue);
 
-  // Load value from localStorage on mount
+  // Load value from the storage backend (localStorage or IndexedDB) on mount
   useEffect(() => {
-    try {
-      const item = localStorage.getItem(key);
-      if (item !== null) {
-        const parsedValue = deserialize(item);
-        setValueState(parsedValue);
-        lastKnownValue.current = parsedValue;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const storage = await getStorageAdapter();
+        const item = await storage.getItem(key);
+        if (item !== null && !cancelled) {
+          const parsedValue = deserialize(item);
+          setValueState(parsedValue);
+          lastKnownValue.current = parsedValue;
+        }
+      } catch (err) {
+        const error = new Error(`Failed to load localStorage key "${key}": ${err instanceof Error ? err.message : 'Unknown error'}`);
+        setError(error);
+        onError?.(error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
       }
-    } catch (err) {
-      const error = new Error(`Failed to load localStorage key "${key}": ${err instanceof Error ? err.message : 'Unknown error'}`);
-      setError(error);
-      onError?.(error);
-    } finally {
-      setIsLoaded(true);
-    }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
   }, [key, deserialize, onError]);
 
-  // Save value to localStorage whenever it changes
+  // Save value to the storage backend whenever it changes
   const persistValue = useCallback(async (newValue: T) => {
     if (isSettingValue.current) return; // Skip if we're just syncing from another tab
     
@@ -66,53 +78,29 @@ export function useLocalStorage<T>(
     
     try {
       const serializedValue = serialize(newValue);
-      localStorage.setItem(key, serializedValue);
+      const storage = await getStorageAdapter();
+      try {
+        await storage.setItem(key, serializedValue);
+      } catch (err) {
+        // Out of localStorage space: move large data to IndexedDB and try again
+        if (err instanceof Error && err.name === 'QuotaExceededError' && storage.backend === 'localStorage' && IndexedDBAdapter.isAvailable()) {
+          const upgraded = await setStorageBackend('indexedDB');
+          await upgraded.setItem(key, serializedValue);
+        } else {
+          throw err;
+        }
+      }
       lastKnownValue.current = newValue;
     } catch (err) {
       const error = new Error(`Failed to save localStorage key "${key}": ${err instanceof Error ? err.message : 'Unknown error'}`);
       setError(error);
       onError?.(error);
-      
-      // If localStorage is full, try to clear some space
-      if (err instanceof Error && err.name === 'QuotaExceededError') {
-        try {
-          // Clear old items (simple strategy: remove items older than 30 days)
-          const keys = Object.keys(localStorage);
-          const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
-          
-          for (const k of keys) {
-            if (k.startsWith('novatask-') && k !== key) {
-              try {
-                const item = localStorage.getItem(k);
-                if (item) {
-                  const parsed = JSON.parse(item);
-                  if (parsed.timestamp && parsed.timestamp < thirtyDaysAgo) {
-                    localStorage.removeItem(k);
-                  }
-                }
-              } catch {
-                // If we can't parse, just remove it
-                localStorage.removeItem(k);
-              }
-            }
-          }
-          
-          // Try saving again
-          localStorage.setItem(key, serialize(newValue));
-          lastKnownValue.current = newValue;
-          setError(null);
-        } catch (retryErr) {
-          const retryError = new Error(`Failed to save localStorage key "${key}" after cleanup: ${retryErr instanceof Error ? retryErr.message : 'Unknown error'}`);
-          setError(retryError);
-          onError?.(retryError);
-        }
-      }
     } finally {
       setIsPersisting(false);
     }
   }, [key, serialize, onError]);
 
-  // Update state and persist to localStorage
+  // Update state and persist it
   const setValue = useCallback((newValue: T | ((prev: T) => T)) => {
     setValueState(prev => {
       const resolvedValue = typeof newValue === 'function' ? (newValue as (prev: T) => T)(prev) : newValue;
@@ -121,21 +109,21 @@ export function useLocalStorage<T>(
     });
   }, [persistValue]);
 
-  // Remove value from localStorage
+  // Remove value from the storage backend
   const removeValue = useCallback(() => {
-    try {
-      localStorage.removeItem(key);
-      setValueState(defaultValue);
-      lastKnownValue.current = defaultValue;
-      setError(null);
-    } catch (err) {
-      const error = new Error(`Failed to remove localStorage key "${key}": ${err instanceof Error ? err.message : 'Unknown error'}`);
-      setError(error);
-      onError?.(error);
-    }
+    setValueState(defaultValue);
+    lastKnownValue.current = defaultValue;
+    setError(null);
+    getStorageAdapter()
+      .then(storage => storage.removeItem(key))
+      .catch(err => {
+        const error = new Error(`Failed to remove localStorage key "${key}": ${err instanceof Error ? err.message : 'Unknown error'}`);
+        setError(error);
+        onError?.(error);
+      });
   }, [key, defaultValue, onError]);
 
-  // Sync across tabs
+  // Sync across tabs (storage events only fire while the backend is localStorage)
   useEffect(() => {
     if (!syncAcrossTabs) return;
 
@@ -0,0 +1,57 @@
+"use client";
+
+import { useRef, useCallback, useEffect } from "react";
+
+interface LongPressOptions {
+  delay?: number;
+  // Movement (px) that turns the press into a scroll or swipe instead
+  tolerance?: number;
+  hapticFeedback?: boolean;
+}
+
+// Pointer handlers that call onLongPress when a touch is held still. Mouse presses are
+// ignored; desktop users have click modifiers instead.
+export function useLongPress(onLongPress: () => void, options: LongPressOptions = {}) {
+  const { delay = 500, tolerance = 10, hapticFeedback = true } = options;
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  const cancel = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    startRef.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const onPointerDown = useCallback((e: React.PointerEvent) => {
+    if (e.pointerType === "mouse") return;
+    cancel();
+    startRef.current = { x: e.clientX, y: e.clientY };
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      if (hapticFeedback && "vibrate" in navigator) {
+        navigator.vibrate(20);
+      }
+      onLongPress();
+    }, delay);
+  }, [cancel, delay, hapticFeedback, onLongPress]);
+
+  const onPointerMove = useCallback((e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start) return;
+    if (Math.abs(e.clientX - start.x) > tolerance || Math.abs(e.clientY - start.y) > tolerance) {
+      cancel();
+    }
+  }, [cancel, tolerance]);
+
+  return {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp: cancel,
+    onPointerCancel: cancel,
+    onPointerLeave: cancel,
+  };
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+// Current time, refreshed every intervalMs while enabled (e.g. while a timer is running)
+export function useNow(enabled: boolean = true, intervalMs: number = 1000): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [enabled, intervalMs]);
+
+  return now;
+}
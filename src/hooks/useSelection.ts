@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useCallback, useMemo, useRef } from "react";
+
+interface UseSelectionReturn {
+  // Selected ids that are still in the list, in list order
+  selectedIds: string[];
+  isSelected: (id: string) => boolean;
+  toggle: (id: string) => void;
+  // Add everything between the last toggled item and this one
+  selectRange: (id: string) => void;
+  selectAll: () => void;
+  clear: () => void;
+}
+
+// Multi-selection over an ordered list of ids. Ids that leave the list (filtered out,
+// deleted) drop out of the selection but come back if they reappear.
+export function useSelection(orderedIds: string[]): UseSelectionReturn {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const selectedIds = useMemo(() => orderedIds.filter(id => selected.has(id)), [orderedIds, selected]);
+
+  const isSelected = useCallback((id: string) => selected.has(id), [selected]);
+
+  const toggle = useCallback((id: string) => {
+    anchorRef.current = id;
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const selectRange = useCallback((id: string) => {
+    const anchorIndex = anchorRef.current ? orderedIds.indexOf(anchorRef.current) : -1;
+    const targetIndex = orderedIds.indexOf(id);
+    if (targetIndex === -1) return;
+    if (anchorIndex === -1) {
+      toggle(id);
+      return;
+    }
+
+    const [from, to] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+    setSelected(prev => {
+      const next = new Set(prev);
+      orderedIds.slice(from, to + 1).forEach(rangeId => next.add(rangeId));
+      return next;
+    });
+  }, [orderedIds, toggle]);
+
+  const selectAll = useCallback(() => {
+    setSelected(new Set(orderedIds));
+  }, [orderedIds]);
+
+  const clear = useCallback(() => {
+    anchorRef.current = null;
+    setSelected(new Set());
+  }, []);
+
+  return { selectedIds, isSelected, toggle, selectRange, selectAll, clear };
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useLocalStorage } from "./useLocalStorage";
+import { TodoSort, reviveSort } from "@/utils/sorting";
+
+const SORT_STORAGE_KEY = "novatask-sort";
+
+const NO_SORTS: Record<string, TodoSort> = {};
+
+// Sort chosen for each view (list), remembered across sessions.
+// Views that were never sorted use manual order.
+export function useViewSort(viewId: string): [TodoSort, (sort: TodoSort) => void] {
+  const { value: sorts, setValue: setSorts } = useLocalStorage<Record<string, TodoSort>>(SORT_STORAGE_KEY, {
+    defaultValue: NO_SORTS,
+  });
+
+  const sort = useMemo(() => reviveSort(sorts?.[viewId]), [sorts, viewId]);
+
+  const setSort = useCallback((next: TodoSort) => {
+    setSorts(prev => ({ ...prev, [viewId]: next }));
+  }, [setSorts, viewId]);
+
+  return [sort, setSort];
+}
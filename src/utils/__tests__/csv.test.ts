@@ -0,0 +1,141 @@
+import { CsvImportOptions, convertCsvRows, createCsvExport, guessColumnMapping, parseCsv, parseCsvDate } from '../csv';
+import { Todo } from '../todo-store';
+
+const createTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 'medium',
+  category: 'Work',
+  createdAt: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+const importOptions = (overrides: Partial<CsvImportOptions> = {}): CsvImportOptions => {
+  let nextId = 0;
+  return {
+    mapping: ['text', 'priority', 'category', 'dueDate', 'completed'],
+    hasHeader: true,
+    dateOrder: 'dmy',
+    defaultCategory: 'Inbox',
+    createId: () => `id-${++nextId}`,
+    now: new Date(2026, 9, 19),
+    ...overrides,
+  };
+};
+
+describe('parseCsv', () => {
+  it('reads quoted cells with delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('Task,Notes\r\n"Buy milk, eggs","Say ""hi""\nto Ana"\r\n')).toEqual([
+      ['Task', 'Notes'],
+      ['Buy milk, eggs', 'Say "hi"\nto Ana'],
+    ]);
+  });
+
+  it('detects semicolons and tabs and skips the byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFTask;Due\n\nPay rent;01/11/2026\n')).toEqual([['Task', 'Due'], ['Pay rent', '01/11/2026']]);
+    expect(parseCsv('Task\tDue\nPay rent\t2026-11-01')).toEqual([['Task', 'Due'], ['Pay rent', '2026-11-01']]);
+  });
+});
+
+describe('createCsvExport', () => {
+  it('writes a header, escapes cells and guards against formulas', () => {
+    const csv = createCsvExport([
+      createTodo('a', { text: 'Say "hi", then leave', dueDate: new Date(2026, 9, 25), dueAllDay: true, completed: true }),
+      createTodo('b', { text: '=SUM(A1:A9)', priority: 'high', dueDate: new Date(2026, 9, 25, 17, 30) }),
+    ]);
+
+    expect(csv).toBe(
+      '\uFEFFTask,Priority,Category,Due date,Completed\r\n' +
+      '"Say ""hi"", then leave",medium,Work,2026-10-25,yes\r\n' +
+      "'=SUM(A1:A9),high,Work,2026-10-25 17:30,no\r\n"
+    );
+  });
+
+  it('reads back into the same tasks', async () => {
+    const todos = [
+      createTodo('a', { text: '-5 degrees, bring a coat', dueDate: new Date(2026, 9, 25), dueAllDay: true }),
+      createTodo('b', { priority: 'low', category: 'Home', completed: true }),
+    ];
+    const rows = parseCsv(createCsvExport(todos));
+    const parsed = await convertCsvRows(rows, importOptions({ mapping: guessColumnMapping(rows[0]) }));
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.todos.map(({ todo }) => todo)).toEqual([
+      expect.objectContaining({ text: '-5 degrees, bring a coat', dueDate: new Date(2026, 9, 25), dueAllDay: true }),
+      expect.objectContaining({ text: 'Task b', priority: 'low', category: 'Home', completed: true }),
+    ]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches header names and uses each field once', () => {
+    expect(guessColumnMapping(['Title', 'Notes', 'due_date', 'Status', 'Done'])).toEqual(['text', null, 'dueDate', 'completed', null]);
+  });
+});
+
+describe('parseCsvDate', () => {
+  it('reads dates in the order asked for', () => {
+    expect(parseCsvDate('03/04/2026', 'dmy')).toEqual({ dueDate: new Date(2026, 3, 3), dueAllDay: true });
+    expect(parseCsvDate('03/04/2026', 'mdy')).toEqual({ dueDate: new Date(2026, 2, 4), dueAllDay: true });
+    expect(parseCsvDate('2026/04/03', 'ymd')).toEqual({ dueDate: new Date(2026, 3, 3), dueAllDay: true });
+    expect(parseCsvDate('2026.04.03', 'mdy')).toEqual({ dueDate: new Date(2026, 3, 3), dueAllDay: true });
+    expect(parseCsvDate('3-4-26', 'dmy')).toEqual({ dueDate: new Date(2026, 3, 3), dueAllDay: true });
+  });
+
+  it('reads times and timestamps', () => {
+    expect(parseCsvDate('25/10/2026 5:30 pm', 'dmy')).toEqual({ dueDate: new Date(2026, 9, 25, 17, 30), dueAllDay: false });
+    expect(parseCsvDate('2026-10-25 17.30', 'dmy')).toEqual({ dueDate: new Date(2026, 9, 25, 17, 30), dueAllDay: false });
+    expect(parseCsvDate('2026-10-25T17:30:00Z', 'dmy')).toEqual({ dueDate: new Date('2026-10-25T17:30:00Z'), dueAllDay: false });
+  });
+
+  it('rejects impossible dates and times', () => {
+    expect(parseCsvDate('31/02/2026', 'dmy')).toBeNull();
+    expect(parseCsvDate('10/25/2026', 'ymd')).toBeNull();
+    expect(parseCsvDate('25/10/2026 13 pm', 'dmy')).toBeNull();
+    expect(parseCsvDate('25/10/2026 17', 'dmy')).toBeNull();
+    expect(parseCsvDate('next week', 'dmy')).toBeNull();
+  });
+});
+
+describe('convertCsvRows', () => {
+  it('reports each unreadable row by its line in the file', async () => {
+    const rows = [
+      ['Task', 'Priority', 'Category', 'Due', 'Done'],
+      ['Pay rent', 'Urgent', '', '1/11/2026', 'x'],
+      ['', 'low', '', '', ''],
+      ['Call Ana', 'someday', '', '', ''],
+      ['Book flights', '', '', '31/02/2026', ''],
+      ['Water plants', '', '', '', 'maybe'],
+    ];
+    const parsed = await convertCsvRows(rows, importOptions({ projectId: 'home' }));
+
+    expect(parsed.todos).toEqual([
+      {
+        row: 2,
+        todo: expect.objectContaining({
+          id: 'id-1',
+          text: 'Pay rent',
+          priority: 'high',
+          category: 'Inbox',
+          completed: true,
+          projectId: 'home',
+          dueDate: new Date(2026, 10, 1),
+          dueAllDay: true,
+        }),
+      },
+    ]);
+    expect(parsed.errors).toEqual([
+      { row: 3, reason: 'Missing task text', label: undefined },
+      { row: 4, reason: 'Unknown priority "someday"', label: 'Call Ana' },
+      { row: 5, reason: 'Can\'t read the due date "31/02/2026"', label: 'Book flights' },
+      { row: 6, reason: 'Can\'t tell whether "maybe" means completed', label: 'Water plants' },
+    ]);
+  });
+
+  it('leaves out columns that are not mapped', async () => {
+    const parsed = await convertCsvRows([['Pay rent', 'low']], importOptions({ mapping: ['text', null], hasHeader: false }));
+
+    expect(parsed.todos[0].todo).toMatchObject({ text: 'Pay rent', priority: 'medium', category: 'Inbox', completed: false });
+  });
+});
@@ -0,0 +1,178 @@
+import { ICalendarImportOptions, createICalendar, parseICalendar } from '../icalendar';
+import { ParsedImport } from '../data-transfer';
+import { Todo } from '../todo-store';
+
+const createTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 'medium',
+  category: 'Work',
+  createdAt: new Date('2026-10-01T09:00:00Z'),
+  ...overrides,
+});
+
+const importOptions: ICalendarImportOptions = {
+  defaultCategory: 'Inbox',
+  createId: () => 'new-id',
+  now: new Date('2026-10-19T09:00:00Z'),
+};
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+function parse(text: string): ParsedImport {
+  const parsed = parseICalendar(text, importOptions);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed;
+}
+
+describe('createICalendar', () => {
+  it('writes a VTODO per task with escaped text and UTC times', () => {
+    const ics = createICalendar([
+      createTodo('a', {
+        text: 'Plan trip; book hotel, flights',
+        notes: 'Line one\nLine two',
+        priority: 'high',
+        tags: ['travel'],
+        dueDate: new Date('2026-10-25T16:30:00Z'),
+        dueTimeZone: 'Europe/Berlin',
+      }),
+    ], new Date('2026-10-19T09:00:00Z'));
+
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//NovaTask//NovaTask//EN',
+      'CALSCALE:GREGORIAN',
+      'BEGIN:VTODO',
+      'UID:a',
+      'DTSTAMP:20261019T090000Z',
+      'CREATED:20261001T090000Z',
+      'SUMMARY:Plan trip\\; book hotel\\, flights',
+      'DESCRIPTION:Line one\\nLine two',
+      'PRIORITY:1',
+      'STATUS:NEEDS-ACTION',
+      'CATEGORIES:Work,travel',
+      'DUE:20261025T163000Z',
+      'X-NOVATASK-TIMEZONE:Europe/Berlin',
+      'END:VTODO',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('folds long lines without splitting characters', () => {
+    const text = `${'Überprüfung '.repeat(12)}fertig`;
+    const ics = createICalendar([createTodo('a', { text })]);
+    const lines = ics.split('\r\n');
+
+    expect(lines.filter(line => line.startsWith(' ')).length).toBeGreaterThan(1);
+    lines.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(parse(ics).todos[0].todo.text).toBe(text);
+  });
+});
+
+describe('parseICalendar', () => {
+  it('reads back what it exported', () => {
+    const todos = [
+      createTodo('day', { dueDate: new Date(2026, 9, 25), dueAllDay: true, recurrence: { freq: 'WEEKLY', interval: 2 } }),
+      createTodo('timed', {
+        completed: true,
+        priority: 'low',
+        tags: ['errands', 'home'],
+        notes: 'Ask about the, semicolon; case',
+        dueDate: new Date('2026-10-25T16:30:00Z'),
+        dueTimeZone: 'Europe/Berlin',
+      }),
+      createTodo('undated', { category: 'Personal' }),
+    ];
+    const parsed = parse(createICalendar(todos));
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.todos.map(({ todo }) => todo)).toEqual([
+      expect.objectContaining({ id: 'day', dueDate: new Date(2026, 9, 25), dueAllDay: true, recurrence: { freq: 'WEEKLY', interval: 2 } }),
+      expect.objectContaining({
+        id: 'timed',
+        completed: true,
+        priority: 'low',
+        tags: ['errands', 'home'],
+        notes: 'Ask about the, semicolon; case',
+        dueDate: new Date('2026-10-25T16:30:00Z'),
+        dueTimeZone: 'Europe/Berlin',
+      }),
+      expect.objectContaining({ id: 'undated', category: 'Personal', dueDate: undefined, createdAt: new Date('2026-10-01T09:00:00Z') }),
+    ]);
+  });
+
+  it('reads zoned times across a daylight saving change and floating times as local', () => {
+    const parsed = parse(calendar(
+      'BEGIN:VTODO',
+      'SUMMARY:Zoned',
+      // Berlin is back on UTC+1 by the afternoon of October 25, 2026
+      'DUE;TZID=/mozilla.org/20070129_1/Europe/Berlin:20261025T173000',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Floating',
+      'DUE:20261025T173000',
+      'END:VTODO'
+    ));
+
+    expect(parsed.todos.map(({ todo }) => [todo.dueDate, todo.dueTimeZone])).toEqual([
+      [new Date('2026-10-25T16:30:00Z'), 'Europe/Berlin'],
+      [new Date(2026, 9, 25, 17, 30), 'Pacific/Auckland'],
+    ]);
+  });
+
+  it('imports events on their start date, skipping alarms', () => {
+    const parsed = parse(calendar(
+      'BEGIN:VEVENT',
+      'UID:event-1',
+      'SUMMARY:Dentist',
+      'DTSTART;VALUE=DATE:20261102',
+      'STATUS:COMPLETED',
+      'BEGIN:VALARM',
+      'SUMMARY:Reminder',
+      'END:VALARM',
+      'END:VEVENT'
+    ));
+
+    expect(parsed.todos).toEqual([{
+      row: 1,
+      warning: undefined,
+      todo: expect.objectContaining({ id: 'event-1', text: 'Dentist', completed: false, category: 'Inbox', dueDate: new Date(2026, 10, 2) }),
+    }]);
+  });
+
+  it('reports entries it cannot read and warns about unsupported repeats', () => {
+    const parsed = parse(calendar(
+      'BEGIN:VTODO',
+      'DUE:20261025',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Bad date',
+      'DUE:20260230',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Pay day',
+      'DUE;VALUE=DATE:20261026',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,FR;BYSETPOS=1',
+      'PRIORITY:3',
+      'END:VTODO'
+    ));
+
+    expect(parsed.errors).toEqual([
+      { row: 1, reason: 'Task has no summary', label: undefined },
+      { row: 2, reason: 'Can\'t read the date "20260230"', label: 'Bad date' },
+    ]);
+    expect(parsed.todos).toEqual([{
+      row: 3,
+      warning: 'Repeat rule not supported; imported as a one-off task',
+      todo: expect.objectContaining({ id: 'new-id', priority: 'high', recurrence: undefined }),
+    }]);
+  });
+
+  it('rejects files that are not calendars or have nothing to import', () => {
+    expect(parseICalendar('Task,Due', importOptions)).toEqual({ error: 'The file is not an iCalendar file' });
+    expect(parseICalendar(calendar(), importOptions)).toEqual({ error: 'The calendar has no tasks or events' });
+  });
+});
@@ -0,0 +1,34 @@
+import { parseQuickAdd } from '../quick-add';
+
+const dueDate = (input: string, now: Date) => parseQuickAdd(input, now).dueDate;
+
+describe('parseQuickAdd month offsets', () => {
+  it('clamps "next month" to the end of a shorter month', () => {
+    expect(dueDate('Pay rent next month', new Date(2026, 0, 31, 10))).toEqual(new Date(2026, 1, 28));
+    expect(dueDate('Pay rent next month', new Date(2028, 0, 31, 10))).toEqual(new Date(2028, 1, 29));
+    expect(dueDate('Pay rent next month', new Date(2026, 2, 31, 10))).toEqual(new Date(2026, 3, 30));
+  });
+
+  it('clamps "in N months" the same way', () => {
+    const now = new Date(2026, 7, 31, 10);
+    expect(dueDate('Renew in a month', now)).toEqual(new Date(2026, 8, 30));
+    expect(dueDate('Renew in 6 months', now)).toEqual(new Date(2027, 1, 28));
+    expect(dueDate('Renew in 12 months', now)).toEqual(new Date(2027, 7, 31));
+  });
+
+  it('keeps the day when the target month is long enough', () => {
+    expect(dueDate('Call in 2 months', new Date(2026, 0, 15, 10))).toEqual(new Date(2026, 2, 15));
+  });
+
+  it('still counts days and weeks across month ends', () => {
+    const now = new Date(2026, 0, 31, 10);
+    expect(dueDate('Call in 1 day', now)).toEqual(new Date(2026, 1, 1));
+    expect(dueDate('Call in 2 weeks', now)).toEqual(new Date(2026, 1, 14));
+  });
+
+  it('takes the phrase out of the title', () => {
+    const result = parseQuickAdd('Pay rent next month', new Date(2026, 0, 31, 10));
+    expect(result.text).toBe('Pay rent');
+    expect(result.tokens.map(token => token.field)).toEqual(['dueDate']);
+  });
+});
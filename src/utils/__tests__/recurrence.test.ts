@@ -0,0 +1,107 @@
+import {
+  RecurrenceRule,
+  anchorRecurrence,
+  formatRRule,
+  getNextOccurrence,
+  parseRRule,
+  reviveRecurrence,
+} from '../recurrence';
+
+// Due dates of a series as completing each task would schedule them
+function series(rule: RecurrenceRule, first: Date, length: number): Date[] {
+  const dates = [first];
+  let current = rule;
+  while (dates.length < length) {
+    const from = dates[dates.length - 1];
+    current = anchorRecurrence(current, from);
+    const next = getNextOccurrence(current, from, dates.length);
+    if (!next) break;
+    dates.push(next);
+  }
+  return dates;
+}
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 9, 0);
+
+describe('monthly and yearly series', () => {
+  it('clamps to the end of shorter months and returns to the starting day', () => {
+    expect(series({ freq: 'MONTHLY', interval: 1 }, day(2026, 1, 31), 5)).toEqual([
+      day(2026, 1, 31),
+      day(2026, 2, 28),
+      day(2026, 3, 31),
+      day(2026, 4, 30),
+      day(2026, 5, 31),
+    ]);
+  });
+
+  it('keeps the 29th and 30th after February', () => {
+    expect(series({ freq: 'MONTHLY', interval: 1 }, day(2026, 1, 30), 3)).toEqual([
+      day(2026, 1, 30),
+      day(2026, 2, 28),
+      day(2026, 3, 30),
+    ]);
+    expect(series({ freq: 'MONTHLY', interval: 1 }, day(2028, 1, 29), 3)).toEqual([
+      day(2028, 1, 29),
+      day(2028, 2, 29),
+      day(2028, 3, 29),
+    ]);
+  });
+
+  it('keeps the interval while anchored', () => {
+    expect(series({ freq: 'MONTHLY', interval: 3 }, day(2026, 8, 31), 3)).toEqual([
+      day(2026, 8, 31),
+      day(2026, 11, 30),
+      day(2027, 2, 28),
+    ]);
+  });
+
+  it('returns to February 29 in leap years', () => {
+    expect(series({ freq: 'YEARLY', interval: 1 }, day(2028, 2, 29), 5)).toEqual([
+      day(2028, 2, 29),
+      day(2029, 2, 28),
+      day(2030, 2, 28),
+      day(2031, 2, 28),
+      day(2032, 2, 29),
+    ]);
+  });
+
+  it('only anchors monthly and yearly rules that start late in the month', () => {
+    const monthly: RecurrenceRule = { freq: 'MONTHLY', interval: 1 };
+    expect(anchorRecurrence(monthly, day(2026, 1, 28))).toBe(monthly);
+    expect(anchorRecurrence(monthly, day(2026, 1, 29))).toEqual({ ...monthly, anchorDay: 29 });
+
+    const weekly: RecurrenceRule = { freq: 'WEEKLY', interval: 1 };
+    expect(anchorRecurrence(weekly, day(2026, 1, 31))).toBe(weekly);
+
+    // The first anchor sticks once the series has been clamped
+    const anchored = anchorRecurrence(monthly, day(2026, 1, 31));
+    expect(anchorRecurrence(anchored, day(2026, 2, 28))).toBe(anchored);
+  });
+
+  it('still stops at COUNT and UNTIL', () => {
+    expect(series({ freq: 'MONTHLY', interval: 1, count: 3 }, day(2026, 1, 31), 10)).toHaveLength(3);
+    expect(series({ freq: 'MONTHLY', interval: 1, until: day(2026, 4, 1) }, day(2026, 1, 31), 10)).toEqual([
+      day(2026, 1, 31),
+      day(2026, 2, 28),
+      day(2026, 3, 31),
+    ]);
+  });
+});
+
+describe('stored rules', () => {
+  it('keeps the anchor day', () => {
+    const rule = anchorRecurrence({ freq: 'MONTHLY', interval: 1 }, day(2026, 1, 31));
+    expect(reviveRecurrence(JSON.parse(JSON.stringify(rule)))).toEqual(rule);
+  });
+
+  it('rejects anchor days that are not days of a month', () => {
+    expect(reviveRecurrence({ freq: 'MONTHLY', interval: 1, anchorDay: 32 })).toBeNull();
+    expect(reviveRecurrence({ freq: 'MONTHLY', interval: 1, anchorDay: 1.5 })).toBeNull();
+  });
+
+  it('leaves the anchor out of RRULE text', () => {
+    const rule = anchorRecurrence({ freq: 'MONTHLY', interval: 2 }, day(2026, 1, 31));
+    expect(formatRRule(rule)).toBe('FREQ=MONTHLY;INTERVAL=2');
+    expect(parseRRule(formatRRule(rule))).toEqual({ freq: 'MONTHLY', interval: 2 });
+  });
+});
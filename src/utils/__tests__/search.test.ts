@@ -0,0 +1,125 @@
+import { SearchTerm, buildSearchIndex, parseSearchQuery, searchTodos } from '../search';
+import { Todo } from '../todo-store';
+
+const createTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 'medium',
+  category: 'Work',
+  createdAt: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+function parseTerms(query: string): SearchTerm[] {
+  const parsed = parseSearchQuery(query);
+  if ('error' in parsed) throw new Error(parsed.error.message);
+  return parsed.terms;
+}
+
+function search(todos: Todo[], query: string, now: Date): string[] {
+  return searchTodos(todos, parseTerms(query), buildSearchIndex(todos), { todos, now }).map(todo => todo.id);
+}
+
+describe('parseSearchQuery', () => {
+  it('reads words, phrases, fields and negation', () => {
+    expect(parseTerms('milk "weekly report" p:high cat:"Side project" -tag:#Later done')).toEqual([
+      { kind: 'text', value: 'milk', phrase: false, negated: false, start: 0, end: 4 },
+      { kind: 'text', value: 'weekly report', phrase: true, negated: false, start: 5, end: 20 },
+      { kind: 'priority', priority: 'high', negated: false, start: 21, end: 27 },
+      { kind: 'category', value: 'Side project', negated: false, start: 28, end: 46 },
+      { kind: 'tag', value: 'later', negated: true, start: 47, end: 58 },
+      { kind: 'is', state: 'done', negated: false, start: 59, end: 63 },
+    ]);
+  });
+
+  it('reads relative and absolute due dates', () => {
+    expect(parseTerms('due:<7d due:>=2w due:-1d due:tomorrow due:2026-10-31 due:none').map(term => term.kind === 'due' && term.due)).toEqual([
+      { type: 'day', comparison: '<', offsetDays: 7 },
+      { type: 'day', comparison: '>=', offsetDays: 14 },
+      { type: 'day', comparison: '=', offsetDays: -1 },
+      { type: 'day', comparison: '=', offsetDays: 1 },
+      { type: 'date', comparison: '=', date: new Date(2026, 9, 31) },
+      { type: 'none' },
+    ]);
+  });
+
+  it('points at the part of the query that is wrong', () => {
+    expect(parseSearchQuery('milk colour:red')).toEqual({
+      error: expect.objectContaining({ message: expect.stringContaining('Unknown field "colour:"'), start: 5, end: 15 }),
+    });
+    expect(parseSearchQuery('p:urgent')).toEqual({
+      error: expect.objectContaining({ message: 'Unknown priority "urgent". Use high, medium or low', start: 0, end: 8 }),
+    });
+    expect(parseSearchQuery('due:2026-02-30')).toEqual({
+      error: expect.objectContaining({ message: expect.stringContaining('Invalid due date "2026-02-30"') }),
+    });
+    expect(parseSearchQuery('is:')).toEqual({ error: expect.objectContaining({ message: 'Missing value after "is:"' }) });
+    expect(parseSearchQuery('milk "weekly')).toEqual({ error: { message: 'Missing closing quote', start: 5, end: 12 } });
+    expect(parseSearchQuery('milk - ')).toEqual({ error: { message: 'Expected a term after "-"', start: 5, end: 6 } });
+  });
+});
+
+describe('searchTodos', () => {
+  it('matches word prefixes and phrases regardless of case and accents', () => {
+    const todos = [
+      createTodo('cafe', { text: 'Meet at the Café', tags: ['social'] }),
+      createTodo('report', { text: 'Write the weekly report', notes: 'Send to Ana' }),
+    ];
+    const now = new Date(2026, 9, 19);
+
+    expect(search(todos, 'cafe', now)).toEqual(['cafe']);
+    expect(search(todos, 'wee rep', now)).toEqual(['report']);
+    expect(search(todos, '"weekly report"', now)).toEqual(['report']);
+    expect(search(todos, '"report weekly"', now)).toEqual([]);
+    expect(search(todos, 'ana', now)).toEqual(['report']);
+    expect(search(todos, '-tag:social', now)).toEqual(['report']);
+  });
+});
+
+// jest.config.js runs the tests in Pacific/Auckland, where local midnight falls at noon UTC
+// in winter and 11:00 UTC in summer, so days counted from UTC timestamps come out wrong
+describe('due filters', () => {
+  it('counts calendar days across a daylight saving change', () => {
+    // Auckland leaves daylight saving on April 5, 2026
+    const now = new Date(2026, 3, 1, 22, 30);
+    const todos = [
+      createTodo('apr-1', { dueDate: new Date(2026, 3, 1, 8) }),
+      createTodo('apr-2', { dueDate: new Date(2026, 3, 2) }),
+      createTodo('apr-7', { dueDate: new Date(2026, 3, 7) }),
+      createTodo('apr-8', { dueDate: new Date(2026, 3, 8, 23, 59) }),
+    ];
+
+    expect(search(todos, 'due:today', now)).toEqual(['apr-1']);
+    expect(search(todos, 'due:tomorrow', now)).toEqual(['apr-2']);
+    expect(search(todos, 'due:<7d', now)).toEqual(['apr-1', 'apr-2', 'apr-7']);
+    expect(search(todos, 'due:6d', now)).toEqual(['apr-7']);
+    expect(search(todos, 'due:>=7d', now)).toEqual(['apr-8']);
+  });
+
+  it('compares against a given date by calendar day', () => {
+    const now = new Date(2026, 8, 20, 12);
+    const todos = [
+      createTodo('before', { dueDate: new Date(2026, 8, 26, 23, 30) }),
+      createTodo('on', { dueDate: new Date(2026, 8, 27, 0, 30) }),
+      createTodo('after', { dueDate: new Date(2026, 8, 28) }),
+      createTodo('none'),
+    ];
+
+    expect(search(todos, 'due:2026-09-27', now)).toEqual(['on']);
+    expect(search(todos, 'due:<2026-09-27', now)).toEqual(['before']);
+    expect(search(todos, 'due:>=2026-09-27', now)).toEqual(['on', 'after']);
+    expect(search(todos, 'due:none', now)).toEqual(['none']);
+  });
+
+  it('finds overdue tasks by the exact moment', () => {
+    const now = new Date(2026, 3, 1, 12);
+    const todos = [
+      createTodo('earlier', { dueDate: new Date(2026, 3, 1, 9) }),
+      createTodo('later', { dueDate: new Date(2026, 3, 1, 15) }),
+      createTodo('done', { dueDate: new Date(2026, 2, 30), completed: true }),
+    ];
+
+    expect(search(todos, 'is:overdue', now)).toEqual(['earlier']);
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  TODOS_QUARANTINE_KEY,
+  TODOS_STORAGE_KEY,
+  TODO_STORAGE_VERSION,
+  loadQuarantine,
+  loadStoredTodos,
+  parseStoredTodos,
+  serializeTodos,
+} from '../todo-storage';
+import { LocalStorageAdapter } from '../storage-adapter';
+import { DEFAULT_PROJECT } from '../projects';
+
+const storedTodo = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 'medium',
+  category: 'Work',
+  createdAt: '2026-10-01T09:00:00.000Z',
+  ...overrides,
+});
+
+describe('parseStoredTodos', () => {
+  it('upgrades a version 1 list to the current version', () => {
+    const result = parseStoredTodos(JSON.stringify([storedTodo('a', { dueDate: '2026-10-20T00:00:00.000Z' })]));
+
+    expect(result.error).toBeUndefined();
+    expect(result.migratedFrom).toBe(1);
+    expect(result.quarantined).toEqual([]);
+    expect(result.todos).toEqual([
+      expect.objectContaining({ id: 'a', createdAt: new Date('2026-10-01T09:00:00.000Z'), dueDate: new Date(2026, 9, 20), dueAllDay: true }),
+    ]);
+  });
+
+  it('keeps version 2 tasks in the Inbox', () => {
+    const result = parseStoredTodos(JSON.stringify({ version: 2, savedAt: '2026-10-01T09:00:00.000Z', todos: [storedTodo('a')] }));
+
+    expect(result.migratedFrom).toBe(2);
+    expect(result.projects).toEqual([DEFAULT_PROJECT]);
+    expect(result.todos[0].projectId).toBeUndefined();
+  });
+
+  it('turns version 3 midnight due dates into all-day tasks and keeps timed ones', () => {
+    const result = parseStoredTodos(JSON.stringify({
+      version: 3,
+      savedAt: '2026-10-01T09:00:00.000Z',
+      projects: [DEFAULT_PROJECT],
+      todos: [storedTodo('day', { dueDate: '2026-10-20T00:00:00.000Z' }), storedTodo('timed', { dueDate: '2026-10-20T15:30:00.000Z' })],
+    }));
+
+    expect(result.migratedFrom).toBe(3);
+    expect(result.todos[0]).toMatchObject({ dueDate: new Date(2026, 9, 20), dueAllDay: true });
+    expect(result.todos[1].dueDate).toEqual(new Date('2026-10-20T15:30:00.000Z'));
+    expect(result.todos[1].dueAllDay).toBeUndefined();
+  });
+
+  it('reads what serializeTodos wrote without migrating', () => {
+    const { todos } = parseStoredTodos(JSON.stringify([storedTodo('a')]));
+    const result = parseStoredTodos(serializeTodos(todos));
+
+    expect(JSON.parse(serializeTodos(todos)).version).toBe(TODO_STORAGE_VERSION);
+    expect(result.migratedFrom).toBeUndefined();
+    expect(result.todos).toEqual(todos);
+  });
+
+  it('quarantines unreadable records and keeps the rest', () => {
+    const result = parseStoredTodos(
+      JSON.stringify([storedTodo('good'), storedTodo('no-text', { text: ' ' }), storedTodo('bad-date', { createdAt: 'soon' }), 'junk'])
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result.todos.map(todo => todo.id)).toEqual(['good']);
+    expect(result.quarantined.map(entry => entry.reason)).toEqual([
+      'Missing task text',
+      'Invalid creation date',
+      'Record is not an object',
+    ]);
+    expect(result.quarantined[0]).toMatchObject({ raw: storedTodo('no-text', { text: ' ' }), version: 1 });
+  });
+
+  it('quarantines the whole payload when a migration throws', () => {
+    const data = { version: 1, todos: [storedTodo('a')] };
+    const result = parseStoredTodos(JSON.stringify(data));
+
+    expect(result.todos).toEqual([]);
+    expect(result.error?.message).toBe('Expected a list of todos in version 1 data');
+    expect(result.quarantined).toEqual([expect.objectContaining({ raw: data, reason: result.error?.message })]);
+  });
+
+  it('refuses data saved by a newer version', () => {
+    const result = parseStoredTodos(JSON.stringify({ version: TODO_STORAGE_VERSION + 1, savedAt: '', todos: [] }));
+
+    expect(result.error?.message).toMatch(/newer version/);
+    expect(result.quarantined).toHaveLength(1);
+  });
+
+  it('quarantines values that are not JSON', () => {
+    const result = parseStoredTodos('{"version":');
+
+    expect(result.error).toBeDefined();
+    expect(result.quarantined).toEqual([expect.objectContaining({ raw: '{"version":', reason: 'Stored data is not valid JSON' })]);
+  });
+});
+
+describe('loadStoredTodos', () => {
+  const storage = new LocalStorageAdapter();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it('returns null when nothing was saved', async () => {
+    expect(await loadStoredTodos(storage)).toBeNull();
+  });
+
+  it('moves unreadable records to the quarantine', async () => {
+    localStorage.setItem(TODOS_STORAGE_KEY, JSON.stringify([storedTodo('good'), storedTodo('bad', { priority: 'urgent' })]));
+
+    const stored = await loadStoredTodos(storage);
+
+    expect(stored?.backupError).toBeUndefined();
+    expect(stored?.todos.map(todo => todo.id)).toEqual(['good']);
+    expect((await loadQuarantine(storage)).map(entry => entry.reason)).toEqual(['Unknown priority "urgent"']);
+  });
+
+  it('reports a failed backup after a failed migration and leaves the stored value alone', async () => {
+    const saved = JSON.stringify({ version: 1, todos: [storedTodo('a')] });
+    localStorage.setItem(TODOS_STORAGE_KEY, saved);
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('Quota exceeded');
+    });
+
+    const stored = await loadStoredTodos(storage);
+
+    expect(stored?.error).toBeDefined();
+    expect(stored?.backupError?.message).toBe('Quota exceeded');
+    expect(localStorage.getItem(TODOS_STORAGE_KEY)).toBe(saved);
+    expect(localStorage.getItem(TODOS_QUARANTINE_KEY)).toBeNull();
+  });
+});
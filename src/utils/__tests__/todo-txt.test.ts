@@ -0,0 +1,145 @@
+import { TODO_TXT_FIELDS, createTodoTxt, parseTodoTxt } from '../todo-txt';
+import { planImport } from '../data-transfer';
+import { DEFAULT_PROJECT, Project } from '../projects';
+import { Todo } from '../todo-store';
+
+const projects: Project[] = [
+  DEFAULT_PROJECT,
+  { id: 'home-office', name: 'Home Office', color: '#3b82f6', defaultCategory: 'Work' },
+  { id: 'q4-plans', name: 'Q4_Plans', color: '#10b981', defaultCategory: 'Work' },
+];
+
+const categories = ['Work', 'Personal Errands', 'snake_case'];
+
+const createTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 'medium',
+  category: 'Work',
+  createdAt: new Date(2026, 9, 1),
+  ...overrides,
+});
+
+// Export, then read back with another list open, as the import panel would
+function roundTrip(todos: Todo[]) {
+  const text = createTodoTxt(todos, projects);
+  const parsed = parseTodoTxt(text, {
+    projects,
+    categories,
+    defaultCategory: 'General',
+    projectId: 'home-office',
+    todos,
+  });
+  return { text, parsed };
+}
+
+// The fields a line carries, plus the creation day
+function carriedFields(todo: Todo) {
+  const fields = Object.fromEntries(TODO_TXT_FIELDS.map(field => [field, todo[field]]));
+  return { ...fields, createdAt: todo.createdAt };
+}
+
+function expectLossless(todos: Todo[]) {
+  const { text, parsed } = roundTrip(todos);
+  expect(parsed.errors).toEqual([]);
+  expect(parsed.projects).toEqual([]);
+  expect(parsed.todos.map(({ todo }) => carriedFields(todo))).toEqual(todos.map(carriedFields));
+  // Writing the read-back tasks gives the same file again
+  expect(createTodoTxt(parsed.todos.map(({ todo }) => todo), projects)).toBe(text);
+
+  const plan = planImport(parsed, todos, projects, 'merge');
+  expect(plan.counts).toMatchObject({ add: 0, update: 0, skip: todos.length, error: 0 });
+}
+
+describe('todo.txt round-trips', () => {
+  it('keeps each priority', () => {
+    expectLossless([
+      createTodo('high', { priority: 'high' }),
+      createTodo('medium', { priority: 'medium' }),
+      createTodo('low', { priority: 'low' }),
+    ]);
+  });
+
+  it('keeps the priority of completed tasks', () => {
+    expectLossless([
+      createTodo('done-high', { priority: 'high', completed: true, completedAt: new Date(2026, 9, 18) }),
+      createTodo('done-low', { priority: 'low', completed: true, completedAt: new Date(2026, 9, 18) }),
+    ]);
+  });
+
+  it('keeps completed tasks with a completion date, including its time of day', () => {
+    expectLossless([
+      createTodo('done', { completed: true, completedAt: new Date(2026, 9, 18, 16, 45, 12) }),
+    ]);
+  });
+
+  it('keeps the creation date of completed tasks without a completion date', () => {
+    const todo = createTodo('done-undated', { completed: true, createdAt: new Date(2026, 8, 12) });
+    const { text } = roundTrip([todo]);
+    expect(text).toContain('created:2026-09-12');
+    expectLossless([todo]);
+  });
+
+  it('keeps the list, category and tags', () => {
+    expectLossless([
+      createTodo('listed', { projectId: 'home-office', category: 'Personal Errands', tags: ['phone', 'follow_up'] }),
+      createTodo('inbox', { category: 'Work', tags: ['later'] }),
+    ]);
+  });
+
+  it('leaves Inbox tasks in the Inbox when another list is open', () => {
+    const { text, parsed } = roundTrip([createTodo('inbox')]);
+    expect(text).toContain('+Inbox');
+    expect(parsed.todos[0].todo.projectId).toBeUndefined();
+  });
+
+  it('keeps names containing spaces or underscores', () => {
+    expectLossless([
+      createTodo('spaces', { projectId: 'home-office', category: 'Personal Errands' }),
+      createTodo('underscores', { projectId: 'q4-plans', category: 'snake_case' }),
+    ]);
+  });
+
+  it('keeps all-day and timed due dates', () => {
+    expectLossless([
+      createTodo('all-day', { dueDate: new Date(2026, 10, 1), dueAllDay: true }),
+      createTodo('local', { dueDate: new Date(2026, 10, 2, 9, 15) }),
+      createTodo('zoned', { dueDate: new Date('2026-10-25T15:30:00Z'), dueTimeZone: 'Europe/Berlin' }),
+      createTodo('zoned-dst', { dueDate: new Date('2026-03-29T07:00:00Z'), dueTimeZone: 'America/New_York' }),
+    ]);
+  });
+
+  it('writes timed due dates as the wall-clock time in their zone', () => {
+    const { text } = roundTrip([
+      createTodo('zoned', { dueDate: new Date('2026-10-25T15:30:00Z'), dueTimeZone: 'Europe/Berlin' }),
+    ]);
+    expect(text).toContain('due:2026-10-25T16:30 tz:Europe/Berlin');
+  });
+});
+
+describe('parseTodoTxt', () => {
+  let nextId = 0;
+  const options = { projects, categories: [], defaultCategory: 'General', projectId: 'home-office', createId: () => `new-${++nextId}` };
+
+  it('reads lines written by other todo.txt apps', () => {
+    const parsed = parseTodoTxt(
+      'x 2011-03-02 2011-03-01 Review pull request +GarageSale @github\n(B) Schedule pickup @phone\n',
+      options
+    );
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.projects.map(project => project.name)).toEqual(['GarageSale']);
+
+    const [review, pickup] = parsed.todos.map(({ todo }) => todo);
+    expect(review).toMatchObject({ text: 'Review pull request', completed: true, category: 'github', projectId: parsed.projects[0].id });
+    expect(review.completedAt).toEqual(new Date(2011, 2, 2));
+    expect(review.createdAt).toEqual(new Date(2011, 2, 1));
+    expect(pickup).toMatchObject({ text: 'Schedule pickup', priority: 'medium', projectId: 'home-office' });
+  });
+
+  it('reports lines without text or with an impossible due date', () => {
+    const parsed = parseTodoTxt('+OnlyProject\nPay rent due:2026-02-30\n', options);
+    expect(parsed.todos).toEqual([]);
+    expect(parsed.errors.map(error => error.row)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,310 @@
+// CSV export of a task view and CSV import through a column mapping. Only the columns a
+// spreadsheet user works with are covered: text, priority, category, due date and status.
+
+import { Todo, TodoPriority } from './todo-store';
+import { ParsedImport } from './data-transfer';
+import { MAX_TODO_TEXT_LENGTH } from './todo-form';
+import { dueFields, formatDateInput, formatTimeInput } from './due-dates';
+
+export type CsvField = 'text' | 'priority' | 'category' | 'dueDate' | 'completed';
+
+// Order of day, month and year in a date like "03/04/2026"
+export type DateOrder = 'dmy' | 'mdy' | 'ymd';
+
+export const CSV_FIELDS: Array<{ field: CsvField; label: string; aliases: string[] }> = [
+  { field: 'text', label: 'Task', aliases: ['task', 'text', 'title', 'name', 'subject', 'summary', 'todo'] },
+  { field: 'priority', label: 'Priority', aliases: ['priority', 'importance', 'prio'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'type', 'area', 'group'] },
+  { field: 'dueDate', label: 'Due date', aliases: ['due date', 'due', 'deadline', 'date', 'due on'] },
+  { field: 'completed', label: 'Completed', aliases: ['completed', 'done', 'status', 'complete', 'finished'] },
+];
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  dmy: 'Day/month/year (31/12/2026)',
+  mdy: 'Month/day/year (12/31/2026)',
+  ymd: 'Year/month/day (2026/12/31)',
+};
+
+// Rows converted between progress reports
+const PROGRESS_CHUNK = 250;
+
+// Cells starting with these are run as formulas by spreadsheets
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+// Split CSV text into rows of cells. Handles quoted cells, doubled quotes, line breaks
+// inside quotes and both line-ending styles; the delimiter is detected when not given.
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no task
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+// Comma, semicolon (spreadsheets in many European locales) or tab, whichever the first line uses most
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].delimiter : ',';
+}
+
+function escapeCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+// "2026-10-25" for all-day tasks and "2026-10-25 17:30" (local time) for timed ones
+function formatCsvDueDate(todo: Todo): string {
+  if (!todo.dueDate) return '';
+  const date = formatDateInput(todo.dueDate);
+  return todo.dueAllDay ? date : `${date} ${formatTimeInput(todo.dueDate)}`;
+}
+
+// The tasks of a view, one per row under a header row. The byte order mark makes
+// spreadsheet apps read the file as UTF-8.
+export function createCsvExport(todos: Todo[]): string {
+  const header = CSV_FIELDS.map(({ label }) => label);
+  const rows = todos.map(todo => [
+    todo.text,
+    todo.priority,
+    todo.category,
+    formatCsvDueDate(todo),
+    todo.completed ? 'yes' : 'no',
+  ]);
+  return `\uFEFF${toCsv([header, ...rows])}\r\n`;
+}
+
+// The field each column most likely holds, judged by its header; null leaves a column out
+export function guessColumnMapping(headers: string[]): Array<CsvField | null> {
+  const used = new Set<CsvField>();
+  return headers.map(header => {
+    const name = header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+    const match = CSV_FIELDS.find(({ field, aliases }) => !used.has(field) && aliases.includes(name));
+    if (!match) return null;
+    used.add(match.field);
+    return match.field;
+  });
+}
+
+// The date order of a locale, read from how it formats a known date
+export function getLocaleDateOrder(locale?: string): DateOrder {
+  const parts = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' })
+    .formatToParts(new Date(2026, 11, 31))
+    .map(part => part.type)
+    .filter(type => type === 'day' || type === 'month' || type === 'year');
+  if (parts[0] === 'year') return 'ymd';
+  return parts[0] === 'day' ? 'dmy' : 'mdy';
+}
+
+function parseCsvTime(value: string): { hours: number; minutes: number } | null {
+  const match = /^(\d{1,2})(?:[:.](\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i.exec(value.trim());
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3]?.[0].toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  } else if (!match[2]) {
+    // A bare number is not a time
+    return null;
+  }
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
+// A date with an optional time, read in the given order; ISO dates are always accepted.
+// Returns null for text that isn't a valid date.
+export function parseCsvDate(value: string, order: DateOrder): { dueDate: Date; dueAllDay: boolean } | null {
+  const trimmed = value.trim();
+  // Full timestamps such as "2026-10-25T17:30:00Z" name an exact moment
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : { dueDate: date, dueAllDay: false };
+  }
+
+  const match = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})\.?(?:[\sT,]+(.+))?$/.exec(trimmed);
+  if (!match) return null;
+  const [first, second, third] = [match[1], match[2], match[3]].map(Number);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (match[1].length === 4) {
+    [year, month, day] = [first, second, third];
+  } else if (order === 'dmy') {
+    [day, month, year] = [first, second, third];
+  } else if (order === 'mdy') {
+    [month, day, year] = [first, second, third];
+  } else {
+    return null;
+  }
+  if (match[3].length === 2 && match[1].length !== 4) {
+    year += 2000;
+  } else if (String(year).length !== 4) {
+    return null;
+  }
+
+  const dueDate = new Date(year, month - 1, day);
+  if (dueDate.getFullYear() !== year || dueDate.getMonth() !== month - 1 || dueDate.getDate() !== day) {
+    return null;
+  }
+  if (!match[4]) return { dueDate, dueAllDay: true };
+
+  const time = parseCsvTime(match[4]);
+  if (!time) return null;
+  dueDate.setHours(time.hours, time.minutes, 0, 0);
+  return { dueDate, dueAllDay: false };
+}
+
+const PRIORITY_WORDS: Record<string, TodoPriority> = {
+  low: 'low',
+  medium: 'medium',
+  med: 'medium',
+  normal: 'medium',
+  high: 'high',
+  urgent: 'high',
+};
+
+const COMPLETED_WORDS: Record<string, boolean> = {
+  yes: true,
+  y: true,
+  true: true,
+  '1': true,
+  x: true,
+  done: true,
+  completed: true,
+  no: false,
+  n: false,
+  false: false,
+  '0': false,
+  open: false,
+  todo: false,
+  pending: false,
+};
+
+export interface CsvImportOptions {
+  mapping: Array<CsvField | null>;
+  // The first row holds column names rather than a task
+  hasHeader: boolean;
+  dateOrder: DateOrder;
+  // Category for rows without one, and the list the tasks are added to
+  defaultCategory: string;
+  projectId?: string;
+  createId?: () => string;
+  now?: Date;
+}
+
+// Turn mapped CSV rows into tasks. Rows are numbered as in the file, header included, and
+// each row is either a task or an error. Works in chunks so the page stays responsive.
+export async function convertCsvRows(
+  rows: string[][],
+  options: CsvImportOptions,
+  onProgress?: (progress: number) => void
+): Promise<ParsedImport> {
+  const { mapping, hasHeader, dateOrder, defaultCategory, projectId } = options;
+  const createId = options.createId ?? (() => crypto.randomUUID());
+  const createdAt = options.now ?? new Date();
+  const column = (field: CsvField) => mapping.indexOf(field);
+  const read = (cells: string[], field: CsvField) => (column(field) === -1 ? '' : (cells[column(field)] ?? '').trim());
+  // Undo the apostrophe our export puts before formula-like text
+  const unescape = (value: string) => (/^'[=+\-@]/.test(value) ? value.slice(1) : value);
+
+  const parsed: ParsedImport = { todos: [], errors: [], projects: [] };
+  const firstRow = hasHeader ? 1 : 0;
+  for (let index = firstRow; index < rows.length; index++) {
+    if ((index - firstRow) % PROGRESS_CHUNK === 0 && index > firstRow) {
+      onProgress?.(((index - firstRow) / (rows.length - firstRow)) * 100);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const cells = rows[index];
+    const row = index + 1;
+    const text = unescape(read(cells, 'text'));
+    const label = text ? text.slice(0, 80) : undefined;
+    const fail = (reason: string) => parsed.errors.push({ row, reason, label });
+
+    if (!text) {
+      fail('Missing task text');
+      continue;
+    }
+    if (text.length > MAX_TODO_TEXT_LENGTH) {
+      fail(`Task text is longer than ${MAX_TODO_TEXT_LENGTH} characters`);
+      continue;
+    }
+
+    const priorityValue = read(cells, 'priority');
+    const priority = priorityValue ? PRIORITY_WORDS[priorityValue.toLowerCase()] : 'medium';
+    if (!priority) {
+      fail(`Unknown priority "${priorityValue}"`);
+      continue;
+    }
+
+    const dueValue = read(cells, 'dueDate');
+    const due = dueValue ? parseCsvDate(dueValue, dateOrder) : undefined;
+    if (due === null) {
+      fail(`Can't read the due date "${dueValue}"`);
+      continue;
+    }
+
+    const completedValue = read(cells, 'completed').toLowerCase();
+    const completed = completedValue ? COMPLETED_WORDS[completedValue] : false;
+    if (completed === undefined) {
+      fail(`Can't tell whether "${completedValue}" means completed`);
+      continue;
+    }
+
+    parsed.todos.push({
+      row,
+      todo: {
+        id: createId(),
+        text,
+        completed,
+        priority,
+        category: unescape(read(cells, 'category')) || defaultCategory,
+        createdAt,
+        projectId,
+        ...(due ? dueFields(due) : {}),
+      },
+    });
+  }
+  onProgress?.(100);
+  return parsed;
+}
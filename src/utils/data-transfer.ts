@@ -0,0 +1,178 @@
+// Shared import pipeline: every file format parses into a ParsedImport, which is then
+// planned against the current todos so the user can preview what will change.
+
+import { Todo } from './todo-store';
+import { DEFAULT_PROJECT_ID, Project } from './projects';
+import { toStoredTodo } from './todo-storage';
+
+// Merge replaces todos that share an id; copy always adds, under fresh ids
+export type ImportMode = 'merge' | 'copy';
+
+export type ImportAction = 'add' | 'update' | 'skip' | 'error';
+
+export interface ParsedImportTodo {
+  // 1-based position in the file (record, line or row), for the report
+  row: number;
+  todo: Todo;
+  // Something that was read differently from the file, shown in the preview
+  warning?: string;
+}
+
+export interface ImportError {
+  row: number;
+  reason: string;
+  // Whatever could be read of the record, to help find it in the file
+  label?: string;
+}
+
+export interface ParsedImport {
+  todos: ParsedImportTodo[];
+  errors: ImportError[];
+  projects: Project[];
+  settings?: { trashRetentionDays?: number };
+  // Set by formats that carry only some task fields; updating a task keeps the others
+  fields?: Array<keyof Todo>;
+}
+
+export interface ImportRow {
+  row: number;
+  action: ImportAction;
+  label: string;
+  reason?: string;
+  todo?: Todo;
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  // Todos to add or replace, ready for the store
+  todos: Todo[];
+  // Lists the imported todos need that don't exist yet
+  projects: Project[];
+  // Categories that no current todo or list uses yet
+  newCategories: string[];
+  counts: Record<ImportAction, number>;
+}
+
+export const IMPORT_ACTION_LABELS: Record<ImportAction, string> = {
+  add: 'Add',
+  update: 'Update',
+  skip: 'Skip',
+  error: 'Error',
+};
+
+// Formats build records with their keys in different orders, so keys are sorted first
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, item: unknown) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return item;
+    const record = item as Record<string, unknown>;
+    return Object.keys(record).sort().reduce<Record<string, unknown>>((sorted, key) => ({ ...sorted, [key]: record[key] }), {});
+  });
+}
+
+const sameTodo = (a: Todo, b: Todo) => stableStringify(toStoredTodo(a)) === stableStringify(toStoredTodo(b));
+
+function pickFields(todo: Todo, fields: Array<keyof Todo>): Partial<Todo> {
+  return fields.reduce<Partial<Todo>>((picked, field) => ({ ...picked, [field]: todo[field] }), {});
+}
+
+// Point ids at their new values and drop the ones that lead nowhere
+function remapIds(todo: Todo, idMap: Map<string, string>, knownIds: Set<string>): Todo {
+  const blockedBy = todo.blockedBy
+    ?.map(id => idMap.get(id) ?? id)
+    .filter(id => knownIds.has(id));
+  const nextOccurrenceId = todo.nextOccurrenceId && (idMap.get(todo.nextOccurrenceId) ?? todo.nextOccurrenceId);
+  return {
+    ...todo,
+    id: idMap.get(todo.id) ?? todo.id,
+    blockedBy: blockedBy && blockedBy.length > 0 ? blockedBy : undefined,
+    nextOccurrenceId: nextOccurrenceId && knownIds.has(nextOccurrenceId) ? nextOccurrenceId : undefined,
+  };
+}
+
+export function planImport(
+  parsed: ParsedImport,
+  existingTodos: Todo[],
+  existingProjects: Project[],
+  mode: ImportMode,
+  createId: () => string = () => crypto.randomUUID()
+): ImportPlan {
+  const existingById = new Map(existingTodos.map(todo => [todo.id, todo]));
+  const projectIds = new Set(existingProjects.map(project => project.id));
+  const projects = parsed.projects.filter(project => !projectIds.has(project.id) && project.id !== DEFAULT_PROJECT_ID);
+  projects.forEach(project => projectIds.add(project.id));
+
+  const rows: ImportRow[] = parsed.errors.map(error => ({
+    row: error.row,
+    action: 'error',
+    label: error.label || `Row ${error.row}`,
+    reason: error.reason,
+  }));
+
+  // Ids are checked within the file first, so a repeated record is reported once
+  const seen = new Map<string, number>();
+  const accepted: ParsedImportTodo[] = [];
+  parsed.todos.forEach(entry => {
+    const firstRow = seen.get(entry.todo.id);
+    if (firstRow !== undefined) {
+      rows.push({ row: entry.row, action: 'error', label: entry.todo.text, reason: `Same id as row ${firstRow}` });
+      return;
+    }
+    seen.set(entry.todo.id, entry.row);
+    accepted.push(entry);
+  });
+
+  const idMap = new Map<string, string>();
+  if (mode === 'copy') {
+    accepted.forEach(({ todo }) => idMap.set(todo.id, createId()));
+  }
+  const knownIds = new Set([...existingById.keys(), ...accepted.map(({ todo }) => idMap.get(todo.id) ?? todo.id)]);
+
+  const todos: Todo[] = [];
+  accepted.forEach(({ row, todo: imported, warning }) => {
+    let todo = remapIds(imported, idMap, knownIds);
+    const existing = mode === 'merge' ? existingById.get(todo.id) : undefined;
+    if (existing && parsed.fields) {
+      todo = { ...existing, ...pickFields(todo, parsed.fields) };
+    }
+    if (todo.projectId && !projectIds.has(todo.projectId)) {
+      todo = { ...todo, projectId: undefined };
+    }
+
+    if (existing && sameTodo(existing, todo)) {
+      rows.push({ row, action: 'skip', label: todo.text, reason: 'Already up to date' });
+      return;
+    }
+    rows.push({ row, action: existing ? 'update' : 'add', label: todo.text, reason: warning, todo });
+    todos.push(todo);
+  });
+
+  rows.sort((a, b) => a.row - b.row);
+
+  const knownCategories = new Set([
+    ...existingTodos.map(todo => todo.category),
+    ...existingProjects.map(project => project.defaultCategory),
+  ]);
+  const newCategories = Array.from(new Set(todos.map(todo => todo.category))).filter(category => !knownCategories.has(category));
+
+  const counts: Record<ImportAction, number> = { add: 0, update: 0, skip: 0, error: 0 };
+  rows.forEach(row => counts[row.action]++);
+
+  return { rows, todos, projects, newCategories, counts };
+}
+
+// Offer text as a file download
+export function downloadFile(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// "novatask-2026-10-19.json"
+export function exportFilename(extension: string, now: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `novatask-${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}.${extension}`;
+}
@@ -0,0 +1,86 @@
+// Task dependencies: "blocked by" relations between todos, with cycle detection
+
+interface DependentTodo {
+  id: string;
+  completed: boolean;
+  // Ids of the todos that must be completed before this one
+  blockedBy?: string[];
+}
+
+// Ids a todo depends on, directly or through other todos
+function collectBlockerIds(todos: DependentTodo[], id: string): Set<string> {
+  const byId = new Map(todos.map(todo => [todo.id, todo]));
+  const seen = new Set<string>();
+  const stack = [...(byId.get(id)?.blockedBy || [])];
+
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(byId.get(current)?.blockedBy || []));
+  }
+  return seen;
+}
+
+// Making todoId wait on blockerId closes a loop if blockerId already waits on todoId
+export function wouldCreateCycle(todos: DependentTodo[], todoId: string, blockerId: string): boolean {
+  return todoId === blockerId || collectBlockerIds(todos, blockerId).has(todoId);
+}
+
+// Reason a dependency can't be added, or null if it can
+export function validateDependency(todos: DependentTodo[], todoId: string, blockerId: string): string | null {
+  if (todoId === blockerId) return 'A task cannot depend on itself';
+  if (!todos.some(todo => todo.id === blockerId)) return 'That task no longer exists';
+  if (todos.find(todo => todo.id === todoId)?.blockedBy?.includes(blockerId)) return 'That dependency already exists';
+  if (wouldCreateCycle(todos, todoId, blockerId)) return 'That would create a circular dependency';
+  return null;
+}
+
+export function addDependency(blockedBy: string[] = [], blockerId: string): string[] {
+  return blockedBy.includes(blockerId) ? blockedBy : [...blockedBy, blockerId];
+}
+
+export function removeDependency(blockedBy: string[] = [], blockerId: string): string[] | undefined {
+  const remaining = blockedBy.filter(id => id !== blockerId);
+  return remaining.length > 0 ? remaining : undefined;
+}
+
+// Todos that must be finished first and are still open
+export function getOpenBlockers<T extends DependentTodo>(todo: DependentTodo, todos: T[]): T[] {
+  const ids = new Set(todo.blockedBy || []);
+  return todos.filter(other => ids.has(other.id) && !other.completed);
+}
+
+// Warning shown when completing a task that is still blocked, e.g. '"Deploy" is blocked by "Review"'
+export function describeBlockers(todo: { text: string }, blockers: Array<{ text: string }>): string {
+  return `"${todo.text}" is blocked by ${blockers.map(blocker => `"${blocker.text}"`).join(', ')}`;
+}
+
+// Todos waiting on this one
+export function getBlockedTodos<T extends DependentTodo>(todo: DependentTodo, todos: T[]): T[] {
+  return todos.filter(other => other.blockedBy?.includes(todo.id));
+}
+
+export function isBlocked(todo: DependentTodo, todos: DependentTodo[]): boolean {
+  return getOpenBlockers(todo, todos).length > 0;
+}
+
+// Open and not waiting on anything
+export function isReady(todo: DependentTodo, todos: DependentTodo[]): boolean {
+  return !todo.completed && !isBlocked(todo, todos);
+}
+
+// Drop references to deleted todos
+export function pruneDependencies<T extends DependentTodo>(todos: T[], removedIds: Set<string>): T[] {
+  return todos.map(todo => {
+    if (!todo.blockedBy?.some(id => removedIds.has(id))) return todo;
+    const blockedBy = todo.blockedBy.filter(id => !removedIds.has(id));
+    return { ...todo, blockedBy: blockedBy.length > 0 ? blockedBy : undefined };
+  });
+}
+
+// Validate stored dependencies; returns null if the value is not a list of ids
+export function reviveDependencies(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) return null;
+  return Array.from(new Set(value as string[]));
+}
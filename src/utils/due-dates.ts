@@ -0,0 +1,192 @@
+// Due dates are either all-day or timed. An all-day due date is a calendar day: it is
+// held as local midnight, stored as "yyyy-mm-dd" and means the same day in every time
+// zone. A timed due date is an exact moment, stored as an ISO timestamp together with
+// the time zone it was set in.
+
+export interface DueTodo {
+  completed?: boolean;
+  dueDate?: Date;
+  dueAllDay?: boolean;
+  dueTimeZone?: string;
+}
+
+export type DueFields = Pick<DueTodo, 'dueDate' | 'dueAllDay' | 'dueTimeZone'>;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The offset of a time zone from UTC at a moment, in milliseconds
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const time = new Date(date).getTime();
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(new Date(time));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return local - Math.floor(time / 1000) * 1000;
+}
+
+// Wall-clock times in another zone are passed around as UTC dates: 17:30 in Berlin is
+// held as 17:30 UTC and read with the getUTC* methods.
+export function toZonedTime(date: Date, timeZone: string): Date {
+  return new Date(new Date(date).getTime() + getTimeZoneOffset(date, timeZone));
+}
+
+// The moment a wall-clock time in a time zone stands for. The offset is looked up again
+// at the result, in case a daylight saving change lies in between.
+export function fromZonedTime(wallClock: Date, timeZone: string): Date {
+  const time = wallClock.getTime();
+  const guess = time - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(time - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Whole calendar days from today to a date, negative when it has passed; rounding
+// absorbs daylight saving shifts
+export function daysFromToday(date: Date, now: Date = new Date()): number {
+  return Math.round((startOfDay(date).getTime() - startOfDay(now).getTime()) / DAY_MS);
+}
+
+// "2026-10-25" from a date input, as local midnight
+export function parseDateInput(value: string): Date | undefined {
+  const match = DATE_KEY_PATTERN.exec(value);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Rejects impossible days such as "2026-02-30"
+  return date.getDate() === Number(match[3]) ? date : undefined;
+}
+
+export function formatDateInput(date: Date): string {
+  const value = new Date(date);
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+// "17:30" from a time input
+export function parseTimeInput(value: string): { hours: number; minutes: number } | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
+export function formatTimeInput(date: Date): string {
+  const value = new Date(date);
+  return `${pad(value.getHours())}:${pad(value.getMinutes())}`;
+}
+
+// The due date for a date input and an optional time input, in the local time zone.
+// setHours keeps the wall-clock time across daylight saving changes.
+export function combineDateAndTime(dateValue: string, timeValue: string): { dueDate: Date; dueAllDay: boolean } | undefined {
+  const dueDate = parseDateInput(dateValue);
+  if (!dueDate) return undefined;
+  const time = parseTimeInput(timeValue);
+  if (!time) return { dueDate, dueAllDay: true };
+  dueDate.setHours(time.hours, time.minutes, 0, 0);
+  return { dueDate, dueAllDay: false };
+}
+
+// The moment a task becomes overdue: the start of the following day for all-day tasks.
+// The next day is built from the calendar so a 23 or 25 hour day still ends at midnight.
+export function getDueDeadline(todo: DueTodo): Date | null {
+  if (!todo.dueDate) return null;
+  const due = new Date(todo.dueDate);
+  if (!todo.dueAllDay) return due;
+  return new Date(due.getFullYear(), due.getMonth(), due.getDate() + 1);
+}
+
+export function isOverdue(todo: DueTodo, now: Date = new Date()): boolean {
+  if (todo.completed) return false;
+  const deadline = getDueDeadline(todo);
+  return !!deadline && deadline <= now;
+}
+
+// "Oct 25" for all-day tasks, "Oct 25, 5:30 PM" for timed ones. A task due in another
+// time zone also shows the time there, e.g. "Oct 25, 5:30 PM (11:30 AM EDT)".
+export function describeDueDate(todo: DueTodo, now: Date = new Date()): string {
+  if (!todo.dueDate) return '';
+  const due = new Date(todo.dueDate);
+  const dateOptions: Intl.DateTimeFormatOptions = {
+    month: 'short',
+    day: 'numeric',
+    ...(due.getFullYear() !== now.getFullYear() ? { year: 'numeric' } : {}),
+  };
+  if (todo.dueAllDay) {
+    return new Intl.DateTimeFormat('en-US', dateOptions).format(due);
+  }
+
+  const local = new Intl.DateTimeFormat('en-US', { ...dateOptions, hour: 'numeric', minute: '2-digit' }).format(due);
+  if (!todo.dueTimeZone || todo.dueTimeZone === getLocalTimeZone() || !isValidTimeZone(todo.dueTimeZone)) {
+    return local;
+  }
+  const original = new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: todo.dueTimeZone,
+    timeZoneName: 'short',
+  }).format(due);
+  return `${local} (${original})`;
+}
+
+// The fields a task gets when its due date is set; clearing it clears all three
+export function dueFields(due: { dueDate: Date; dueAllDay: boolean } | undefined): DueFields {
+  if (!due) return { dueDate: undefined, dueAllDay: undefined, dueTimeZone: undefined };
+  return {
+    dueDate: due.dueDate,
+    dueAllDay: due.dueAllDay ? true : undefined,
+    dueTimeZone: due.dueAllDay ? undefined : getLocalTimeZone(),
+  };
+}
+
+export function toStoredDueDate(todo: DueTodo): string | undefined {
+  if (!todo.dueDate) return undefined;
+  return todo.dueAllDay ? formatDateInput(todo.dueDate) : new Date(todo.dueDate).toISOString();
+}
+
+export function reviveDueDate(value: unknown, allDay: boolean): Date | null {
+  if (typeof value === 'string' && DATE_KEY_PATTERN.test(value)) {
+    return parseDateInput(value) || null;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) {
+    return null;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return allDay ? startOfDay(date) : date;
+}
+
+// Due dates saved before all-day tasks existed. The old form stored "yyyy-mm-dd" as UTC
+// midnight and day-only quick-add entries used local midnight; both meant a whole day.
+export function inferLegacyAllDay(value: string): { dueDate: string; dueAllDay: boolean } {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return { dueDate: value, dueAllDay: false };
+  if (/T00:00:00(\.000)?Z$/.test(value)) {
+    return { dueDate: value.slice(0, 10), dueAllDay: true };
+  }
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0 && date.getMilliseconds() === 0) {
+    return { dueDate: formatDateInput(date), dueAllDay: true };
+  }
+  return { dueDate: value, dueAllDay: false };
+}
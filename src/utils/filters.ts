@@ -0,0 +1,227 @@
+// Composable task filter: every part narrows the list and an empty part matches everything.
+// Presets (built-in and user-saved) are named filters.
+
+import { Todo, TodoPriority } from './todo-store';
+import { TagMatchMode, matchesTags } from './tags';
+import { isReady } from './dependencies';
+import { normalizeSearchText } from './search';
+import { daysFromToday, isOverdue } from './due-dates';
+
+export type StatusFilter = 'all' | 'active' | 'completed';
+
+export type DueRange = 'any' | 'overdue' | 'today' | 'tomorrow' | 'week' | 'none';
+
+export interface TodoFilter {
+  status: StatusFilter;
+  // Empty means any category / priority
+  categories: string[];
+  priorities: TodoPriority[];
+  due: DueRange;
+  tags: string[];
+  tagMatch: TagMatchMode;
+  // Plain text looked for in the title, notes, category and tags
+  text: string;
+  // Only open tasks that aren't waiting on other tasks
+  readyOnly: boolean;
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  icon: string;
+  filter: TodoFilter;
+  // Shipped with the app; can't be renamed, moved or deleted
+  builtIn?: boolean;
+}
+
+export interface FilterContext {
+  // Every todo, so blockers in other lists are taken into account
+  todos: Todo[];
+  now?: Date;
+}
+
+export const EMPTY_FILTER: TodoFilter = {
+  status: 'all',
+  categories: [],
+  priorities: [],
+  due: 'any',
+  tags: [],
+  tagMatch: 'any',
+  text: '',
+  readyOnly: false,
+};
+
+export const DUE_RANGES: { value: DueRange; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Due today' },
+  { value: 'tomorrow', label: 'Due tomorrow' },
+  { value: 'week', label: 'Next 7 days' },
+  { value: 'none', label: 'No due date' },
+];
+
+export const FILTER_PRIORITIES: TodoPriority[] = ['high', 'medium', 'low'];
+
+export const BUILT_IN_PRESETS: FilterPreset[] = [
+  { id: 'all', name: 'All Tasks', icon: '📋', filter: EMPTY_FILTER, builtIn: true },
+  { id: 'high-priority', name: 'High Priority', icon: '🔥', filter: { ...EMPTY_FILTER, status: 'active', priorities: ['high'] }, builtIn: true },
+  { id: 'due-today', name: 'Due Today', icon: '📅', filter: { ...EMPTY_FILTER, status: 'active', due: 'today' }, builtIn: true },
+  { id: 'work', name: 'Work', icon: '💼', filter: { ...EMPTY_FILTER, categories: ['Work'] }, builtIn: true },
+  { id: 'personal', name: 'Personal', icon: '🏠', filter: { ...EMPTY_FILTER, categories: ['Personal'] }, builtIn: true },
+];
+
+export const MAX_PRESET_NAME_LENGTH = 30;
+
+export const MAX_SAVED_PRESETS = 20;
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'active', 'completed'];
+
+function matchesStatus(todo: Todo, status: StatusFilter): boolean {
+  if (status === 'active') return !todo.completed;
+  if (status === 'completed') return todo.completed;
+  return true;
+}
+
+function matchesDueRange(todo: Todo, range: DueRange, now: Date): boolean {
+  if (range === 'any') return true;
+  if (range === 'none') return !todo.dueDate;
+  if (!todo.dueDate) return false;
+
+  const due = new Date(todo.dueDate);
+  if (range === 'overdue') return isOverdue(todo, now);
+
+  const days = daysFromToday(due, now);
+  switch (range) {
+    case 'today': return days === 0;
+    case 'tomorrow': return days === 1;
+    default: return days >= 0 && days < 7;
+  }
+}
+
+function matchesText(todo: Todo, text: string): boolean {
+  const needle = normalizeSearchText(text.trim());
+  if (!needle) return true;
+  const haystack = [todo.text, todo.notes || '', todo.category, ...(todo.tags || [])].join('\n');
+  return normalizeSearchText(haystack).includes(needle);
+}
+
+export function matchesFilter(todo: Todo, filter: TodoFilter, context: FilterContext): boolean {
+  const now = context.now || new Date();
+  return matchesStatus(todo, filter.status)
+    && (filter.categories.length === 0 || filter.categories.includes(todo.category))
+    && (filter.priorities.length === 0 || filter.priorities.includes(todo.priority))
+    && matchesDueRange(todo, filter.due, now)
+    && matchesTags(todo, filter.tags, filter.tagMatch)
+    && matchesText(todo, filter.text)
+    && (!filter.readyOnly || isReady(todo, context.todos));
+}
+
+export function filterTodos(todos: Todo[], filter: TodoFilter, context: FilterContext): Todo[] {
+  return todos.filter(todo => matchesFilter(todo, filter, context));
+}
+
+// Number of parts narrowing the list (tag match mode alone doesn't count)
+export function countActiveFilters(filter: TodoFilter): number {
+  return [
+    filter.status !== 'all',
+    filter.categories.length > 0,
+    filter.priorities.length > 0,
+    filter.due !== 'any',
+    filter.tags.length > 0,
+    filter.text.trim() !== '',
+    filter.readyOnly,
+  ].filter(Boolean).length;
+}
+
+const sameItems = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(item => b.includes(item));
+
+// Same tasks would match; order within the sets doesn't matter
+export function filtersEqual(a: TodoFilter, b: TodoFilter): boolean {
+  return a.status === b.status
+    && sameItems(a.categories, b.categories)
+    && sameItems(a.priorities, b.priorities)
+    && a.due === b.due
+    && sameItems(a.tags, b.tags)
+    && (a.tags.length < 2 || a.tagMatch === b.tagMatch)
+    && a.text.trim() === b.text.trim()
+    && a.readyOnly === b.readyOnly;
+}
+
+// Add or remove one item of a set-valued part
+export function toggleFilterItem<T>(items: T[], item: T): T[] {
+  return items.includes(item) ? items.filter(existing => existing !== item) : [...items, item];
+}
+
+// Short summary such as "Active · High · Due today · #urgent"
+export function describeFilter(filter: TodoFilter): string {
+  const parts: string[] = [];
+  if (filter.status !== 'all') parts.push(filter.status === 'active' ? 'Active' : 'Completed');
+  if (filter.categories.length > 0) parts.push(filter.categories.join(', '));
+  if (filter.priorities.length > 0) {
+    parts.push(filter.priorities.map(priority => priority.charAt(0).toUpperCase() + priority.slice(1)).join('/'));
+  }
+  if (filter.due !== 'any') parts.push(DUE_RANGES.find(range => range.value === filter.due)?.label || filter.due);
+  if (filter.tags.length > 0) parts.push(filter.tags.map(tag => `#${tag}`).join(filter.tagMatch === 'all' ? ' + ' : ' or '));
+  if (filter.text.trim()) parts.push(`"${filter.text.trim()}"`);
+  if (filter.readyOnly) parts.push('Ready');
+  return parts.length > 0 ? parts.join(' · ') : 'All tasks';
+}
+
+export function createPreset(name: string, filter: TodoFilter, icon: string = '⭐'): FilterPreset {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH),
+    icon,
+    filter,
+  };
+}
+
+// Reason a preset name can't be used, or null if it can
+export function validatePresetName(name: string, presets: FilterPreset[], exceptId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Preset name is required';
+  if (trimmed.length > MAX_PRESET_NAME_LENGTH) return `Preset name must be less than ${MAX_PRESET_NAME_LENGTH} characters`;
+  if (presets.some(preset => preset.id !== exceptId && preset.name.toLowerCase() === trimmed.toLowerCase())) {
+    return 'A preset with that name already exists';
+  }
+  return null;
+}
+
+const stringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Validate a stored filter, falling back to the empty filter part by part
+export function reviveFilter(value: unknown): TodoFilter {
+  if (!value || typeof value !== 'object') return EMPTY_FILTER;
+  const raw = value as Record<string, unknown>;
+  return {
+    status: STATUS_FILTERS.includes(raw.status as StatusFilter) ? raw.status as StatusFilter : 'all',
+    categories: stringArray(raw.categories),
+    priorities: stringArray(raw.priorities).filter((item): item is TodoPriority => FILTER_PRIORITIES.includes(item as TodoPriority)),
+    due: DUE_RANGES.some(range => range.value === raw.due) ? raw.due as DueRange : 'any',
+    tags: stringArray(raw.tags),
+    tagMatch: raw.tagMatch === 'all' ? 'all' : 'any',
+    text: typeof raw.text === 'string' ? raw.text : '',
+    readyOnly: raw.readyOnly === true,
+  };
+}
+
+// Validate stored user presets, dropping malformed ones
+export function revivePresets(value: unknown): FilterPreset[] {
+  if (!Array.isArray(value)) return [];
+  const presets: FilterPreset[] = [];
+  value.forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.id !== 'string' || typeof raw.name !== 'string' || !raw.name.trim()) return;
+    if (presets.some(preset => preset.id === raw.id)) return;
+    presets.push({
+      id: raw.id,
+      name: raw.name.trim().slice(0, MAX_PRESET_NAME_LENGTH),
+      icon: typeof raw.icon === 'string' && raw.icon ? raw.icon : '⭐',
+      filter: reviveFilter(raw.filter),
+    });
+  });
+  return presets.slice(0, MAX_SAVED_PRESETS);
+}
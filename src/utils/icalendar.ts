@@ -0,0 +1,330 @@
+// iCalendar (RFC 5545) export of tasks as VTODO entries, and import of VTODO and VEVENT
+// entries as tasks. The UID of an entry is the task id, so a task exported and imported
+// again is recognised and updated rather than duplicated.
+
+import { Todo, TodoPriority } from './todo-store';
+import { ParsedImport } from './data-transfer';
+import { MAX_TODO_TEXT_LENGTH } from './todo-form';
+import { MAX_NOTES_LENGTH } from './markdown';
+import { RecurrenceRule, formatRRule, parseRRule } from './recurrence';
+import { addTag } from './tags';
+import { dueFields, fromZonedTime, isValidTimeZone } from './due-dates';
+
+// The task fields an iCalendar entry carries; updating a task from one keeps the rest
+export const ICALENDAR_FIELDS: Array<keyof Todo> = [
+  'text', 'notes', 'priority', 'category', 'tags', 'completed', 'dueDate', 'dueAllDay', 'dueTimeZone', 'recurrence',
+];
+
+// Time zone a timed due date was set in. Due times are written in UTC, which every
+// calendar reads without a VTIMEZONE definition.
+const TIME_ZONE_PROPERTY = 'X-NOVATASK-TIMEZONE';
+
+// Longest content line, in octets, before it is folded (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// PRIORITY runs from 1 (highest) to 9 (lowest); 0 means undefined
+const PRIORITY_VALUES: Record<TodoPriority, number> = { high: 1, medium: 5, low: 9 };
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface CalendarComponent {
+  type: 'VTODO' | 'VEVENT';
+  properties: ContentLine[];
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Split a list value such as CATEGORIES on the commas that aren't escaped
+function splitList(value: string): string[] {
+  return (value.match(/(?:\\.|[^,\\])+/g) || []).map(unescapeText);
+}
+
+// Split a line longer than 75 octets into a first line and continuation lines starting
+// with a space, never inside a multi-byte character
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const code = char.codePointAt(0) ?? 0;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    if (octets + size > MAX_LINE_OCTETS - (lines.length > 0 ? 1 : 0)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+function formatUtcDateTime(date: Date): string {
+  const value = new Date(date);
+  return `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}` +
+    `T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}${pad(value.getUTCSeconds())}Z`;
+}
+
+function formatLocalDate(date: Date): string {
+  const value = new Date(date);
+  return `${value.getFullYear()}${pad(value.getMonth() + 1)}${pad(value.getDate())}`;
+}
+
+// DUE and DTSTART for a task: a DATE for all-day tasks, a UTC DATE-TIME otherwise
+function formatDue(name: string, todo: Todo & { dueDate: Date }): string {
+  return todo.dueAllDay ? `${name};VALUE=DATE:${formatLocalDate(todo.dueDate)}` : `${name}:${formatUtcDateTime(todo.dueDate)}`;
+}
+
+// UNTIL has to be the same kind of value as DTSTART, so timed tasks get a UTC time
+function formatRecurrence(rule: RecurrenceRule, allDay: boolean): string {
+  const value = formatRRule(rule);
+  return allDay || !rule.until ? value : value.replace(/UNTIL=\d{8}/, `UNTIL=${formatUtcDateTime(rule.until)}`);
+}
+
+function todoToLines(todo: Todo, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${escapeText(todo.id)}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatUtcDateTime(todo.createdAt)}`,
+    `SUMMARY:${escapeText(todo.text)}`,
+  ];
+  if (todo.notes) lines.push(`DESCRIPTION:${escapeText(todo.notes)}`);
+  lines.push(`PRIORITY:${PRIORITY_VALUES[todo.priority]}`);
+  lines.push(`STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+  // The category comes first; tags follow it
+  lines.push(`CATEGORIES:${[todo.category, ...(todo.tags || [])].map(escapeText).join(',')}`);
+
+  if (todo.dueDate) {
+    const due = todo as Todo & { dueDate: Date };
+    lines.push(formatDue('DUE', due));
+    if (todo.dueTimeZone && !todo.dueAllDay) lines.push(`${TIME_ZONE_PROPERTY}:${todo.dueTimeZone}`);
+    // A recurrence is counted from DTSTART, so it is only written for tasks with a due date
+    if (todo.recurrence) {
+      lines.push(formatDue('DTSTART', due));
+      lines.push(`RRULE:${formatRecurrence(todo.recurrence, !!todo.dueAllDay)}`);
+    }
+  }
+  lines.push('END:VTODO');
+  return lines;
+}
+
+export function createICalendar(todos: Todo[], now: Date = new Date()): string {
+  const stamp = formatUtcDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NovaTask//NovaTask//EN',
+    'CALSCALE:GREGORIAN',
+    ...todos.flatMap(todo => todoToLines(todo, stamp)),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// "DUE;TZID=Europe/Berlin:20261025T173000" into its name, parameters and value.
+// Parameter values may be quoted and contain ":" or ";".
+function parseContentLine(line: string): ContentLine | null {
+  let index = 0;
+  let quoted = false;
+  const segments: string[] = [];
+  let current = '';
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') quoted = !quoted;
+    if (!quoted && (char === ';' || char === ':')) {
+      segments.push(current);
+      current = '';
+      if (char === ':') break;
+      continue;
+    }
+    current += char;
+  }
+  if (index >= line.length) return null;
+
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const separator = param.indexOf('=');
+    if (separator === -1) return;
+    params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+// Every VTODO and VEVENT in the file, with alarms and other nested components left out
+function readComponents(text: string): CalendarComponent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const components: CalendarComponent[] = [];
+  const stack: string[] = [];
+  let current: CalendarComponent | null = null;
+
+  lines.forEach(line => {
+    const content = line && parseContentLine(line);
+    if (!content) return;
+    const value = content.value.trim().toUpperCase();
+    if (content.name === 'BEGIN') {
+      stack.push(value);
+      if ((value === 'VTODO' || value === 'VEVENT') && stack.length === 2) {
+        current = { type: value, properties: [] };
+      }
+    } else if (content.name === 'END') {
+      stack.pop();
+      if (current && stack.length === 1) {
+        components.push(current);
+        current = null;
+      }
+    } else if (current && stack.length === 2) {
+      (current as CalendarComponent).properties.push(content);
+    }
+  });
+  return components;
+}
+
+// Calendar apps may prefix zone names, e.g. "/mozilla.org/20070129_1/Europe/Berlin"
+function resolveTimeZone(tzid: string | undefined): string | undefined {
+  if (!tzid) return undefined;
+  if (isValidTimeZone(tzid)) return tzid;
+  const match = /([A-Za-z_]+\/[A-Za-z_+-]+)$/.exec(tzid);
+  return match && isValidTimeZone(match[1]) ? match[1] : undefined;
+}
+
+// A DATE or DATE-TIME value. UTC and zoned times are exact moments; a time without
+// either is "floating" and read as local time.
+function parseDateValue(line: ContentLine): { dueDate: Date; dueAllDay: boolean; timeZone?: string } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+  const [year, month, day] = [match[1], match[2], match[3]].map(Number);
+  if (!match[4] || line.params.VALUE === 'DATE') {
+    const dueDate = new Date(year, month - 1, day);
+    return dueDate.getDate() === day ? { dueDate, dueAllDay: true } : null;
+  }
+
+  const [hours, minutes, seconds] = [match[4], match[5], match[6]].map(Number);
+  const wallClock = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  if (match[7]) return { dueDate: wallClock, dueAllDay: false };
+
+  const timeZone = resolveTimeZone(line.params.TZID);
+  if (!timeZone) return { dueDate: new Date(year, month - 1, day, hours, minutes, seconds), dueAllDay: false };
+  return { dueDate: fromZonedTime(wallClock, timeZone), dueAllDay: false, timeZone };
+}
+
+function parsePriority(value: string | undefined): TodoPriority {
+  const priority = Number(value);
+  if (!value || !Number.isInteger(priority) || priority < 1 || priority > 9) return 'medium';
+  return priority <= 4 ? 'high' : priority === 5 ? 'medium' : 'low';
+}
+
+// Parse RRULE, after turning a UTC UNTIL into the local date it falls on
+function parseRecurrence(value: string): RecurrenceRule | null {
+  const local = value.replace(/UNTIL=(\d{8}T\d{6}Z)/i, (_, until: string) => {
+    const parsed = parseDateValue({ name: 'UNTIL', params: {}, value: until });
+    return `UNTIL=${parsed ? formatLocalDate(parsed.dueDate) : until}`;
+  });
+  return parseRRule(local);
+}
+
+export interface ICalendarImportOptions {
+  // Category for entries without one, and the list new tasks go to
+  defaultCategory: string;
+  projectId?: string;
+  createId?: () => string;
+  now?: Date;
+}
+
+export function parseICalendar(text: string, options: ICalendarImportOptions): ParsedImport | { error: string } {
+  if (!/^\s*BEGIN:VCALENDAR/i.test(text)) {
+    return { error: 'The file is not an iCalendar file' };
+  }
+  const components = readComponents(text);
+  if (components.length === 0) {
+    return { error: 'The calendar has no tasks or events' };
+  }
+
+  const createId = options.createId ?? (() => crypto.randomUUID());
+  const now = options.now ?? new Date();
+  const parsed: ParsedImport = { todos: [], errors: [], projects: [], fields: ICALENDAR_FIELDS };
+
+  components.forEach((component, index) => {
+    const row = index + 1;
+    const first = (name: string) => component.properties.find(property => property.name === name);
+    const text = unescapeText(first('SUMMARY')?.value ?? '').trim();
+    const label = text ? text.slice(0, 80) : undefined;
+    const fail = (reason: string) => parsed.errors.push({ row, reason, label });
+
+    if (!text) {
+      fail(`${component.type === 'VTODO' ? 'Task' : 'Event'} has no summary`);
+      return;
+    }
+    if (text.length > MAX_TODO_TEXT_LENGTH) {
+      fail(`Summary is longer than ${MAX_TODO_TEXT_LENGTH} characters`);
+      return;
+    }
+
+    // Tasks are due at DUE; events are put on the day they start
+    const dueLine = component.type === 'VTODO' ? first('DUE') ?? first('DTSTART') : first('DTSTART');
+    const due = dueLine ? parseDateValue(dueLine) : undefined;
+    if (due === null) {
+      fail(`Can't read the date "${dueLine?.value}"`);
+      return;
+    }
+
+    const [category, ...tags] = component.properties
+      .filter(property => property.name === 'CATEGORIES')
+      .flatMap(property => splitList(property.value))
+      .map(value => value.trim())
+      .filter(Boolean);
+
+    const status = first('STATUS')?.value.trim().toUpperCase();
+    const completed = component.type === 'VTODO' &&
+      (status === 'COMPLETED' || !!first('COMPLETED') || first('PERCENT-COMPLETE')?.value.trim() === '100');
+
+    let warning: string | undefined;
+    let recurrence: RecurrenceRule | undefined;
+    const rrule = first('RRULE');
+    if (rrule) {
+      recurrence = parseRecurrence(rrule.value) ?? undefined;
+      if (!recurrence) warning = 'Repeat rule not supported; imported as a one-off task';
+      else if (!due) warning = 'Repeats without a date; imported as a one-off task';
+    }
+
+    const notes = unescapeText(first('DESCRIPTION')?.value ?? '').trim();
+    const created = first('CREATED') ?? first('DTSTAMP');
+    const createdAt = (created && parseDateValue(created)?.dueDate) || now;
+    const savedZone = resolveTimeZone(first(TIME_ZONE_PROPERTY)?.value.trim());
+    const uid = unescapeText(first('UID')?.value.trim() ?? '');
+
+    parsed.todos.push({
+      row,
+      warning,
+      todo: {
+        id: uid || createId(),
+        text,
+        notes: notes ? notes.slice(0, MAX_NOTES_LENGTH) : undefined,
+        completed,
+        priority: parsePriority(first('PRIORITY')?.value.trim()),
+        category: category || options.defaultCategory,
+        tags: tags.length > 0 ? tags.reduce<string[]>((all, tag) => addTag(all, tag), []) : undefined,
+        createdAt,
+        projectId: options.projectId,
+        recurrence: due ? recurrence : undefined,
+        ...dueFields(due),
+        ...(due && !due.dueAllDay && (due.timeZone || savedZone) ? { dueTimeZone: due.timeZone || savedZone } : {}),
+      },
+    });
+  });
+  return parsed;
+}
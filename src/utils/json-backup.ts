@@ -0,0 +1,111 @@
+// JSON backup: every task (including the trash), list and setting in one versioned file.
+// Todos are written in the storage format, so importing runs the same migrations and
+// validation as loading saved data.
+
+import { Todo } from './todo-store';
+import { Project, reviveProjects } from './projects';
+import { TODO_STORAGE_VERSION, TodoStorageEnvelope, migrateTodoData, reviveTodo, toStoredTodo } from './todo-storage';
+import { reviveRetentionDays } from './trash';
+import { ParsedImport } from './data-transfer';
+
+export const EXPORT_FORMAT = 'novatask-export';
+
+// Bump when the layout of the export itself changes; todo records follow TODO_STORAGE_VERSION
+export const EXPORT_VERSION = 1;
+
+export interface JsonExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  storageVersion: number;
+  todos: unknown[];
+  projects: Project[];
+  // Every category in use, for reference; categories are recreated from the todos
+  categories: string[];
+  settings: { trashRetentionDays: number };
+}
+
+export interface JsonExportSource {
+  todos: Todo[];
+  projects: Project[];
+  trashRetentionDays: number;
+}
+
+export function createJsonExport(source: JsonExportSource, now: Date = new Date()): string {
+  const categories = Array.from(new Set([
+    ...source.projects.map(project => project.defaultCategory),
+    ...source.todos.map(todo => todo.category),
+  ])).sort((a, b) => a.localeCompare(b));
+
+  const data: JsonExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    storageVersion: TODO_STORAGE_VERSION,
+    todos: source.todos.map(toStoredTodo),
+    projects: source.projects,
+    categories,
+    settings: { trashRetentionDays: source.trashRetentionDays },
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+function describeRecord(record: unknown): string | undefined {
+  if (!record || typeof record !== 'object') return undefined;
+  const { text, id } = record as Record<string, unknown>;
+  if (typeof text === 'string' && text.trim()) return text.trim().slice(0, 80);
+  return typeof id === 'string' && id ? `id ${id}` : undefined;
+}
+
+// Accepts a NovaTask export, or a copy of the saved "novatask-todos" value
+export function parseJsonImport(text: string): ParsedImport | { error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: 'The file is not valid JSON' };
+  }
+
+  let payload: unknown = data;
+  let settings: ParsedImport['settings'];
+  if (data && typeof data === 'object' && (data as JsonExport).format === EXPORT_FORMAT) {
+    const exported = data as JsonExport;
+    if (typeof exported.version !== 'number' || exported.version > EXPORT_VERSION) {
+      return { error: 'This export was made by a newer version of NovaTask' };
+    }
+    if (!Array.isArray(exported.todos)) {
+      return { error: 'The export has no task list' };
+    }
+    const envelope: TodoStorageEnvelope = {
+      version: typeof exported.storageVersion === 'number' ? exported.storageVersion : TODO_STORAGE_VERSION,
+      savedAt: exported.exportedAt,
+      todos: exported.todos,
+      projects: exported.projects,
+    };
+    payload = envelope;
+    if (exported.settings && typeof exported.settings === 'object') {
+      settings = { trashRetentionDays: reviveRetentionDays(exported.settings.trashRetentionDays) };
+    }
+  }
+
+  let envelope: TodoStorageEnvelope;
+  try {
+    envelope = migrateTodoData(payload).envelope;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+  if (!settings && typeof envelope.trashRetentionDays === 'number') {
+    settings = { trashRetentionDays: reviveRetentionDays(envelope.trashRetentionDays) };
+  }
+
+  const parsed: ParsedImport = { todos: [], errors: [], projects: reviveProjects(envelope.projects), settings };
+  envelope.todos.forEach((record, index) => {
+    const result = reviveTodo(record);
+    if ('todo' in result) {
+      parsed.todos.push({ row: index + 1, todo: result.todo });
+    } else {
+      parsed.errors.push({ row: index + 1, reason: result.reason, label: describeRecord(record) });
+    }
+  });
+  return parsed;
+}
@@ -0,0 +1,198 @@
+// Safe Markdown subset for task notes: headings, lists, task checkboxes, links,
+// inline/fenced code, bold and italic. Parsing produces a plain node tree that is
+// rendered as React elements, so raw HTML in notes is always shown as text.
+
+export const MAX_NOTES_LENGTH = 10000;
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  // Present for task list items ("- [ ]" / "- [x]")
+  checked?: boolean;
+  // Zero-based source line, used to toggle checkboxes in place
+  line: number;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownListItem[] }
+  | { type: 'code'; text: string; language?: string }
+  | { type: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+
+// Only absolute http(s) and mailto links are kept; anything else (javascript:, data:, ...) is dropped
+export function sanitizeUrl(href: string): string | null {
+  try {
+    const url = new URL(href.trim());
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Alternatives in priority order: code, link, bold, italic.
+// Written without lookbehind, which older Safari versions cannot parse.
+const INLINE = /(`+)([^`]+?)\1|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:.*?[^*\s])?)\*|(^|[^\w])_([^_\s](?:.*?[^_\s])?)_(?!\w)/g;
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  const pattern = new RegExp(INLINE.source, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const previous = nodes[nodes.length - 1];
+    if (previous?.type === 'text') {
+      previous.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  while ((match = pattern.exec(text)) !== null) {
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    if (match[2] !== undefined) {
+      nodes.push({ type: 'code', text: match[2] });
+    } else if (match[3] !== undefined) {
+      const href = sanitizeUrl(match[4]);
+      if (href) {
+        nodes.push({ type: 'link', href, children: parseInline(match[3]) });
+      } else {
+        // Keep the label but not the unsafe target
+        parseInline(match[3]).forEach(node => (node.type === 'text' ? pushText(node.text) : nodes.push(node)));
+      }
+    } else if (match[5] !== undefined || match[6] !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(match[5] ?? match[6]) });
+    } else if (match[7] !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(match[7]) });
+    } else {
+      // Underscore emphasis must not start mid-word (snake_case stays as text)
+      pushText(match[8]);
+      nodes.push({ type: 'em', children: parseInline(match[9]) });
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+  return nodes;
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      // An unclosed fence runs to the end of the notes
+      while (++i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n'), language: fence[1] || undefined });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      const task = TASK.exec(listItem[2]);
+      const item: MarkdownListItem = task
+        ? { children: parseInline(task[2]), checked: task[1] !== ' ', line: i }
+        : { children: parseInline(listItem[2]), line: i };
+
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// Flip the task checkbox on the given source line
+export function toggleMarkdownCheckbox(source: string, line: number): string {
+  const lines = source.split('\n');
+  if (line < 0 || line >= lines.length) return source;
+
+  lines[line] = lines[line].replace(/^(\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/, (_, prefix: string, mark: string) =>
+    `${prefix}[${mark === ' ' ? 'x' : ' '}]`
+  );
+  return lines.join('\n');
+}
+
+// Plain text version of the notes, e.g. for previews and search
+export function markdownToPlainText(source: string): string {
+  const inlineText = (nodes: MarkdownInline[]): string =>
+    nodes.map(node => ('children' in node ? inlineText(node.children) : node.text)).join('');
+
+  return parseMarkdown(source)
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+          return inlineText(block.children);
+        case 'list':
+          return block.items.map(item => inlineText(item.children)).join('\n');
+        case 'code':
+          return block.text;
+        default:
+          return '';
+      }
+    })
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,100 @@
+// Projects (task lists): each todo belongs to exactly one, the built-in Inbox by default
+
+export interface Project {
+  id: string;
+  name: string;
+  // Hex colour used for the list's dot and accents
+  color: string;
+  // Category preselected when adding a task to this list
+  defaultCategory: string;
+}
+
+export const DEFAULT_PROJECT_ID = 'inbox';
+
+export const DEFAULT_PROJECT: Project = {
+  id: DEFAULT_PROJECT_ID,
+  name: 'Inbox',
+  color: '#a855f7',
+  defaultCategory: 'General',
+};
+
+export const PROJECT_COLORS = ['#a855f7', '#3b82f6', '#22c55e', '#eab308', '#f97316', '#ef4444', '#ec4899', '#14b8a6'];
+
+export const MAX_PROJECT_NAME_LENGTH = 40;
+
+interface ProjectMember {
+  projectId?: string;
+  completed: boolean;
+}
+
+// Todos saved before projects existed have no projectId and live in the Inbox
+export function getTodoProjectId(todo: ProjectMember): string {
+  return todo.projectId ?? DEFAULT_PROJECT_ID;
+}
+
+export function belongsToProject(todo: ProjectMember, projectId: string): boolean {
+  return getTodoProjectId(todo) === projectId;
+}
+
+export function createProject(
+  name: string,
+  color: string = PROJECT_COLORS[0],
+  defaultCategory: string = 'General',
+  id: string = crypto.randomUUID()
+): Project {
+  return {
+    id,
+    name: name.trim().slice(0, MAX_PROJECT_NAME_LENGTH),
+    color,
+    defaultCategory: defaultCategory.trim() || 'General',
+  };
+}
+
+// Reason a project name can't be used, or null if it can
+export function validateProjectName(name: string, projects: Project[], exceptId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'List name is required';
+  if (trimmed.length > MAX_PROJECT_NAME_LENGTH) return `List name must be less than ${MAX_PROJECT_NAME_LENGTH} characters`;
+  if (projects.some(project => project.id !== exceptId && project.name.toLowerCase() === trimmed.toLowerCase())) {
+    return 'A list with that name already exists';
+  }
+  return null;
+}
+
+export interface ProjectStats {
+  total: number;
+  completed: number;
+  completionRate: number;
+}
+
+export function getProjectStats(todos: ProjectMember[], projectId: string): ProjectStats {
+  const members = todos.filter(todo => belongsToProject(todo, projectId));
+  const completed = members.filter(todo => todo.completed).length;
+  return {
+    total: members.length,
+    completed,
+    completionRate: members.length > 0 ? Math.round((completed / members.length) * 100) : 0,
+  };
+}
+
+// Validate stored projects, dropping malformed ones; the Inbox is always present and first
+export function reviveProjects(value: unknown): Project[] {
+  const projects: Project[] = [];
+  if (Array.isArray(value)) {
+    value.forEach(item => {
+      if (!item || typeof item !== 'object') return;
+      const raw = item as Record<string, unknown>;
+      if (typeof raw.id !== 'string' || typeof raw.name !== 'string' || !raw.name.trim()) return;
+      if (projects.some(project => project.id === raw.id)) return;
+      projects.push({
+        id: raw.id,
+        name: raw.name.slice(0, MAX_PROJECT_NAME_LENGTH),
+        color: typeof raw.color === 'string' && /^#[0-9a-f]{6}$/i.test(raw.color) ? raw.color : PROJECT_COLORS[0],
+        defaultCategory: typeof raw.defaultCategory === 'string' && raw.defaultCategory ? raw.defaultCategory : 'General',
+      });
+    });
+  }
+
+  const inbox = projects.find(project => project.id === DEFAULT_PROJECT_ID) || DEFAULT_PROJECT;
+  return [inbox, ...projects.filter(project => project.id !== DEFAULT_PROJECT_ID)];
+}
@@ -0,0 +1,312 @@
+// Quick-add syntax: fields typed straight into the task text, e.g.
+// "Pay rent tomorrow 9am #Personal !high every month"
+
+import { RecurrenceRule, Weekday, WEEKDAYS, addMonths } from './recurrence';
+
+export type QuickAddField = 'dueDate' | 'category' | 'priority' | 'recurrence';
+
+export type QuickAddPriority = 'low' | 'medium' | 'high';
+
+// A recognised piece of the input, by character range, for highlighting
+export interface QuickAddToken {
+  field: QuickAddField;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface QuickAddResult {
+  // The input with every recognised token removed
+  text: string;
+  dueDate?: Date;
+  // False when only a day was given, so the due date is at midnight
+  hasDueTime: boolean;
+  category?: string;
+  priority?: QuickAddPriority;
+  recurrence?: RecurrenceRule;
+  tokens: QuickAddToken[];
+}
+
+const PRIORITY_ALIASES: Record<string, QuickAddPriority> = {
+  high: 'high',
+  h: 'high',
+  medium: 'medium',
+  med: 'medium',
+  m: 'medium',
+  low: 'low',
+  l: 'low',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const MONTH_PATTERN = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+const WEEKDAY_NAME_PATTERN = 'monday|tuesday|wednesday|thursday|friday|saturday|sunday';
+
+// Abbreviations such as "sun" or "wed" are only recognised after "on", "next" or "every"
+const WEEKDAY_PATTERN = 'mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?';
+
+const UNIT_FREQUENCIES: Record<string, RecurrenceRule['freq']> = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY',
+};
+
+const DEFAULT_TONIGHT_HOUR = 20;
+
+// Tokens are whole words: preceded by the start or a space, followed by the end, a space or punctuation
+function tokenPattern(body: string): RegExp {
+  return new RegExp(`(^|\\s)(${body})(?=$|\\s|[,.;])`, 'gi');
+}
+
+function toWeekday(name: string): Weekday {
+  return name.slice(0, 2).toUpperCase() as Weekday;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+// The next day falling on weekday, today included unless strictlyAfter is set
+function nextWeekday(now: Date, weekday: Weekday, strictlyAfter: boolean = false): Date {
+  const today = startOfDay(now);
+  let days = (WEEKDAYS.indexOf(weekday) - today.getDay() + 7) % 7;
+  if (days === 0 && strictlyAfter) days = 7;
+  return addDays(today, days);
+}
+
+function parseAmount(value: string): number {
+  return /^(a|an|one)$/i.test(value) ? 1 : parseInt(value, 10);
+}
+
+// A day of the year without a year: this year, or next year once it has passed
+function upcomingDate(now: Date, month: number, day: number): Date | null {
+  const today = startOfDay(now);
+  let date = new Date(today.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  if (date < today) date = new Date(today.getFullYear() + 1, month, day);
+  return date;
+}
+
+function to24Hour(hour: number, meridiem?: string): number | null {
+  if (!meridiem) return hour <= 23 ? hour : null;
+  if (hour < 1 || hour > 12) return null;
+  const isPm = meridiem.toLowerCase() === 'pm';
+  return (hour % 12) + (isPm ? 12 : 0);
+}
+
+function parseRecurrence(phrase: string): RecurrenceRule | null {
+  const text = phrase.toLowerCase().replace(/\s+/g, ' ');
+  const shorthand: Record<string, RecurrenceRule['freq']> = {
+    daily: 'DAILY',
+    weekly: 'WEEKLY',
+    monthly: 'MONTHLY',
+    yearly: 'YEARLY',
+    annually: 'YEARLY',
+  };
+  if (shorthand[text]) return { freq: shorthand[text], interval: 1 };
+
+  if (/^every weekdays?$/.test(text)) {
+    return { freq: 'WEEKLY', interval: 1, byDay: ['MO', 'TU', 'WE', 'TH', 'FR'] };
+  }
+
+  const units = text.match(/^every (other |\d+ )?(day|week|month|year)s?$/);
+  if (units) {
+    const interval = units[1] === 'other ' ? 2 : units[1] ? parseInt(units[1], 10) : 1;
+    return interval > 0 ? { freq: UNIT_FREQUENCIES[units[2]], interval } : null;
+  }
+
+  const days = text.match(new RegExp(`^every ((?:${WEEKDAY_PATTERN})(?:(?:, ?| and )(?:${WEEKDAY_PATTERN}))*)$`));
+  if (days) {
+    const byDay = Array.from(new Set(days[1].split(/, ?| and /).map(toWeekday)));
+    return { freq: 'WEEKLY', interval: 1, byDay };
+  }
+
+  return null;
+}
+
+// Parse a day phrase ("tomorrow", "on friday", "in 3 days", "oct 25", "2026-10-25")
+function parseDay(phrase: string, now: Date): Date | null {
+  const text = phrase.toLowerCase().replace(/\s+/g, ' ').replace(/^on /, '');
+  const today = startOfDay(now);
+
+  if (text === 'today' || text === 'tonight') return today;
+  if (text === 'tomorrow' || text === 'tmr' || text === 'tmrw') return addDays(today, 1);
+
+  const weekday = text.match(new RegExp(`^(next )?(${WEEKDAY_PATTERN})$`));
+  if (weekday) return nextWeekday(now, toWeekday(weekday[2]), true);
+
+  const relative = text.match(/^in (\d+|a|an|one) (day|week|month)s?$/);
+  if (relative) {
+    const amount = parseAmount(relative[1]);
+    if (relative[2] === 'day') return addDays(today, amount);
+    if (relative[2] === 'week') return addDays(today, amount * 7);
+    return addMonths(today, amount);
+  }
+
+  if (text === 'next week') return addDays(today, 7);
+  if (text === 'next month') return addMonths(today, 1);
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return date.getMonth() === Number(iso[2]) - 1 ? date : null;
+  }
+
+  const monthFirst = text.match(new RegExp(`^(${MONTH_PATTERN}) (\\d{1,2})(?:st|nd|rd|th)?$`));
+  if (monthFirst) return upcomingDate(now, MONTHS.indexOf(monthFirst[1].slice(0, 3)), Number(monthFirst[2]));
+
+  const dayFirst = text.match(new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)? (${MONTH_PATTERN})$`));
+  if (dayFirst) return upcomingDate(now, MONTHS.indexOf(dayFirst[2].slice(0, 3)), Number(dayFirst[1]));
+
+  return null;
+}
+
+// Parse a time phrase ("9am", "at 14:30", "noon") into hours and minutes
+function parseTime(phrase: string): { hours: number; minutes: number } | null {
+  const text = phrase.toLowerCase().replace(/^(at |@)/, '').replace(/\s+/g, '');
+  if (text === 'noon') return { hours: 12, minutes: 0 };
+  if (text === 'midnight') return { hours: 0, minutes: 0 };
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const hours = to24Hour(Number(match[1]), match[3]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  if (hours === null || minutes > 59) return null;
+  return { hours, minutes };
+}
+
+const RECURRENCE_PATTERN = [
+  'daily|weekly|monthly|yearly|annually',
+  'every\\s+weekdays?',
+  'every\\s+(?:other\\s+|\\d+\\s+)?(?:day|week|month|year)s?',
+  `every\\s+(?:${WEEKDAY_PATTERN})(?:(?:,\\s?|\\s+and\\s+)(?:${WEEKDAY_PATTERN}))*`,
+].join('|');
+
+const DAY_PATTERN = [
+  'today|tonight|tomorrow|tmrw?',
+  `(?:on\\s+|next\\s+)(?:${WEEKDAY_PATTERN})`,
+  `(?:on\\s+)?(?:${WEEKDAY_NAME_PATTERN})`,
+  'in\\s+(?:\\d+|an?|one)\\s+(?:day|week|month)s?',
+  'next\\s+(?:week|month)',
+  '(?:on\\s+)?\\d{4}-\\d{2}-\\d{2}',
+  `(?:on\\s+)?(?:${MONTH_PATTERN})\\s+\\d{1,2}(?:st|nd|rd|th)?`,
+  `(?:on\\s+)?\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTH_PATTERN})`,
+].join('|');
+
+const TIME_PATTERN = [
+  '(?:at\\s+|@)?(?:noon|midnight)',
+  '(?:at\\s+|@)?\\d{1,2}(?::\\d{2})?\\s?(?:am|pm)',
+  '(?:at\\s+|@)?\\d{1,2}:\\d{2}',
+].join('|');
+
+// Parse the quick-add syntax out of a task's text. Only the first token of
+// each kind is used; anything unrecognised stays part of the title.
+export function parseQuickAdd(input: string, now: Date = new Date(), categories: string[] = []): QuickAddResult {
+  const tokens: QuickAddToken[] = [];
+  const result: Omit<QuickAddResult, 'text' | 'tokens'> = { hasDueTime: false };
+
+  const overlaps = (start: number, end: number) => tokens.some(token => start < token.end && end > token.start);
+
+  // Record the first match of pattern that handle accepts
+  const claim = (field: QuickAddField, pattern: RegExp, handle: (text: string) => boolean) => {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(input)) !== null) {
+      const start = match.index + match[1].length;
+      const end = start + match[2].length;
+      if (overlaps(start, end) || !handle(match[2])) continue;
+      tokens.push({ field, start, end, text: match[2] });
+      return true;
+    }
+    return false;
+  };
+
+  claim('priority', tokenPattern('!(?:high|h|medium|med|m|low|l)'), text => {
+    result.priority = PRIORITY_ALIASES[text.slice(1).toLowerCase()];
+    return true;
+  });
+
+  claim('category', tokenPattern('#[^\\s#!,.;]+'), text => {
+    const name = text.slice(1);
+    result.category = categories.find(category => category.toLowerCase() === name.toLowerCase()) || name;
+    return true;
+  });
+
+  claim('recurrence', tokenPattern(RECURRENCE_PATTERN), text => {
+    const rule = parseRecurrence(text);
+    if (rule) result.recurrence = rule;
+    return !!rule;
+  });
+
+  let day: Date | null = null;
+  let isTonight = false;
+  claim('dueDate', tokenPattern(DAY_PATTERN), text => {
+    day = parseDay(text, now);
+    isTonight = /^tonight$/i.test(text);
+    return !!day;
+  });
+
+  let time: { hours: number; minutes: number } | null = null;
+  claim('dueDate', tokenPattern(TIME_PATTERN), text => {
+    time = parseTime(text);
+    return !!time;
+  });
+  if (!time && isTonight) time = { hours: DEFAULT_TONIGHT_HOUR, minutes: 0 };
+
+  let dueDay = day as Date | null;
+  const dueTime = time as { hours: number; minutes: number } | null;
+
+  // A weekly rule on given days starts on the first of them; today only
+  // counts while the given time is still ahead
+  if (!dueDay && result.recurrence?.byDay) {
+    const todayPassed = !!dueTime && now.getHours() * 60 + now.getMinutes() >= dueTime.hours * 60 + dueTime.minutes;
+    const from = todayPassed ? addDays(now, 1) : now;
+    dueDay = result.recurrence.byDay
+      .map(weekday => nextWeekday(from, weekday))
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+
+  if (dueTime) {
+    const due = new Date(dueDay || startOfDay(now));
+    due.setHours(dueTime.hours, dueTime.minutes, 0, 0);
+    // A time on its own means the next time the clock reads it
+    if (!dueDay && due <= now) due.setDate(due.getDate() + 1);
+    result.dueDate = due;
+    result.hasDueTime = true;
+  } else if (dueDay) {
+    result.dueDate = dueDay;
+  }
+
+  tokens.sort((a, b) => a.start - b.start);
+
+  let text = '';
+  let position = 0;
+  tokens.forEach(token => {
+    text += input.slice(position, token.start);
+    position = token.end;
+  });
+  text += input.slice(position);
+
+  return { ...result, text: text.replace(/\s+/g, ' ').replace(/\s+([,.;])/g, '$1').trim(), tokens };
+}
+
+// Split the input into plain and token segments, in order, for highlighting
+export function segmentQuickAdd(input: string, tokens: QuickAddToken[]): { text: string; field?: QuickAddField }[] {
+  const segments: { text: string; field?: QuickAddField }[] = [];
+  let position = 0;
+  tokens.forEach(token => {
+    if (token.start > position) segments.push({ text: input.slice(position, token.start) });
+    segments.push({ text: input.slice(token.start, token.end), field: token.field });
+    position = token.end;
+  });
+  if (position < input.length) segments.push({ text: input.slice(position) });
+  return segments;
+}
@@ -0,0 +1,256 @@
+// Recurring task schedules: a subset of RFC 5545 RRULE (FREQ, INTERVAL, BYDAY, UNTIL, COUNT)
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // Only used by DAILY and WEEKLY rules
+  byDay?: Weekday[];
+  // Last day on which an occurrence may fall (inclusive)
+  until?: Date;
+  // Total number of occurrences, including the first one
+  count?: number;
+  // Only used by MONTHLY and YEARLY rules: the day of the month the series started on,
+  // so a series on the 31st returns to it after being clamped to a shorter month
+  anchorDay?: number;
+}
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Ordered as Date.getDay() numbers them, Sunday first
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+// Guards the day-by-day search for rules that can never match
+const MAX_SEARCH_DAYS = 366 * 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+// Add months, clamping to the last day of shorter months (Jan 31 + 1 month = Feb 28/29).
+// RFC 5545 would skip those months instead; clamping keeps a monthly task from vanishing.
+// `day` is the day of the month to aim for, when it isn't the one `date` falls on.
+export function addMonths(date: Date, months: number, day: number = date.getDate()): Date {
+  const next = new Date(date);
+  next.setDate(1);
+  next.setMonth(next.getMonth() + months);
+  const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(Math.min(day, lastDay));
+  return next;
+}
+
+// Monday of the week containing date (RRULE weeks start on Monday by default)
+function startOfWeek(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+function weeksBetween(from: Date, to: Date): number {
+  return Math.round((startOfWeek(to).getTime() - startOfWeek(from).getTime()) / (7 * DAY_MS));
+}
+
+function daysBetween(from: Date, to: Date): number {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+// Date of the occurrence after `from`, or null when the rule has run out.
+// `occurrence` is the 1-based index of the occurrence at `from`, used for COUNT.
+export function getNextOccurrence(rule: RecurrenceRule, from: Date, occurrence: number = 1): Date | null {
+  if (rule.count !== undefined && occurrence >= rule.count) {
+    return null;
+  }
+
+  const interval = Math.max(1, Math.floor(rule.interval) || 1);
+  const byDay = rule.byDay && rule.byDay.length > 0 ? new Set(rule.byDay) : null;
+  let next: Date | null = null;
+
+  switch (rule.freq) {
+    case 'DAILY':
+    case 'WEEKLY': {
+      if (!byDay) {
+        next = addDays(from, rule.freq === 'DAILY' ? interval : interval * 7);
+        break;
+      }
+      // Walk forward to the next allowed weekday inside an active day/week
+      for (let offset = 1; offset <= MAX_SEARCH_DAYS; offset++) {
+        const candidate = addDays(from, offset);
+        const period = rule.freq === 'DAILY' ? daysBetween(from, candidate) : weeksBetween(from, candidate);
+        if (period % interval === 0 && byDay.has(WEEKDAYS[candidate.getDay()])) {
+          next = candidate;
+          break;
+        }
+      }
+      break;
+    }
+    case 'MONTHLY':
+      next = addMonths(from, interval, rule.anchorDay);
+      break;
+    case 'YEARLY':
+      next = addMonths(from, interval * 12, rule.anchorDay);
+      break;
+  }
+
+  if (!next || (rule.until && next > endOfDay(rule.until))) {
+    return null;
+  }
+  return next;
+}
+
+// The rule for the occurrences after `from`, remembering the day of the month a monthly
+// or yearly series is on. Only days a shorter month can cut short need remembering.
+export function anchorRecurrence(rule: RecurrenceRule, from: Date): RecurrenceRule {
+  if (rule.anchorDay !== undefined || (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') || from.getDate() <= 28) {
+    return rule;
+  }
+  return { ...rule, anchorDay: from.getDate() };
+}
+
+// Serialize to an RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay && rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.until) {
+    const until = rule.until;
+    const pad = (value: number) => String(value).padStart(2, '0');
+    parts.push(`UNTIL=${until.getFullYear()}${pad(until.getMonth() + 1)}${pad(until.getDate())}`);
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+// Parse an RRULE value (with or without the "RRULE:" prefix). Returns null when
+// the rule is malformed or uses parts outside the supported subset.
+export function parseRRule(value: string): RecurrenceRule | null {
+  const source = value.trim().replace(/^RRULE:/i, '');
+  if (!source) return null;
+
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of source.split(';')) {
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    const val = rawValue?.trim().toUpperCase();
+    if (!key || !val) return null;
+
+    switch (key) {
+      case 'FREQ':
+        if (!RECURRENCE_FREQUENCIES.includes(val as RecurrenceFrequency)) return null;
+        rule.freq = val as RecurrenceFrequency;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(val);
+        if (!Number.isInteger(interval) || interval < 1) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        const days = val.split(',');
+        if (days.some(day => !WEEKDAYS.includes(day as Weekday))) return null;
+        rule.byDay = days as Weekday[];
+        break;
+      }
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(val);
+        if (!match) return null;
+        rule.until = endOfDay(new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(val);
+        if (!Number.isInteger(count) || count < 1) return null;
+        rule.count = count;
+        break;
+      }
+      case 'WKST':
+        // Weeks always start on Monday here, which is the RRULE default
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!rule.freq) return null;
+  return rule as RecurrenceRule;
+}
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Wed until Dec 31, 2026"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = FREQUENCY_UNITS[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.byDay && rule.byDay.length > 0 && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) {
+    text += ` on ${rule.byDay.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.until) {
+    text += ` until ${new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(rule.until)}`;
+  }
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  }
+  return text;
+}
+
+// Validate a stored rule; returns null if it is malformed
+export function reviveRecurrence(value: unknown): RecurrenceRule | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+
+  if (!RECURRENCE_FREQUENCIES.includes(raw.freq as RecurrenceFrequency)) return null;
+  if (typeof raw.interval !== 'number' || !Number.isInteger(raw.interval) || raw.interval < 1) return null;
+
+  const rule: RecurrenceRule = { freq: raw.freq as RecurrenceFrequency, interval: raw.interval };
+
+  if (raw.byDay !== undefined) {
+    if (!Array.isArray(raw.byDay) || raw.byDay.some(day => !WEEKDAYS.includes(day as Weekday))) return null;
+    rule.byDay = raw.byDay as Weekday[];
+  }
+  if (raw.until !== undefined && raw.until !== null) {
+    const until = new Date(raw.until as string);
+    if (isNaN(until.getTime())) return null;
+    rule.until = until;
+  }
+  if (raw.count !== undefined && raw.count !== null) {
+    if (typeof raw.count !== 'number' || !Number.isInteger(raw.count) || raw.count < 1) return null;
+    rule.count = raw.count;
+  }
+  if (raw.anchorDay !== undefined && raw.anchorDay !== null) {
+    if (typeof raw.anchorDay !== 'number' || !Number.isInteger(raw.anchorDay) || raw.anchorDay < 1 || raw.anchorDay > 31) return null;
+    rule.anchorDay = raw.anchorDay;
+  }
+
+  return rule;
+}
@@ -0,0 +1,169 @@
+// Task reminders: absolute times or offsets before the due date, plus snoozing
+
+export type Reminder =
+  | { id: string; type: 'absolute'; at: Date; firedAt?: Date; snoozedUntil?: Date }
+  | { id: string; type: 'offset'; minutesBefore: number; firedAt?: Date; snoozedUntil?: Date };
+
+export interface ReminderOffsetPreset {
+  label: string;
+  minutesBefore: number;
+}
+
+export const REMINDER_OFFSET_PRESETS: ReminderOffsetPreset[] = [
+  { label: 'At due time', minutesBefore: 0 },
+  { label: '15 minutes before', minutesBefore: 15 },
+  { label: '1 hour before', minutesBefore: 60 },
+  { label: '1 day before', minutesBefore: 24 * 60 },
+  { label: '1 week before', minutesBefore: 7 * 24 * 60 },
+];
+
+export const DEFAULT_SNOOZE_MINUTES = 10;
+
+// Reminders missed while the app was closed are still shown on the next visit
+// if they are at most this old; older ones are marked as fired silently
+export const MISSED_REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface RemindableTodo {
+  id: string;
+  text: string;
+  completed: boolean;
+  dueDate?: Date;
+  reminders?: Reminder[];
+}
+
+export interface DueReminder<T extends RemindableTodo = RemindableTodo> {
+  todo: T;
+  reminder: Reminder;
+  time: Date;
+}
+
+// When the reminder should fire, or null if it cannot (offset without a due date)
+export function getReminderTime(reminder: Reminder, dueDate?: Date): Date | null {
+  if (reminder.snoozedUntil) return new Date(reminder.snoozedUntil);
+  if (reminder.type === 'absolute') return new Date(reminder.at);
+  if (!dueDate) return null;
+  return new Date(new Date(dueDate).getTime() - reminder.minutesBefore * 60 * 1000);
+}
+
+function isPending(reminder: Reminder): boolean {
+  // A snooze re-arms a reminder that already fired
+  return !reminder.firedAt || (!!reminder.snoozedUntil && new Date(reminder.snoozedUntil) > new Date(reminder.firedAt));
+}
+
+// Every pending reminder of an open task, in firing order
+export function getScheduledReminders<T extends RemindableTodo>(todos: T[]): DueReminder<T>[] {
+  const scheduled: DueReminder<T>[] = [];
+  todos.forEach(todo => {
+    if (todo.completed) return;
+    (todo.reminders || []).forEach(reminder => {
+      if (!isPending(reminder)) return;
+      const time = getReminderTime(reminder, todo.dueDate);
+      if (time) scheduled.push({ todo, reminder, time });
+    });
+  });
+  return scheduled.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+export function getDueReminders<T extends RemindableTodo>(todos: T[], now: Date = new Date()): DueReminder<T>[] {
+  return getScheduledReminders(todos).filter(({ time }) => time <= now);
+}
+
+export function getNextReminderTime(todos: RemindableTodo[], now: Date = new Date()): Date | null {
+  return getScheduledReminders(todos).find(({ time }) => time > now)?.time ?? null;
+}
+
+export function describeReminder(reminder: Reminder): string {
+  if (reminder.type === 'absolute') {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(new Date(reminder.at));
+  }
+
+  const preset = REMINDER_OFFSET_PRESETS.find(p => p.minutesBefore === reminder.minutesBefore);
+  if (preset) return preset.label;
+
+  const minutes = reminder.minutesBefore;
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} days before`;
+  if (minutes % 60 === 0) return `${minutes / 60} hours before`;
+  return `${minutes} minutes before`;
+}
+
+// Offsets follow the due date, so moving it re-arms them
+export function rearmOffsetReminders(reminders: Reminder[] = []): Reminder[] {
+  return reminders.map(reminder =>
+    reminder.type === 'offset' ? { ...reminder, firedAt: undefined, snoozedUntil: undefined } : reminder
+  );
+}
+
+// Validate stored reminders; returns null if any reminder is malformed
+export function reviveReminders(value: unknown): Reminder[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const reviveOptionalDate = (raw: unknown): Date | undefined | null => {
+    if (raw === undefined || raw === null) return undefined;
+    const date = new Date(raw as string);
+    return isNaN(date.getTime()) ? null : date;
+  };
+
+  const reminders: Reminder[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return null;
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.id !== 'string') return null;
+
+    const firedAt = reviveOptionalDate(raw.firedAt);
+    const snoozedUntil = reviveOptionalDate(raw.snoozedUntil);
+    if (firedAt === null || snoozedUntil === null) return null;
+
+    if (raw.type === 'absolute') {
+      const at = reviveOptionalDate(raw.at);
+      if (!at) return null;
+      reminders.push({ id: raw.id, type: 'absolute', at, firedAt, snoozedUntil });
+    } else if (raw.type === 'offset') {
+      if (typeof raw.minutesBefore !== 'number' || raw.minutesBefore < 0) return null;
+      reminders.push({ id: raw.id, type: 'offset', minutesBefore: raw.minutesBefore, firedAt, snoozedUntil });
+    } else {
+      return null;
+    }
+  }
+  return reminders;
+}
+
+// Browser integration
+
+export const REMINDER_SERVICE_WORKER_URL = '/reminder-sw.js';
+
+// Message posted by the service worker when a notification action is clicked
+export const REMINDER_ACTION_MESSAGE = 'novatask-reminder-action';
+
+export type ReminderAction = 'open' | 'snooze' | 'complete';
+
+export function isNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+// Ask for permission only when the user sets up a reminder, never on page load
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!isNotificationSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return 'denied';
+  }
+}
+
+// Resolves once the worker is active, since showNotification needs an active worker
+export async function registerReminderServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+  try {
+    await navigator.serviceWorker.register(REMINDER_SERVICE_WORKER_URL);
+    return await navigator.serviceWorker.ready;
+  } catch (error) {
+    console.error('Failed to register reminder service worker:', error);
+    return null;
+  }
+}
@@ -0,0 +1,421 @@
+// Task search: a small query language over every task field, backed by a word index.
+//
+//   milk "weekly report"   words (prefix matched) and exact phrases
+//   priority:high  p:low   priority
+//   cat:Work  tag:urgent   category and tag, quoted for spaces: cat:"Side project"
+//   due:today  due:<7d  due:>=2026-11-01  due:none
+//   is:overdue  is:done  is:open  is:blocked  is:ready  is:recurring  is:running
+//   has:notes  has:subtasks  has:tags  has:due  has:reminders  has:estimate
+//   -term                  excludes matches; "done" on its own is short for is:done
+
+import { Todo, TodoPriority } from './todo-store';
+import { Subtask } from './subtasks';
+import { isBlocked, isReady } from './dependencies';
+import { getRunningEntry } from './time-tracking';
+import { daysFromToday, isOverdue } from './due-dates';
+
+export type TaskState = 'overdue' | 'done' | 'open' | 'blocked' | 'ready' | 'recurring' | 'running';
+
+export type TaskProperty = 'notes' | 'subtasks' | 'tags' | 'due' | 'reminders' | 'estimate';
+
+export type DueComparison = '<' | '<=' | '>' | '>=' | '=';
+
+export type DueFilter =
+  | { type: 'none' }
+  | { type: 'overdue' }
+  // Whole days from today (negative for the past) compared against the due day
+  | { type: 'day'; comparison: DueComparison; offsetDays: number }
+  | { type: 'date'; comparison: DueComparison; date: Date };
+
+type SearchTermBody =
+  | { kind: 'text'; value: string; phrase: boolean }
+  | { kind: 'priority'; priority: TodoPriority }
+  | { kind: 'category'; value: string }
+  | { kind: 'tag'; value: string }
+  | { kind: 'due'; due: DueFilter }
+  | { kind: 'is'; state: TaskState }
+  | { kind: 'has'; property: TaskProperty };
+
+// One condition of a query, with its character range in the query text
+export type SearchTerm = SearchTermBody & { negated: boolean; start: number; end: number };
+
+// Where in the query a parse error is, so the search box can point at it
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface SearchIndex {
+  // Every indexed word, sorted for prefix lookups
+  words: string[];
+  postings: Map<string, Set<string>>;
+  // All searchable text of each todo, normalised, for phrase matching
+  documents: Map<string, string>;
+}
+
+export interface SearchContext {
+  // The full todo list, for blockers that live outside the todos being searched
+  todos: Todo[];
+  now?: Date;
+}
+
+const PRIORITIES: TodoPriority[] = ['low', 'medium', 'high'];
+const TASK_STATES: TaskState[] = ['overdue', 'done', 'open', 'blocked', 'ready', 'recurring', 'running'];
+const TASK_PROPERTIES: TaskProperty[] = ['notes', 'subtasks', 'tags', 'due', 'reminders', 'estimate'];
+
+const FIELD_ALIASES: Record<string, 'priority' | 'category' | 'tag' | 'due' | 'is' | 'has'> = {
+  priority: 'priority',
+  p: 'priority',
+  category: 'category',
+  cat: 'category',
+  tag: 'tag',
+  due: 'due',
+  is: 'is',
+  has: 'has',
+};
+
+const STATE_ALIASES: Record<string, TaskState> = {
+  completed: 'done',
+  active: 'open',
+};
+
+const UNIT_DAYS: Record<string, number> = { d: 1, w: 7, m: 30 };
+
+// Lowercase and strip accents so "Café" is found by "cafe"
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Normalised one UTF-16 unit at a time, so offsets line up with the original text
+function normalizeAligned(text: string): string {
+  return text.split('').map(char => normalizeSearchText(char).charAt(0) || char).join('');
+}
+
+function tokenize(text: string): string[] {
+  return normalizeSearchText(text).split(/[^a-z0-9\u00c0-\uffff]+/).filter(Boolean);
+}
+
+function collectSubtaskText(subtasks: Subtask[] = []): string[] {
+  return subtasks.flatMap(subtask => [subtask.text, ...collectSubtaskText(subtask.subtasks)]);
+}
+
+function getSearchableText(todo: Todo): string {
+  return [todo.text, todo.notes || '', todo.category, ...(todo.tags || []), ...collectSubtaskText(todo.subtasks)].join('\n');
+}
+
+export function buildSearchIndex(todos: Todo[]): SearchIndex {
+  const postings = new Map<string, Set<string>>();
+  const documents = new Map<string, string>();
+
+  todos.forEach(todo => {
+    const text = getSearchableText(todo);
+    documents.set(todo.id, normalizeSearchText(text));
+    tokenize(text).forEach(word => {
+      if (!postings.has(word)) postings.set(word, new Set());
+      postings.get(word)!.add(todo.id);
+    });
+  });
+
+  return { words: Array.from(postings.keys()).sort(), postings, documents };
+}
+
+// Ids of todos containing a word that starts with prefix
+function lookupPrefix(index: SearchIndex, prefix: string): Set<string> {
+  const ids = new Set<string>();
+  let low = 0;
+  let high = index.words.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.words[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  for (let i = low; i < index.words.length && index.words[i].startsWith(prefix); i++) {
+    index.postings.get(index.words[i])!.forEach(id => ids.add(id));
+  }
+  return ids;
+}
+
+// Ids of todos matching a text term: every word as a prefix, or the exact phrase
+function lookupText(index: SearchIndex, term: { value: string; phrase: boolean }): Set<string> {
+  if (term.phrase) {
+    const phrase = normalizeSearchText(term.value);
+    return new Set(Array.from(index.documents).filter(([, text]) => text.includes(phrase)).map(([id]) => id));
+  }
+
+  const words = tokenize(term.value);
+  if (words.length === 0) return new Set(index.documents.keys());
+  return words
+    .map(word => lookupPrefix(index, word))
+    .reduce((matches, ids) => new Set(Array.from(matches).filter(id => ids.has(id))));
+}
+
+function parseDue(value: string): DueFilter | null {
+  const text = value.toLowerCase();
+  if (text === 'none') return { type: 'none' };
+  if (text === 'overdue') return { type: 'overdue' };
+
+  const match = text.match(/^(<=|>=|<|>|=)?(.+)$/);
+  if (!match) return null;
+  const comparison = (match[1] || '=') as DueComparison;
+  const operand = match[2];
+
+  if (operand === 'today') return { type: 'day', comparison, offsetDays: 0 };
+  if (operand === 'tomorrow') return { type: 'day', comparison, offsetDays: 1 };
+  if (operand === 'yesterday') return { type: 'day', comparison, offsetDays: -1 };
+
+  const relative = operand.match(/^(-?\d+)([dwm])$/);
+  if (relative) {
+    return { type: 'day', comparison, offsetDays: Number(relative[1]) * UNIT_DAYS[relative[2]] };
+  }
+
+  const iso = operand.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    if (date.getMonth() === Number(iso[2]) - 1) return { type: 'date', comparison, date };
+  }
+
+  return null;
+}
+
+// Turn field:value into a term, or explain what is wrong with it
+function parseField(name: string, value: string): SearchTermBody | string {
+  const field = FIELD_ALIASES[name.toLowerCase()];
+  if (!field) {
+    return `Unknown field "${name}:". Use priority:, cat:, tag:, due:, is: or has:, or put the text in quotes`;
+  }
+  if (!value) {
+    return `Missing value after "${name}:"`;
+  }
+
+  const lower = value.toLowerCase();
+  switch (field) {
+    case 'priority':
+      if (!PRIORITIES.includes(lower as TodoPriority)) {
+        return `Unknown priority "${value}". Use high, medium or low`;
+      }
+      return { kind: 'priority', priority: lower as TodoPriority };
+
+    case 'category':
+      return { kind: 'category', value };
+
+    case 'tag':
+      return { kind: 'tag', value: lower.replace(/^#/, '') };
+
+    case 'due': {
+      const due = parseDue(value);
+      if (!due) {
+        return `Invalid due date "${value}". Use e.g. today, tomorrow, <7d, >=2w, 2026-10-31, overdue or none`;
+      }
+      return { kind: 'due', due };
+    }
+
+    case 'is': {
+      const state = STATE_ALIASES[lower] || lower;
+      if (!TASK_STATES.includes(state as TaskState)) {
+        return `Unknown state "${value}". Use ${TASK_STATES.join(', ')}`;
+      }
+      return { kind: 'is', state: state as TaskState };
+    }
+
+    case 'has':
+      if (!TASK_PROPERTIES.includes(lower as TaskProperty)) {
+        return `Unknown property "${value}". Use ${TASK_PROPERTIES.join(', ')}`;
+      }
+      return { kind: 'has', property: lower as TaskProperty };
+  }
+}
+
+// Read a quoted string starting at the opening quote; returns its text and the index after the closing quote
+function readQuoted(input: string, start: number): { value: string; next: number } | null {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) return null;
+  return { value: input.slice(start + 1, close), next: close + 1 };
+}
+
+// Parse a search query into terms that must all match. Malformed queries
+// return an error describing the first problem instead of throwing.
+export function parseSearchQuery(input: string): { terms: SearchTerm[] } | { error: SearchQueryError } {
+  const terms: SearchTerm[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === '-';
+    if (negated) {
+      i++;
+      if (i >= input.length || /\s/.test(input[i])) {
+        return { error: { message: 'Expected a term after "-"', start, end: i } };
+      }
+    }
+
+    if (input[i] === '"') {
+      const quoted = readQuoted(input, i);
+      if (!quoted) return { error: { message: 'Missing closing quote', start: i, end: input.length } };
+      i = quoted.next;
+      if (quoted.value.trim()) {
+        terms.push({ kind: 'text', value: quoted.value, phrase: true, negated, start, end: i });
+      }
+      continue;
+    }
+
+    const wordStart = i;
+    while (i < input.length && !/\s/.test(input[i]) && input[i] !== '"') i++;
+    const word = input.slice(wordStart, i);
+    const field = word.match(/^([a-z]+):(.*)$/i);
+
+    if (!field) {
+      if (word.toLowerCase() === 'done') {
+        terms.push({ kind: 'is', state: 'done', negated, start, end: i });
+      } else {
+        terms.push({ kind: 'text', value: word, phrase: false, negated, start, end: i });
+      }
+      continue;
+    }
+
+    let value = field[2];
+    // field:"quoted value"
+    if (!value && input[i] === '"') {
+      const quoted = readQuoted(input, i);
+      if (!quoted) return { error: { message: 'Missing closing quote', start: i, end: input.length } };
+      value = quoted.value;
+      i = quoted.next;
+    }
+
+    const parsed = parseField(field[1], value.trim());
+    if (typeof parsed === 'string') return { error: { message: parsed, start, end: i } };
+    terms.push({ ...parsed, negated, start, end: i });
+  }
+
+  return { terms };
+}
+
+function compareDays(due: number, comparison: DueComparison, target: number): boolean {
+  switch (comparison) {
+    case '<': return due < target;
+    case '<=': return due <= target;
+    case '>': return due > target;
+    case '>=': return due >= target;
+    default: return due === target;
+  }
+}
+
+function matchesDue(todo: Todo, filter: DueFilter, now: Date): boolean {
+  if (filter.type === 'none') return !todo.dueDate;
+  if (!todo.dueDate) return false;
+
+  const due = new Date(todo.dueDate);
+  if (filter.type === 'overdue') return isOverdue(todo, now);
+
+  // Compare calendar days counted from today, or from the day asked for
+  return filter.type === 'date'
+    ? compareDays(daysFromToday(due, filter.date), filter.comparison, 0)
+    : compareDays(daysFromToday(due, now), filter.comparison, filter.offsetDays);
+}
+
+function matchesState(todo: Todo, state: TaskState, context: SearchContext, now: Date): boolean {
+  switch (state) {
+    case 'overdue': return matchesDue(todo, { type: 'overdue' }, now);
+    case 'done': return todo.completed;
+    case 'open': return !todo.completed;
+    case 'blocked': return !todo.completed && isBlocked(todo, context.todos);
+    case 'ready': return isReady(todo, context.todos);
+    case 'recurring': return !!todo.recurrence;
+    case 'running': return !!getRunningEntry(todo.timeEntries);
+  }
+}
+
+function hasProperty(todo: Todo, property: TaskProperty): boolean {
+  switch (property) {
+    case 'notes': return !!todo.notes;
+    case 'subtasks': return !!todo.subtasks?.length;
+    case 'tags': return !!todo.tags?.length;
+    case 'due': return !!todo.dueDate;
+    case 'reminders': return !!todo.reminders?.length;
+    case 'estimate': return !!todo.estimateMinutes;
+  }
+}
+
+// Todos matching every term, in their original order
+export function searchTodos(todos: Todo[], terms: SearchTerm[], index: SearchIndex, context: SearchContext): Todo[] {
+  if (terms.length === 0) return todos;
+
+  const now = context.now ?? new Date();
+  // Text terms are resolved against the index once rather than per todo
+  const textMatches = terms.map(term => (term.kind === 'text' ? lookupText(index, term) : null));
+
+  return todos.filter(todo =>
+    terms.every((term, i) => {
+      let matches: boolean;
+      switch (term.kind) {
+        case 'text': matches = textMatches[i]!.has(todo.id); break;
+        case 'priority': matches = todo.priority === term.priority; break;
+        case 'category': matches = todo.category.toLowerCase() === term.value.toLowerCase(); break;
+        case 'tag': matches = !!todo.tags?.includes(term.value); break;
+        case 'due': matches = matchesDue(todo, term.due, now); break;
+        case 'is': matches = matchesState(todo, term.state, context, now); break;
+        case 'has': matches = hasProperty(todo, term.property); break;
+      }
+      return matches !== term.negated;
+    })
+  );
+}
+
+// The words and phrases a result should be highlighted with
+export function getHighlightTerms(terms: SearchTerm[]): string[] {
+  return terms.flatMap(term => {
+    if (term.kind !== 'text' || term.negated) return [];
+    return term.phrase ? [normalizeSearchText(term.value)] : tokenize(term.value);
+  });
+}
+
+// Split text into plain and matching segments. Words match at the start of a
+// word, as in the search itself; matching ignores case and accents.
+export function highlightMatches(text: string, highlights: string[]): { text: string; match: boolean }[] {
+  if (highlights.length === 0 || !text) return [{ text, match: false }];
+
+  const normalized = normalizeAligned(text);
+  const ranges: [number, number][] = [];
+
+  highlights.forEach(term => {
+    let from = 0;
+    let found: number;
+    while (term && (found = normalized.indexOf(term, from)) !== -1) {
+      const atWordStart = found === 0 || !/[a-z0-9]/.test(normalized[found - 1]);
+      if (atWordStart || term.includes(' ')) ranges.push([found, found + term.length]);
+      from = found + term.length;
+    }
+  });
+  if (ranges.length === 0) return [{ text, match: false }];
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const segments: { text: string; match: boolean }[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    if (end <= position) return;
+    const from = Math.max(start, position);
+    if (from > position) segments.push({ text: text.slice(position, from), match: false });
+    segments.push({ text: text.slice(from, end), match: true });
+    position = end;
+  });
+  if (position < text.length) segments.push({ text: text.slice(position), match: false });
+  return segments;
+}
+
+// A short excerpt of text around its first match, or null if nothing matches
+export function getMatchSnippet(text: string | undefined, highlights: string[], radius: number = 40): string | null {
+  if (!text || highlights.length === 0) return null;
+  const normalized = normalizeAligned(text);
+  const positions = highlights.map(term => normalized.indexOf(term)).filter(position => position !== -1);
+  if (positions.length === 0) return null;
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,122 @@
+// Smart views: date-based views over open tasks from every list, computed from dueDate.
+// All comparisons take an explicit "now" so views can be refreshed when the day rolls over.
+
+import { daysFromToday, formatDateInput, getDueDeadline, isOverdue, startOfDay } from './due-dates';
+
+export type SmartViewId = 'today' | 'upcoming' | 'overdue' | 'someday';
+
+export interface SmartView {
+  id: SmartViewId;
+  name: string;
+  icon: string;
+  color: string;
+  description: string;
+  // Shown when the view has no tasks
+  emptyTitle: string;
+  emptyDescription: string;
+}
+
+export const SMART_VIEWS: SmartView[] = [
+  {
+    id: 'today', name: 'Today', icon: '☀️', color: '#eab308', description: 'Due today or overdue',
+    emptyTitle: 'Nothing due today', emptyDescription: 'Enjoy the free time, or pick something from Someday.',
+  },
+  {
+    id: 'upcoming', name: 'Upcoming', icon: '🗓️', color: '#3b82f6', description: 'Due in the next 7 days',
+    emptyTitle: 'A clear week ahead', emptyDescription: 'Tasks due in the next 7 days show up here, grouped by day.',
+  },
+  {
+    id: 'overdue', name: 'Overdue', icon: '⏰', color: '#ef4444', description: 'Past their due date',
+    emptyTitle: 'Nothing overdue', emptyDescription: 'You are all caught up.',
+  },
+  {
+    id: 'someday', name: 'Someday', icon: '💭', color: '#14b8a6', description: 'No due date',
+    emptyTitle: 'No undated tasks', emptyDescription: 'Open tasks without a due date collect here.',
+  },
+];
+
+export const UPCOMING_DAYS = 7;
+
+interface DatedTodo {
+  completed: boolean;
+  dueDate?: Date;
+  dueAllDay?: boolean;
+}
+
+export interface DayGroup<T> {
+  // Local calendar day, e.g. "2026-10-19"
+  key: string;
+  label: string;
+  todos: T[];
+}
+
+export function isSmartViewId(value: unknown): value is SmartViewId {
+  return SMART_VIEWS.some(view => view.id === value);
+}
+
+export function getSmartView(id: SmartViewId): SmartView {
+  return SMART_VIEWS.find(view => view.id === id) || SMART_VIEWS[0];
+}
+
+export function matchesSmartView(todo: DatedTodo, viewId: SmartViewId, now: Date): boolean {
+  if (todo.completed) return false;
+  if (viewId === 'someday') return !todo.dueDate;
+  if (!todo.dueDate) return false;
+
+  const due = new Date(todo.dueDate);
+  switch (viewId) {
+    case 'today': return daysFromToday(due, now) <= 0;
+    case 'overdue': return isOverdue(todo, now);
+    default: {
+      const days = daysFromToday(due, now);
+      return days >= 0 && days < UPCOMING_DAYS;
+    }
+  }
+}
+
+export function countSmartViews(todos: DatedTodo[], now: Date): Record<SmartViewId, number> {
+  const counts: Record<SmartViewId, number> = { today: 0, upcoming: 0, overdue: 0, someday: 0 };
+  todos.forEach(todo => {
+    SMART_VIEWS.forEach(view => {
+      if (matchesSmartView(todo, view.id, now)) counts[view.id]++;
+    });
+  });
+  return counts;
+}
+
+// "Today", "Tomorrow", then weekday and date
+export function formatDayLabel(date: Date, now: Date): string {
+  const days = daysFromToday(date, now);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return new Intl.DateTimeFormat('en-US', { weekday: 'long', month: 'short', day: 'numeric' }).format(date);
+}
+
+// Groups in day order; todos keep their given order within a day
+export function groupByDueDay<T extends DatedTodo>(todos: T[], now: Date): DayGroup<T>[] {
+  const groups = new Map<string, DayGroup<T> & { day: number }>();
+  todos.forEach(todo => {
+    if (!todo.dueDate) return;
+    const due = new Date(todo.dueDate);
+    const key = formatDateInput(due);
+    const group = groups.get(key);
+    if (group) {
+      group.todos.push(todo);
+    } else {
+      groups.set(key, { key, label: formatDayLabel(due, now), todos: [todo], day: startOfDay(due).getTime() });
+    }
+  });
+  return Array.from(groups.values())
+    .sort((a, b) => a.day - b.day)
+    .map(({ key, label, todos: grouped }) => ({ key, label, todos: grouped }));
+}
+
+// When the views next change on their own: local midnight or the next open task becoming overdue
+export function getNextViewChange(todos: DatedTodo[], now: Date): Date {
+  let next = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  todos.forEach(todo => {
+    const deadline = todo.completed ? null : getDueDeadline(todo);
+    if (deadline && deadline > now && deadline < next) next = deadline;
+  });
+  return next;
+}
@@ -0,0 +1,119 @@
+// Sort modes for the task list. Sorting only changes what is shown: the stored
+// (manual, drag-and-drop) order is never modified and is the final tie-breaker.
+
+export type SortMode = 'manual' | 'dueDate' | 'priority' | 'createdAt' | 'alphabetical' | 'category';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TodoSort {
+  mode: SortMode;
+  direction: SortDirection;
+}
+
+export interface SortModeOption {
+  mode: SortMode;
+  label: string;
+  defaultDirection: SortDirection;
+  // How each direction reads for this mode, e.g. "Soonest first"
+  directionLabels: Record<SortDirection, string>;
+}
+
+export const SORT_MODES: SortModeOption[] = [
+  { mode: 'manual', label: 'Manual order', defaultDirection: 'asc', directionLabels: { asc: 'As arranged', desc: 'Reversed' } },
+  { mode: 'dueDate', label: 'Due date', defaultDirection: 'asc', directionLabels: { asc: 'Soonest first', desc: 'Latest first' } },
+  { mode: 'priority', label: 'Priority', defaultDirection: 'desc', directionLabels: { asc: 'Low first', desc: 'High first' } },
+  { mode: 'createdAt', label: 'Date created', defaultDirection: 'desc', directionLabels: { asc: 'Oldest first', desc: 'Newest first' } },
+  { mode: 'alphabetical', label: 'Alphabetical', defaultDirection: 'asc', directionLabels: { asc: 'A to Z', desc: 'Z to A' } },
+  { mode: 'category', label: 'Category', defaultDirection: 'asc', directionLabels: { asc: 'A to Z', desc: 'Z to A' } },
+];
+
+export const DEFAULT_SORT: TodoSort = { mode: 'manual', direction: 'asc' };
+
+interface SortableTodo {
+  text: string;
+  priority: 'low' | 'medium' | 'high';
+  category: string;
+  dueDate?: Date;
+  createdAt: Date;
+}
+
+type Comparator<T> = (a: T, b: T) => number;
+
+const PRIORITY_RANK: Record<SortableTodo['priority'], number> = { low: 0, medium: 1, high: 2 };
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+// Todos without a due date go last whichever way the list is sorted
+const byDueDate = (direction: SortDirection): Comparator<SortableTodo> => (a, b) => {
+  if (!a.dueDate || !b.dueDate) return (a.dueDate ? 0 : 1) - (b.dueDate ? 0 : 1);
+  const diff = new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+  return direction === 'asc' ? diff : -diff;
+};
+
+const byPriority = (direction: SortDirection): Comparator<SortableTodo> => (a, b) => {
+  const diff = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+  return direction === 'asc' ? diff : -diff;
+};
+
+const byCreatedAt = (direction: SortDirection): Comparator<SortableTodo> => (a, b) => {
+  const diff = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  return direction === 'asc' ? diff : -diff;
+};
+
+const byText = (direction: SortDirection): Comparator<SortableTodo> => (a, b) => {
+  const diff = collator.compare(a.text, b.text);
+  return direction === 'asc' ? diff : -diff;
+};
+
+const byCategory = (direction: SortDirection): Comparator<SortableTodo> => (a, b) => {
+  const diff = collator.compare(a.category, b.category);
+  return direction === 'asc' ? diff : -diff;
+};
+
+// Primary key first, then secondary keys in their natural direction
+function getComparators(sort: TodoSort): Comparator<SortableTodo>[] {
+  switch (sort.mode) {
+    case 'dueDate': return [byDueDate(sort.direction), byPriority('desc')];
+    case 'priority': return [byPriority(sort.direction), byDueDate('asc')];
+    case 'createdAt': return [byCreatedAt(sort.direction)];
+    case 'alphabetical': return [byText(sort.direction)];
+    case 'category': return [byCategory(sort.direction), byPriority('desc'), byDueDate('asc')];
+    default: return [];
+  }
+}
+
+// A sorted copy of todos; ties keep their manual order
+export function sortTodos<T extends SortableTodo>(todos: T[], sort: TodoSort): T[] {
+  if (sort.mode === 'manual') {
+    return sort.direction === 'asc' ? todos : [...todos].reverse();
+  }
+
+  const comparators = getComparators(sort);
+  return todos
+    .map((todo, index) => ({ todo, index }))
+    .sort((a, b) => {
+      for (const compare of comparators) {
+        const result = compare(a.todo, b.todo);
+        if (result !== 0) return result;
+      }
+      return a.index - b.index;
+    })
+    .map(({ todo }) => todo);
+}
+
+// Drag and drop only makes sense while the list shows the stored order
+export function isManualSort(sort: TodoSort): boolean {
+  return sort.mode === 'manual' && sort.direction === 'asc';
+}
+
+export function getSortModeOption(mode: SortMode): SortModeOption {
+  return SORT_MODES.find(option => option.mode === mode) || SORT_MODES[0];
+}
+
+export function reviveSort(value: unknown): TodoSort {
+  if (!value || typeof value !== 'object') return DEFAULT_SORT;
+  const raw = value as Record<string, unknown>;
+  const option = SORT_MODES.find(candidate => candidate.mode === raw.mode);
+  if (!option) return DEFAULT_SORT;
+  return { mode: option.mode, direction: raw.direction === 'desc' ? 'desc' : 'asc' };
+}
@@ -1,4 +1,5 @@
-import { useCallback, useMemo, useRef, useEffect, useState, createContext, useContext } from 'react';
+import React, { useCallback, useMemo, useRef, useEffect, useState, createContext, useContext } from 'react';
+import { getStorageAdapter } from './storage-adapter';
 
 // State management optimization utilities
 
@@ -175,23 +176,30 @@ export function useOptimizedPersistence<T>(
     compress = false,
   } = options;
 
-  const [state, setState] = useState<T>(() => {
-    try {
-      const stored = localStorage.getItem(key);
-      if (stored) {
-        return deserialize(stored);
-      }
-    } catch (error) {
-      console.error(`Error loading state from localStorage:`, error);
-    }
-    return initialState;
-  });
-
+  const [state, setState] = useState<T>(initialState);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const hasChanged = useRef(false);
+
+  // The storage backend is async, so the stored state replaces the initial one once read
+  useEffect(() => {
+    let cancelled = false;
+    getStorageAdapter()
+      .then(storage => storage.getItem(key))
+      .then(stored => {
+        if (stored && !cancelled && !hasChanged.current) {
+          setState(deserialize(stored));
+        }
+      })
+      .catch(error => console.error(`Error loading state from storage:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [key, deserialize]);
 
   const optimizedSetState = useCallback((
     newState: T | ((prev: T) => T)
   ) => {
+    hasChanged.current = true;
     setState(prev => {
       const resolvedState = typeof newState === 'function' ? (newState as (prev: T) => T)(prev) : newState;
       
@@ -201,14 +209,11 @@ export function useOptimizedPersistence<T>(
       }
 
       timeoutRef.current = setTimeout(() => {
-        try {
-          const serialized = compress 
+        getStorageAdapter()
+          .then(storage => storage.setItem(key, compress
             ? compressData(serialize(resolvedState))
-            : serialize(resolvedState);
-          localStorage.setItem(key, serialized);
-        } catch (error) {
-          console.error(`Error saving state to localStorage:`, error);
-        }
+            : serialize(resolvedState)))
+          .catch(error => console.error(`Error saving state to storage:`, error));
       }, debounce);
 
       return resolvedState;
@@ -255,84 +260,147 @@ export function useValidatedState<T>(
 }
 
 // State history for undo/redo functionality
+
+export interface HistoryEntry<T> {
+  state: T;
+  // What the change did, e.g. 'delete "Buy milk"'
+  label: string;
+}
+
+export interface HistoryStack<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export interface HistoryStep<T> {
+  state: T;
+  label: string;
+  stack: HistoryStack<T>;
+}
+
+export function createHistoryStack<T>(): HistoryStack<T> {
+  return { past: [], future: [] };
+}
+
+// Record the state as it was before a change; a new change discards anything that could be redone
+export function pushHistory<T>(stack: HistoryStack<T>, previous: T, label: string, maxHistory: number = 50): HistoryStack<T> {
+  return { past: [...stack.past, { state: previous, label }].slice(-maxHistory), future: [] };
+}
+
+// The state to go back to and the updated stack, or null when there is nothing to undo
+export function undoHistory<T>(stack: HistoryStack<T>, present: T): HistoryStep<T> | null {
+  const entry = stack.past[stack.past.length - 1];
+  if (!entry) return null;
+  return {
+    state: entry.state,
+    label: entry.label,
+    stack: { past: stack.past.slice(0, -1), future: [{ state: present, label: entry.label }, ...stack.future] },
+  };
+}
+
+export function redoHistory<T>(stack: HistoryStack<T>, present: T): HistoryStep<T> | null {
+  const [entry, ...future] = stack.future;
+  if (!entry) return null;
+  return {
+    state: entry.state,
+    label: entry.label,
+    stack: { past: [...stack.past, { state: present, label: entry.label }], future },
+  };
+}
+
 export function useStateHistory<T>(
   initialState: T,
   maxHistory: number = 50
 ): [T, (state: T | ((prev: T) => T)) => void, () => void, () => void, () => T[]] {
-  const [state, setState] = useState(initialState);
-  const [history, setHistory] = useState<T[]>([initialState]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  // Present state and stack live together so every update sees both at once
+  const [{ present, stack }, setHistoryState] = useState(() => ({
+    present: initialState,
+    stack: createHistoryStack<T>(),
+  }));
 
   const updateState = useCallback((
     newState: T | ((prev: T) => T)
   ) => {
-    setState(prev => {
-      const resolvedState = typeof newState === 'function' ? (newState as (prev: T) => T)(prev) : newState;
-      
-      if (resolvedState !== prev) {
-        const newHistory = history.slice(0, currentIndex + 1);
-        newHistory.push(resolvedState);
-        
-        // Limit history size
-        if (newHistory.length > maxHistory) {
-          newHistory.shift();
-        } else {
-          setCurrentIndex(newHistory.length - 1);
-        }
-        
-        setHistory(newHistory);
-      }
-      
-      return resolvedState;
+    setHistoryState(prev => {
+      const resolvedState = typeof newState === 'function' ? (newState as (prev: T) => T)(prev.present) : newState;
+      if (resolvedState === prev.present) return prev;
+      return { present: resolvedState, stack: pushHistory(prev.stack, prev.present, '', maxHistory) };
     });
-  }, [history, currentIndex, maxHistory]);
+  }, [maxHistory]);
 
   const undo = useCallback(() => {
-    if (currentIndex > 0) {
-      const newIndex = currentIndex - 1;
-      setCurrentIndex(newIndex);
-      setState(history[newIndex]);
-    }
-  }, [currentIndex, history]);
+    setHistoryState(prev => {
+      const step = undoHistory(prev.stack, prev.present);
+      return step ? { present: step.state, stack: step.stack } : prev;
+    });
+  }, []);
 
   const redo = useCallback(() => {
-    if (currentIndex < history.length - 1) {
-      const newIndex = currentIndex + 1;
-      setCurrentIndex(newIndex);
-      setState(history[newIndex]);
-    }
-  }, [currentIndex, history]);
+    setHistoryState(prev => {
+      const step = redoHistory(prev.stack, prev.present);
+      return step ? { present: step.state, stack: step.stack } : prev;
+    });
+  }, []);
 
-  const getHistory = useCallback(() => [...history], [history]);
+  const getHistory = useCallback(
+    () => [...stack.past.map(entry => entry.state), present, ...stack.future.map(entry => entry.state)],
+    [stack, present]
+  );
 
-  return [state, updateState, undo, redo, getHistory];
+  return [present, updateState, undo, redo, getHistory];
 }
 
 // Optimized context state management
-export function createOptimizedContext<T>(
+type ContextUpdate<T, A> =
+  | { kind: 'set'; state: T | ((prev: T) => T) }
+  | { kind: 'dispatch'; action: A };
+
+export function createOptimizedContext<T, A = never>(
   defaultValue: T,
   options: {
     selector?: (state: T) => unknown;
     equalityFn?: (a: unknown, b: unknown) => boolean;
+    reducer?: (state: T, action: A) => T;
+    batch?: boolean;
   } = {}
 ) {
-  const { selector = state => state, equalityFn = Object.is } = options;
+  const { selector = state => state, equalityFn = Object.is, reducer, batch = false } = options;
 
   const Context = createContext<{
     state: T;
     setState: (state: T | ((prev: T) => T)) => void;
+    dispatch: (action: A) => void;
   }>({
     state: defaultValue,
     setState: () => {},
+    dispatch: () => {},
   });
 
-  const Provider = ({ children }: { children: React.ReactNode }) => {
-    const [state, setState] = useState(defaultValue);
+  // Plain setState calls and reducer actions share one update path so that
+  // action batching keeps them in the order they were issued
+  const applyUpdate = (prev: T, update: ContextUpdate<T, A>): T => {
+    if (update.kind === 'set') {
+      return typeof update.state === 'function' ? (update.state as (prev: T) => T)(prev) : update.state;
+    }
+    return reducer ? reducer(prev, update.action) : prev;
+  };
+
+  const Provider = ({ children, initialState = defaultValue }: { children: React.ReactNode; initialState?: T }) => {
+    const [state, update] = useOptimizedReducer(applyUpdate, initialState, { batch });
+
+    const setState = useCallback((next: T | ((prev: T) => T)) => {
+      update({ kind: 'set', state: next });
+    }, [update]);
+
+    const dispatch = useCallback((action: A) => {
+      update({ kind: 'dispatch', action });
+    }, [update]);
 
     const contextValue = useMemo(() => ({
       state,
       setState,
-    }), [state]);
+      dispatch,
+    }), [state, setState, dispatch]);
 
     return React.createElement(Context.Provider, { value: contextValue }, children);
   };
@@ -0,0 +1,216 @@
+// Pluggable storage backends for NovaTask data
+
+export type StorageBackend = 'localStorage' | 'indexedDB';
+
+// Preference for which backend holds large data; "auto" picks IndexedDB when available
+export type StorageBackendPreference = StorageBackend | 'auto';
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export const STORAGE_BACKEND_KEY = 'novatask-storage-backend';
+
+// Keys that live in the selected backend: the tasks and everything kept through
+// useLocalStorage. The backend preference itself stays in localStorage.
+export const MIGRATABLE_STORAGE_KEYS = [
+  'novatask-todos',
+  'novatask-todos-quarantine',
+  'novatask-todo-history',
+  'novatask-draft',
+  'novatask-filter-history',
+  'novatask-filter-presets',
+  'novatask-sort',
+  'novatask-smart-view',
+];
+
+// localStorage wrapped in the async adapter interface
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'localStorage';
+
+  static isAvailable(): boolean {
+    try {
+      const test = '__localStorage_test__';
+      localStorage.setItem(test, test);
+      localStorage.removeItem(test);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Object.keys(localStorage);
+  }
+}
+
+// Key/value store on top of a single IndexedDB object store
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'indexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string = 'novatask',
+    private readonly storeName: string = 'keyval'
+  ) {}
+
+  static isAvailable(): boolean {
+    return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error(`Failed to open IndexedDB "${this.dbName}"`));
+        request.onblocked = () => reject(new Error(`IndexedDB "${this.dbName}" is blocked by another tab`));
+      });
+      // Allow a later call to retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run('readonly', store => store.getAllKeys());
+    return keys.map(String);
+  }
+}
+
+export function getStorageBackendPreference(): StorageBackendPreference {
+  try {
+    const saved = localStorage.getItem(STORAGE_BACKEND_KEY);
+    if (saved === 'localStorage' || saved === 'indexedDB' || saved === 'auto') {
+      return saved;
+    }
+  } catch {
+    // Fall through to the default when localStorage itself is unavailable
+  }
+  return 'auto';
+}
+
+function createAdapter(preference: StorageBackendPreference): StorageAdapter {
+  if (preference !== 'localStorage' && IndexedDBAdapter.isAvailable()) {
+    return new IndexedDBAdapter();
+  }
+  return new LocalStorageAdapter();
+}
+
+// Copy the migratable keys from one backend to another, removing them from the
+// source only once every key has been written to the target
+export async function migrateStorage(
+  from: StorageAdapter,
+  to: StorageAdapter,
+  keys: string[] = MIGRATABLE_STORAGE_KEYS
+): Promise<string[]> {
+  if (from.backend === to.backend) return [];
+
+  const moved: string[] = [];
+  for (const key of keys) {
+    const value = await from.getItem(key);
+    if (value === null) continue;
+    // Data already written to the target is newer than anything left behind
+    if ((await to.getItem(key)) === null) {
+      await to.setItem(key, value);
+    }
+    moved.push(key);
+  }
+
+  for (const key of moved) {
+    await from.removeItem(key);
+  }
+
+  return moved;
+}
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+let fallbackError: Error | null = null;
+
+// Resolve the active adapter, moving any keys still left in localStorage over
+// when IndexedDB is selected. Once moved they are gone from localStorage, so
+// after the first run this only finds keys added to the list since.
+export function getStorageAdapter(): Promise<StorageAdapter> {
+  if (!adapterPromise) {
+    adapterPromise = (async () => {
+      const adapter = createAdapter(getStorageBackendPreference());
+      if (adapter.backend === 'localStorage') {
+        return adapter;
+      }
+
+      try {
+        await migrateStorage(new LocalStorageAdapter(), adapter);
+        return adapter;
+      } catch (error) {
+        // IndexedDB can be unusable (e.g. private browsing); keep data in localStorage
+        fallbackError = error instanceof Error ? error : new Error(String(error));
+        return new LocalStorageAdapter();
+      }
+    })();
+  }
+  return adapterPromise;
+}
+
+// Why IndexedDB couldn't be used when getStorageAdapter fell back to localStorage
+export function getStorageFallbackError(): Error | null {
+  return fallbackError;
+}
+
+// Switch the backend used for large data, moving existing data across
+export async function setStorageBackend(preference: StorageBackendPreference): Promise<StorageAdapter> {
+  const current = await getStorageAdapter();
+  const next = createAdapter(preference);
+
+  await migrateStorage(current, next);
+  localStorage.setItem(STORAGE_BACKEND_KEY, preference);
+
+  adapterPromise = Promise.resolve(next);
+  return next;
+}
@@ -0,0 +1,162 @@
+// Subtask tree helpers: lookup, updates, progress and auto-completion rules
+
+export interface Subtask {
+  id: string;
+  text: string;
+  completed: boolean;
+  subtasks?: Subtask[];
+}
+
+// Depth 1 is a subtask of the todo itself; depth 2 is a subtask of a subtask, and so on
+export const MAX_SUBTASK_DEPTH = 3;
+
+export interface SubtaskProgress {
+  total: number;
+  completed: number;
+  percent: number;
+}
+
+// Count every subtask in the tree, at all levels
+export function getSubtaskProgress(subtasks: Subtask[] = []): SubtaskProgress {
+  let total = 0;
+  let completed = 0;
+
+  const visit = (items: Subtask[]) => {
+    items.forEach(item => {
+      total++;
+      if (item.completed) completed++;
+      if (item.subtasks) visit(item.subtasks);
+    });
+  };
+
+  visit(subtasks);
+
+  return {
+    total,
+    completed,
+    percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+  };
+}
+
+// Depth of the subtask with the given id (1 for direct children), or 0 when missing
+export function getSubtaskDepth(subtasks: Subtask[] = [], id: string, depth: number = 1): number {
+  for (const item of subtasks) {
+    if (item.id === id) return depth;
+    const nested = getSubtaskDepth(item.subtasks, id, depth + 1);
+    if (nested) return nested;
+  }
+  return 0;
+}
+
+// Mark a subtask and all of its descendants with the same completion state
+export function setSubtreeCompleted(subtask: Subtask, completed: boolean): Subtask {
+  return {
+    ...subtask,
+    completed,
+    subtasks: subtask.subtasks?.map(child => setSubtreeCompleted(child, completed)),
+  };
+}
+
+// A parent with children is complete exactly when all of its children are
+function applyParentRule(subtask: Subtask): Subtask {
+  if (!subtask.subtasks || subtask.subtasks.length === 0) return subtask;
+  const completed = subtask.subtasks.every(child => child.completed);
+  return completed === subtask.completed ? subtask : { ...subtask, completed };
+}
+
+// Rebuild the tree, replacing the subtask with the given id. Ancestors of the
+// changed subtask are re-evaluated so completion propagates upwards.
+function mapSubtask(
+  subtasks: Subtask[],
+  id: string,
+  update: (subtask: Subtask) => Subtask | null
+): { subtasks: Subtask[]; found: boolean } {
+  let found = false;
+  const next: Subtask[] = [];
+
+  for (const item of subtasks) {
+    if (found) {
+      next.push(item);
+      continue;
+    }
+
+    if (item.id === id) {
+      found = true;
+      const updated = update(item);
+      if (updated) next.push(updated);
+      continue;
+    }
+
+    if (item.subtasks) {
+      const result = mapSubtask(item.subtasks, id, update);
+      if (result.found) {
+        found = true;
+        next.push(applyParentRule({ ...item, subtasks: result.subtasks }));
+        continue;
+      }
+    }
+
+    next.push(item);
+  }
+
+  return { subtasks: next, found };
+}
+
+export function addSubtask(subtasks: Subtask[] = [], subtask: Subtask, parentId?: string): Subtask[] {
+  if (!parentId) return [...subtasks, subtask];
+
+  if (getSubtaskDepth(subtasks, parentId) >= MAX_SUBTASK_DEPTH) {
+    return subtasks;
+  }
+
+  return mapSubtask(subtasks, parentId, parent =>
+    // A new open child reopens a completed parent
+    ({ ...parent, completed: parent.completed && subtask.completed, subtasks: [...(parent.subtasks || []), subtask] })
+  ).subtasks;
+}
+
+export function updateSubtask(subtasks: Subtask[] = [], id: string, changes: Partial<Omit<Subtask, 'id' | 'subtasks'>>): Subtask[] {
+  return mapSubtask(subtasks, id, subtask => {
+    const updated = { ...subtask, ...changes };
+    return changes.completed !== undefined && changes.completed !== subtask.completed
+      ? setSubtreeCompleted(updated, changes.completed)
+      : updated;
+  }).subtasks;
+}
+
+export function toggleSubtask(subtasks: Subtask[] = [], id: string): Subtask[] {
+  return mapSubtask(subtasks, id, subtask => setSubtreeCompleted(subtask, !subtask.completed)).subtasks;
+}
+
+export function removeSubtask(subtasks: Subtask[] = [], id: string): Subtask[] {
+  return mapSubtask(subtasks, id, () => null).subtasks;
+}
+
+// Whether the todo owning these subtasks should be complete, or undefined when
+// there are no subtasks to decide it
+export function deriveParentCompletion(subtasks: Subtask[] = []): boolean | undefined {
+  if (subtasks.length === 0) return undefined;
+  return subtasks.every(subtask => subtask.completed);
+}
+
+// Validate a stored subtask tree; returns null if any node is malformed
+export function reviveSubtasks(value: unknown, depth: number = 1): Subtask[] | null {
+  if (!Array.isArray(value) || depth > MAX_SUBTASK_DEPTH) return null;
+
+  const subtasks: Subtask[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return null;
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.id !== 'string' || typeof raw.text !== 'string') return null;
+
+    let children: Subtask[] | undefined;
+    if (raw.subtasks !== undefined) {
+      const revived = reviveSubtasks(raw.subtasks, depth + 1);
+      if (!revived) return null;
+      children = revived;
+    }
+
+    subtasks.push({ id: raw.id, text: raw.text, completed: raw.completed === true, subtasks: children });
+  }
+  return subtasks;
+}
@@ -0,0 +1,76 @@
+// Tag helpers: normalisation, lookup, counting and filtering
+
+export const MAX_TAG_LENGTH = 32;
+export const MAX_TAGS_PER_TODO = 10;
+
+export type TagMatchMode = 'any' | 'all';
+
+interface Taggable {
+  tags?: string[];
+}
+
+// Tags are stored lowercase without a leading "#", with whitespace collapsed to dashes
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// Add a tag, ignoring blanks, duplicates and anything past the per-task limit
+export function addTag(tags: string[] = [], tag: string): string[] {
+  const normalized = normalizeTag(tag);
+  if (!normalized || tags.includes(normalized) || tags.length >= MAX_TAGS_PER_TODO) {
+    return tags;
+  }
+  return [...tags, normalized];
+}
+
+export function removeTag(tags: string[] = [], tag: string): string[] {
+  return tags.filter(existing => existing !== tag);
+}
+
+// Every tag in use, alphabetically
+export function collectTags(todos: Taggable[]): string[] {
+  return Array.from(new Set(todos.flatMap(todo => todo.tags || []))).sort();
+}
+
+// Number of todos carrying each tag
+export function countTodosByTag(todos: Taggable[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  todos.forEach(todo => {
+    (todo.tags || []).forEach(tag => {
+      counts[tag] = (counts[tag] || 0) + 1;
+    });
+  });
+  return counts;
+}
+
+// With no selected tags every todo matches
+export function matchesTags(todo: Taggable, selected: string[], mode: TagMatchMode = 'any'): boolean {
+  if (selected.length === 0) return true;
+  const tags = todo.tags || [];
+  return mode === 'all'
+    ? selected.every(tag => tags.includes(tag))
+    : selected.some(tag => tags.includes(tag));
+}
+
+// Existing tags starting with (or containing) the input, excluding ones already chosen
+export function suggestTags(input: string, available: string[], chosen: string[] = [], limit: number = 5): string[] {
+  const query = normalizeTag(input);
+  if (!query) return [];
+
+  const candidates = available.filter(tag => !chosen.includes(tag) && tag.includes(query));
+  return [
+    ...candidates.filter(tag => tag.startsWith(query)),
+    ...candidates.filter(tag => !tag.startsWith(query)),
+  ].slice(0, limit);
+}
+
+// Validate stored tags; returns null if the value is not a list of strings
+export function reviveTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) return null;
+  return (value as string[]).reduce<string[]>((tags, tag) => addTag(tags, tag), []);
+}
@@ -0,0 +1,141 @@
+// Time tracking: timer sessions, manual entries, estimates and per-category totals
+
+export interface TimeEntry {
+  id: string;
+  start: Date;
+  // Missing while the timer for this session is still running
+  end?: Date;
+  // Entered by hand rather than recorded by the timer
+  manual?: boolean;
+}
+
+export interface TimeSummary {
+  actualMs: number;
+  estimateMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Longest single manual entry or estimate we accept (one week)
+export const MAX_TRACKED_MINUTES = 7 * 24 * 60;
+
+export function getRunningEntry(entries: TimeEntry[] = []): TimeEntry | undefined {
+  return entries.find(entry => !entry.end);
+}
+
+export function getEntryDuration(entry: TimeEntry, now: Date = new Date()): number {
+  const end = entry.end ? new Date(entry.end) : now;
+  return Math.max(0, end.getTime() - new Date(entry.start).getTime());
+}
+
+export function getTrackedMs(entries: TimeEntry[] = [], now: Date = new Date()): number {
+  return entries.reduce((total, entry) => total + getEntryDuration(entry, now), 0);
+}
+
+// Open a new session unless one is already running
+export function startSession(entries: TimeEntry[] = [], id: string, at: Date): TimeEntry[] {
+  if (getRunningEntry(entries)) return entries;
+  return [...entries, { id, start: at }];
+}
+
+// Close the running session, if any
+export function closeSession(entries: TimeEntry[] = [], at: Date): TimeEntry[] {
+  if (!getRunningEntry(entries)) return entries;
+  return entries.map(entry => (entry.end ? entry : { ...entry, end: at }));
+}
+
+// "1h 05m", "25m", "45s" for short spans
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / MINUTE_MS);
+  if (totalMinutes === 0) {
+    return ms > 0 ? `${Math.floor(ms / 1000)}s` : '0m';
+  }
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+}
+
+// Stopwatch style "1:05:09" / "05:09" for a running timer
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+// Parse "90", "1:30", "1h 30m", "1.5h" or "45m" into minutes; null when unreadable
+export function parseDuration(input: string): number | null {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+
+  let minutes: number | null = null;
+
+  if (/^\d+$/.test(value)) {
+    minutes = Number(value);
+  } else if (/^\d+:\d{1,2}$/.test(value)) {
+    const [hours, mins] = value.split(':').map(Number);
+    minutes = mins < 60 ? hours * 60 + mins : null;
+  } else {
+    const match = /^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:utes?)?)?)?$/.exec(value);
+    if (match && (match[1] || match[2])) {
+      minutes = Math.round(Number(match[1] || 0) * 60 + Number(match[2] || 0));
+    }
+  }
+
+  if (minutes === null || minutes <= 0 || minutes > MAX_TRACKED_MINUTES) return null;
+  return minutes;
+}
+
+interface TrackedTodo {
+  category: string;
+  estimateMinutes?: number;
+  timeEntries?: TimeEntry[];
+}
+
+// Actual vs estimated time per category; categories with neither are left out
+export function summarizeTimeByCategory(todos: TrackedTodo[], now: Date = new Date()): Record<string, TimeSummary> {
+  const summary: Record<string, TimeSummary> = {};
+
+  todos.forEach(todo => {
+    const actualMs = getTrackedMs(todo.timeEntries, now);
+    const estimateMs = (todo.estimateMinutes || 0) * MINUTE_MS;
+    if (actualMs === 0 && estimateMs === 0) return;
+
+    const totals = summary[todo.category] || (summary[todo.category] = { actualMs: 0, estimateMs: 0 });
+    totals.actualMs += actualMs;
+    totals.estimateMs += estimateMs;
+  });
+
+  return summary;
+}
+
+export function minutesToMs(minutes: number): number {
+  return minutes * MINUTE_MS;
+}
+
+// Validate stored entries; returns null if any entry is malformed
+export function reviveTimeEntries(value: unknown): TimeEntry[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const entries: TimeEntry[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return null;
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.id !== 'string') return null;
+
+    const start = new Date(raw.start as string);
+    if (isNaN(start.getTime())) return null;
+
+    let end: Date | undefined;
+    if (raw.end !== undefined && raw.end !== null) {
+      end = new Date(raw.end as string);
+      if (isNaN(end.getTime()) || end < start) return null;
+    }
+
+    entries.push({ id: raw.id, start, end, manual: raw.manual === true ? true : undefined });
+  }
+  return entries;
+}
@@ -0,0 +1,186 @@
+// Task form values and the validation rules shared by creating and editing a task.
+// Form values are what the controls hold (strings for dates and estimates); these
+// helpers convert to and from stored tasks.
+
+import { Todo, TodoChanges, TodoPriority } from './todo-store';
+import { RecurrenceRule } from './recurrence';
+import { Reminder } from './reminders';
+import { MAX_NOTES_LENGTH } from './markdown';
+import { formatDuration, minutesToMs, parseDuration } from './time-tracking';
+import { combineDateAndTime, dueFields, formatDateInput, formatTimeInput, getDueDeadline, parseTimeInput } from './due-dates';
+
+export const MIN_TODO_TEXT_LENGTH = 3;
+export const MAX_TODO_TEXT_LENGTH = 200;
+
+export interface TodoFormValues extends Record<string, unknown> {
+  text: string;
+  notes: string;
+  priority: TodoPriority;
+  category: string;
+  tags: string[];
+  // "yyyy-mm-dd" as held by a date input, or "" for no due date
+  dueDate: string;
+  // "HH:mm", or "" for a task due any time that day
+  dueTime: string;
+  recurrence: RecurrenceRule | null;
+  estimate: string;
+  reminders: Reminder[];
+}
+
+export type TodoFormField = 'text' | 'notes' | 'priority' | 'category' | 'tags' | 'dueDate' | 'dueTime' | 'recurrence' | 'estimate' | 'reminders';
+
+export type TodoValidationRules = Record<TodoFormField, (value: unknown) => string | null>;
+
+export interface TodoValidationContext {
+  // Text left once quick-add tokens are taken out, when quick-add parsing is on
+  text?: string;
+  // Due date the task will get, which may come from quick-add rather than the date field
+  dueDate?: Date;
+  dueAllDay?: boolean;
+  // An existing task may keep a due date that has since passed
+  dueUnchanged?: boolean;
+}
+
+export function createTodoValidationRules(context: TodoValidationContext = {}): TodoValidationRules {
+  return {
+    text: (value: unknown) => {
+      const text = (context.text ?? String(value || '')).trim();
+      if (!text) {
+        return 'Task description is required';
+      }
+      if (text.length < MIN_TODO_TEXT_LENGTH) {
+        return `Task must be at least ${MIN_TODO_TEXT_LENGTH} characters`;
+      }
+      if (text.length > MAX_TODO_TEXT_LENGTH) {
+        return `Task must be less than ${MAX_TODO_TEXT_LENGTH} characters`;
+      }
+      return null;
+    },
+    notes: (value: unknown) => {
+      if (String(value || '').length > MAX_NOTES_LENGTH) {
+        return `Notes must be less than ${MAX_NOTES_LENGTH} characters`;
+      }
+      return null;
+    },
+    priority: (value: unknown) => {
+      if (!value) {
+        return 'Priority is required';
+      }
+      return null;
+    },
+    category: (value: unknown) => {
+      if (!String(value || '').trim()) {
+        return 'Category is required';
+      }
+      return null;
+    },
+    tags: () => null,
+    dueDate: () => {
+      if (!context.dueDate || context.dueUnchanged) return null;
+      const deadline = getDueDeadline({ dueDate: context.dueDate, dueAllDay: context.dueAllDay });
+      if (deadline && deadline <= new Date()) {
+        return context.dueAllDay ? 'Due date cannot be in the past' : 'Due time has already passed';
+      }
+      return null;
+    },
+    dueTime: (value: unknown) => {
+      const time = String(value || '');
+      if (time && !parseTimeInput(time)) {
+        return 'Enter the time as hh:mm';
+      }
+      if (time && !context.dueDate) {
+        return 'Pick a due date for this time';
+      }
+      return null;
+    },
+    estimate: (value: unknown) => {
+      const estimate = String(value || '');
+      if (estimate.trim() && parseDuration(estimate) === null) {
+        return 'Enter the estimate as minutes, h:mm or e.g. 1h 30m';
+      }
+      return null;
+    },
+    recurrence: (value: unknown) => {
+      const rule = value as RecurrenceRule | null;
+      if (rule?.until) {
+        const start = context.dueDate ? new Date(context.dueDate) : new Date();
+        start.setHours(0, 0, 0, 0);
+        if (rule.until < start) {
+          return 'Repeat end date must be after the due date';
+        }
+      }
+      return null;
+    },
+    reminders: (value: unknown) => {
+      const reminders = value as Reminder[];
+      if (!context.dueDate && reminders.some(reminder => reminder.type === 'offset')) {
+        return 'Reminders before the due date need a due date';
+      }
+      return null;
+    }
+  };
+}
+
+export function getTodoFormValues(todo: Todo): TodoFormValues {
+  return {
+    text: todo.text,
+    notes: todo.notes || '',
+    priority: todo.priority,
+    category: todo.category,
+    tags: todo.tags || [],
+    dueDate: todo.dueDate ? formatDateInput(todo.dueDate) : '',
+    dueTime: todo.dueDate && !todo.dueAllDay ? formatTimeInput(todo.dueDate) : '',
+    recurrence: todo.recurrence || null,
+    estimate: todo.estimateMinutes ? formatDuration(minutesToMs(todo.estimateMinutes)) : '',
+    reminders: todo.reminders || []
+  };
+}
+
+// The due date the date and time fields stand for, in the local time zone
+export function resolveFormDue(values: TodoFormValues): { dueDate: Date; dueAllDay: boolean } | undefined {
+  return combineDateAndTime(values.dueDate, values.dueTime);
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function getChangedFields(initial: TodoFormValues, values: TodoFormValues): TodoFormField[] {
+  return (Object.keys(initial) as TodoFormField[]).filter(field => !sameValue(initial[field], values[field]));
+}
+
+// Only the fields the user actually changed, so untouched fields are kept exactly as stored
+export function getTodoChanges(initial: TodoFormValues, values: TodoFormValues): TodoChanges {
+  const changes: TodoChanges = {};
+  getChangedFields(initial, values).forEach(field => {
+    switch (field) {
+      case 'text':
+        changes.text = values.text.trim();
+        break;
+      case 'notes':
+        changes.notes = values.notes.trim() ? values.notes : undefined;
+        break;
+      case 'priority':
+        changes.priority = values.priority;
+        break;
+      case 'category':
+        changes.category = values.category;
+        break;
+      case 'tags':
+        changes.tags = values.tags.length > 0 ? values.tags : undefined;
+        break;
+      case 'dueDate':
+      case 'dueTime':
+        Object.assign(changes, dueFields(resolveFormDue(values)));
+        break;
+      case 'recurrence':
+        changes.recurrence = values.recurrence || undefined;
+        break;
+      case 'estimate':
+        changes.estimateMinutes = parseDuration(values.estimate) ?? undefined;
+        break;
+      case 'reminders':
+        changes.reminders = values.reminders.length > 0 ? values.reminders : undefined;
+        break;
+    }
+  });
+  return changes;
+}
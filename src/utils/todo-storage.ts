@@ -0,0 +1,469 @@
+// Versioned persistence for the todo list stored under "novatask-todos"
+
+import { Todo, TodoHistory, TodoPriority, TodoSettings, TodoSnapshot } from './todo-store';
+import { StorageAdapter } from './storage-adapter';
+import { Subtask, reviveSubtasks } from './subtasks';
+import { RecurrenceRule, reviveRecurrence } from './recurrence';
+import { reviveTags } from './tags';
+import { reviveDependencies } from './dependencies';
+import { TimeEntry, reviveTimeEntries } from './time-tracking';
+import { Reminder, reviveReminders } from './reminders';
+import { DEFAULT_PROJECT, Project, reviveProjects } from './projects';
+import { DEFAULT_TRASH_RETENTION_DAYS, reviveRetentionDays } from './trash';
+import { HistoryEntry } from './state-optimization';
+import { inferLegacyAllDay, isValidTimeZone, reviveDueDate, toStoredDueDate } from './due-dates';
+
+export const TODOS_STORAGE_KEY = 'novatask-todos';
+export const TODOS_QUARANTINE_KEY = 'novatask-todos-quarantine';
+export const TODO_HISTORY_STORAGE_KEY = 'novatask-todo-history';
+
+// Bump this and register a migration below whenever the stored shape changes
+export const TODO_STORAGE_VERSION = 4;
+
+// What is actually written to storage
+export interface TodoStorageEnvelope {
+  version: number;
+  savedAt: string;
+  todos: unknown[];
+  projects?: unknown[];
+  trashRetentionDays?: number;
+}
+
+// A record (or whole payload) that could not be read, kept for manual recovery
+export interface QuarantinedEntry {
+  raw: unknown;
+  reason: string;
+  version?: number;
+  quarantinedAt: string;
+}
+
+export interface TodoLoadResult {
+  todos: Todo[];
+  projects: Project[];
+  trashRetentionDays: number;
+  quarantined: QuarantinedEntry[];
+  migratedFrom?: number;
+  error?: Error;
+}
+
+// What was read from storage. When the unreadable records could not be backed up,
+// backupError says why: the stored value is then their only copy.
+export interface StoredTodos extends TodoLoadResult {
+  backupError?: Error;
+}
+
+type TodoMigration = (data: unknown) => TodoStorageEnvelope;
+
+// Migration registry: the function stored under version N upgrades a payload
+// written at version N to version N + 1
+export const todoMigrations: Record<number, TodoMigration> = {
+  // v1 stored a bare array of todos without any version marker
+  1: (data) => {
+    if (!Array.isArray(data)) {
+      throw new Error('Expected a list of todos in version 1 data');
+    }
+    return { version: 2, savedAt: new Date().toISOString(), todos: data };
+  },
+  // v3 added projects; existing todos have no projectId and stay in the Inbox
+  2: (data) => {
+    const envelope = data as TodoStorageEnvelope;
+    return { ...envelope, version: 3, projects: [DEFAULT_PROJECT] };
+  },
+  // v4 told all-day due dates apart from timed ones; midnight due dates were always whole days
+  3: (data) => {
+    const envelope = data as TodoStorageEnvelope;
+    const todos = envelope.todos.map(record => {
+      const raw = record as Record<string, unknown>;
+      if (!raw || typeof raw !== 'object' || typeof raw.dueDate !== 'string' || !raw.dueDate) return record;
+      const { dueDate, dueAllDay } = inferLegacyAllDay(raw.dueDate);
+      return dueAllDay ? { ...raw, dueDate, dueAllDay } : record;
+    });
+    return { ...envelope, version: 4, todos };
+  },
+};
+
+const PRIORITIES: TodoPriority[] = ['low', 'medium', 'high'];
+
+function detectVersion(data: unknown): number {
+  if (Array.isArray(data)) return 1;
+  if (data && typeof data === 'object' && typeof (data as TodoStorageEnvelope).version === 'number') {
+    return (data as TodoStorageEnvelope).version;
+  }
+  throw new Error('Unrecognised todo storage format');
+}
+
+function reviveDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Validate one stored record and turn it back into a Todo.
+// Returns the reason the record was rejected instead of throwing.
+export function reviveTodo(record: unknown): { todo: Todo } | { reason: string } {
+  if (!record || typeof record !== 'object') {
+    return { reason: 'Record is not an object' };
+  }
+
+  const raw = record as Record<string, unknown>;
+
+  if (typeof raw.id !== 'string' || !raw.id) {
+    return { reason: 'Missing id' };
+  }
+  if (typeof raw.text !== 'string' || !raw.text.trim()) {
+    return { reason: 'Missing task text' };
+  }
+  if (raw.priority !== undefined && !PRIORITIES.includes(raw.priority as TodoPriority)) {
+    return { reason: `Unknown priority "${String(raw.priority)}"` };
+  }
+
+  const createdAt = reviveDate(raw.createdAt);
+  if (!createdAt) {
+    return { reason: 'Invalid creation date' };
+  }
+
+  let dueDate: Date | undefined;
+  const dueAllDay = raw.dueAllDay === true;
+  if (raw.dueDate !== undefined && raw.dueDate !== null && raw.dueDate !== '') {
+    const revived = reviveDueDate(raw.dueDate, dueAllDay);
+    if (!revived) {
+      return { reason: 'Invalid due date' };
+    }
+    dueDate = revived;
+  }
+
+  let subtasks: Subtask[] | undefined;
+  if (raw.subtasks !== undefined) {
+    const revived = reviveSubtasks(raw.subtasks);
+    if (!revived) {
+      return { reason: 'Invalid subtasks' };
+    }
+    subtasks = revived;
+  }
+
+  if (raw.notes !== undefined && raw.notes !== null && typeof raw.notes !== 'string') {
+    return { reason: 'Invalid notes' };
+  }
+
+  let tags: string[] | undefined;
+  if (raw.tags !== undefined && raw.tags !== null) {
+    const revived = reviveTags(raw.tags);
+    if (!revived) {
+      return { reason: 'Invalid tags' };
+    }
+    tags = revived;
+  }
+
+  if (raw.estimateMinutes !== undefined && raw.estimateMinutes !== null &&
+      (typeof raw.estimateMinutes !== 'number' || !(raw.estimateMinutes > 0))) {
+    return { reason: 'Invalid time estimate' };
+  }
+
+  let timeEntries: TimeEntry[] | undefined;
+  if (raw.timeEntries !== undefined && raw.timeEntries !== null) {
+    const revived = reviveTimeEntries(raw.timeEntries);
+    if (!revived) {
+      return { reason: 'Invalid time entries' };
+    }
+    timeEntries = revived;
+  }
+
+  let reminders: Reminder[] | undefined;
+  if (raw.reminders !== undefined && raw.reminders !== null) {
+    const revived = reviveReminders(raw.reminders);
+    if (!revived) {
+      return { reason: 'Invalid reminders' };
+    }
+    reminders = revived;
+  }
+
+  let blockedBy: string[] | undefined;
+  if (raw.blockedBy !== undefined && raw.blockedBy !== null) {
+    const revived = reviveDependencies(raw.blockedBy);
+    if (!revived) {
+      return { reason: 'Invalid dependencies' };
+    }
+    blockedBy = revived.length > 0 ? revived : undefined;
+  }
+
+  let recurrence: RecurrenceRule | undefined;
+  if (raw.projectId !== undefined && raw.projectId !== null && typeof raw.projectId !== 'string') {
+    return { reason: 'Invalid project' };
+  }
+
+  let deletedAt: Date | undefined;
+  if (raw.deletedAt !== undefined && raw.deletedAt !== null) {
+    const revived = reviveDate(raw.deletedAt);
+    if (!revived) {
+      return { reason: 'Invalid deletion date' };
+    }
+    deletedAt = revived;
+  }
+
+  let completedAt: Date | undefined;
+  if (raw.completed === true && raw.completedAt !== undefined && raw.completedAt !== null) {
+    const revived = reviveDate(raw.completedAt);
+    if (!revived) {
+      return { reason: 'Invalid completion date' };
+    }
+    completedAt = revived;
+  }
+
+  if (raw.recurrence !== undefined && raw.recurrence !== null) {
+    const revived = reviveRecurrence(raw.recurrence);
+    if (!revived) {
+      return { reason: 'Invalid recurrence rule' };
+    }
+    recurrence = revived;
+  }
+
+  return {
+    todo: {
+      ...(raw as Partial<Todo>),
+      id: raw.id,
+      text: raw.text,
+      notes: typeof raw.notes === 'string' && raw.notes ? raw.notes : undefined,
+      completed: raw.completed === true,
+      completedAt,
+      priority: (raw.priority as TodoPriority) || 'medium',
+      category: typeof raw.category === 'string' && raw.category ? raw.category : 'General',
+      tags,
+      createdAt,
+      dueDate,
+      dueAllDay: dueDate && dueAllDay ? true : undefined,
+      // An unknown zone only affects how the time is labelled, so it is dropped rather than rejected
+      dueTimeZone: dueDate && !dueAllDay && isValidTimeZone(raw.dueTimeZone) ? raw.dueTimeZone : undefined,
+      subtasks,
+      recurrence,
+      timeEntries,
+      timerPaused: raw.timerPaused === true ? true : undefined,
+      reminders,
+      blockedBy,
+      deletedAt,
+    },
+  };
+}
+
+// Run every registered migration between the stored version and the current one
+export function migrateTodoData(data: unknown): { envelope: TodoStorageEnvelope; fromVersion: number } {
+  const fromVersion = detectVersion(data);
+
+  if (fromVersion > TODO_STORAGE_VERSION) {
+    throw new Error(`Todo data was saved by a newer version of NovaTask (v${fromVersion})`);
+  }
+
+  let current: unknown = data;
+  for (let version = fromVersion; version < TODO_STORAGE_VERSION; version++) {
+    const migrate = todoMigrations[version];
+    if (!migrate) {
+      throw new Error(`No migration registered for todo data v${version}`);
+    }
+    current = migrate(current);
+  }
+
+  const envelope = current as TodoStorageEnvelope;
+  if (!Array.isArray(envelope.todos)) {
+    throw new Error('Todo data is missing its todo list');
+  }
+
+  return { envelope, fromVersion };
+}
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)));
+
+// Parse a raw storage value. Unreadable records are quarantined instead of dropped.
+export function parseStoredTodos(raw: string): TodoLoadResult {
+  const quarantinedAt = new Date().toISOString();
+  let data: unknown;
+
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    return {
+      todos: [],
+      projects: [DEFAULT_PROJECT],
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+      quarantined: [{ raw, reason: 'Stored data is not valid JSON', quarantinedAt }],
+      error: toError(error),
+    };
+  }
+
+  let migrated: { envelope: TodoStorageEnvelope; fromVersion: number };
+  try {
+    migrated = migrateTodoData(data);
+  } catch (error) {
+    const migrationError = toError(error);
+    return {
+      todos: [],
+      projects: [DEFAULT_PROJECT],
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+      quarantined: [{ raw: data, reason: migrationError.message, quarantinedAt }],
+      error: migrationError,
+    };
+  }
+
+  const todos: Todo[] = [];
+  const quarantined: QuarantinedEntry[] = [];
+  const projects = reviveProjects(migrated.envelope.projects);
+  const projectIds = new Set(projects.map(project => project.id));
+
+  migrated.envelope.todos.forEach(record => {
+    const result = reviveTodo(record);
+    if ('todo' in result) {
+      // Todos of a list that no longer exists fall back to the Inbox
+      const { projectId } = result.todo;
+      todos.push(projectId && !projectIds.has(projectId) ? { ...result.todo, projectId: undefined } : result.todo);
+    } else {
+      quarantined.push({ raw: record, reason: result.reason, version: migrated.fromVersion, quarantinedAt });
+    }
+  });
+
+  return {
+    todos,
+    projects,
+    trashRetentionDays: reviveRetentionDays(migrated.envelope.trashRetentionDays),
+    quarantined,
+    migratedFrom: migrated.fromVersion < TODO_STORAGE_VERSION ? migrated.fromVersion : undefined,
+  };
+}
+
+// All-day due dates are written as a plain "yyyy-mm-dd" so they keep their day in any time zone
+export function toStoredTodo(todo: Todo): unknown {
+  return todo.dueDate ? { ...todo, dueDate: toStoredDueDate(todo) } : todo;
+}
+
+export function serializeTodos(todos: Todo[], settings: TodoSettings = {}): string {
+  const envelope: TodoStorageEnvelope = {
+    version: TODO_STORAGE_VERSION,
+    savedAt: new Date().toISOString(),
+    todos: todos.map(toStoredTodo),
+    projects: settings.projects || [DEFAULT_PROJECT],
+    trashRetentionDays: settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+  };
+  return JSON.stringify(envelope);
+}
+
+// Undo history as stored: snapshots share most of their todos, so each distinct
+// todo (and project list) is written once and referenced by index
+interface StoredHistory {
+  version: number;
+  todos: unknown[];
+  projects: unknown[];
+  past: StoredHistoryEntry[];
+  future: StoredHistoryEntry[];
+}
+
+interface StoredHistoryEntry {
+  label: string;
+  todos: number[];
+  projects: number;
+}
+
+// v2 stores due dates like the todo list does; older history is discarded rather than migrated
+const TODO_HISTORY_VERSION = 2;
+
+export function serializeTodoHistory(history: TodoHistory): string {
+  const todoIndexes = new Map<Todo, number>();
+  const projectIndexes = new Map<Project[], number>();
+
+  const indexOf = <T>(indexes: Map<T, number>, value: T) => {
+    if (!indexes.has(value)) indexes.set(value, indexes.size);
+    return indexes.get(value) as number;
+  };
+  const storeEntry = (entry: HistoryEntry<TodoSnapshot>): StoredHistoryEntry => ({
+    label: entry.label,
+    todos: entry.state.todos.map(todo => indexOf(todoIndexes, todo)),
+    projects: indexOf(projectIndexes, entry.state.projects),
+  });
+
+  const past = history.past.map(storeEntry);
+  const future = history.future.map(storeEntry);
+  const stored: StoredHistory = {
+    version: TODO_HISTORY_VERSION,
+    todos: Array.from(todoIndexes.keys()).map(toStoredTodo),
+    projects: Array.from(projectIndexes.keys()),
+    past,
+    future,
+  };
+  return JSON.stringify(stored);
+}
+
+// Parse stored undo history. History is a convenience, so anything unreadable
+// discards all of it rather than restoring a partial, inconsistent stack.
+export function parseStoredHistory(raw: string): TodoHistory | null {
+  try {
+    const stored = JSON.parse(raw) as StoredHistory;
+    if (!stored || stored.version !== TODO_HISTORY_VERSION ||
+        !Array.isArray(stored.todos) || !Array.isArray(stored.projects) ||
+        !Array.isArray(stored.past) || !Array.isArray(stored.future)) {
+      return null;
+    }
+
+    const todos: Todo[] = [];
+    for (const record of stored.todos) {
+      const result = reviveTodo(record);
+      if (!('todo' in result)) return null;
+      todos.push(result.todo);
+    }
+    const projects = stored.projects.map(reviveProjects);
+
+    const reviveEntry = (entry: StoredHistoryEntry): HistoryEntry<TodoSnapshot> | null => {
+      if (!entry || typeof entry.label !== 'string' || !Array.isArray(entry.todos) || !projects[entry.projects]) return null;
+      const snapshot = entry.todos.map(index => todos[index]);
+      if (snapshot.some(todo => !todo)) return null;
+      return { label: entry.label, state: { todos: snapshot, projects: projects[entry.projects] } };
+    };
+
+    const past = stored.past.map(reviveEntry);
+    const future = stored.future.map(reviveEntry);
+    if ([...past, ...future].some(entry => !entry)) return null;
+    return { past: past as HistoryEntry<TodoSnapshot>[], future: future as HistoryEntry<TodoSnapshot>[] };
+  } catch {
+    return null;
+  }
+}
+
+export async function loadQuarantine(storage: StorageAdapter): Promise<QuarantinedEntry[]> {
+  try {
+    const saved = await storage.getItem(TODOS_QUARANTINE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Append entries to the quarantine so nothing is lost across repeated failures
+export async function quarantineTodos(storage: StorageAdapter, entries: QuarantinedEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const existing = await loadQuarantine(storage);
+  await storage.setItem(TODOS_QUARANTINE_KEY, JSON.stringify([...existing, ...entries]));
+}
+
+// Read the stored todos, moving unreadable records to the quarantine. Returns null
+// when nothing has been saved yet.
+export async function loadStoredTodos(storage: StorageAdapter): Promise<StoredTodos | null> {
+  const saved = await storage.getItem(TODOS_STORAGE_KEY);
+  if (!saved) return null;
+
+  const result = parseStoredTodos(saved);
+  try {
+    await quarantineTodos(storage, result.quarantined);
+  } catch (error) {
+    return { ...result, backupError: toError(error) };
+  }
+  return result;
+}
+
+// Offer the quarantined data as a downloadable JSON file
+export async function downloadQuarantine(storage: StorageAdapter): Promise<void> {
+  const quarantined = await loadQuarantine(storage);
+  const blob = new Blob([JSON.stringify(quarantined, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `novatask-recovered-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
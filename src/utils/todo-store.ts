@@ -0,0 +1,712 @@
+// Todo store: state shape, typed actions, reducer and selectors for NovaTask
+
+import {
+  Subtask,
+  addSubtask,
+  deriveParentCompletion,
+  getSubtaskProgress,
+  removeSubtask,
+  setSubtreeCompleted,
+  toggleSubtask,
+  updateSubtask,
+} from './subtasks';
+import { RecurrenceRule, anchorRecurrence, getNextOccurrence } from './recurrence';
+import { collectTags, countTodosByTag } from './tags';
+import { TimeEntry, closeSession, getRunningEntry, startSession } from './time-tracking';
+import { Reminder, rearmOffsetReminders } from './reminders';
+import { addDependency, isReady, pruneDependencies, removeDependency, validateDependency } from './dependencies';
+import { DEFAULT_PROJECT, DEFAULT_PROJECT_ID, Project, belongsToProject } from './projects';
+import { DEFAULT_TRASH_RETENTION_DAYS, isExpired, isTrashed } from './trash';
+import { isOverdue } from './due-dates';
+import { HistoryStack, createHistoryStack, pushHistory, redoHistory, undoHistory } from './state-optimization';
+
+export type TodoPriority = 'low' | 'medium' | 'high';
+
+export interface Todo {
+  id: string;
+  text: string;
+  // Optional long-form description in the Markdown subset from ./markdown
+  notes?: string;
+  completed: boolean;
+  // When the todo was last completed; cleared when it is reopened
+  completedAt?: Date;
+  priority: TodoPriority;
+  category: string;
+  tags?: string[];
+  // An exact moment, or local midnight of the due day when dueAllDay is set (see ./due-dates)
+  dueDate?: Date;
+  dueAllDay?: boolean;
+  // IANA time zone a timed due date was set in, e.g. "Europe/Berlin"
+  dueTimeZone?: string;
+  createdAt: Date;
+  subtasks?: Subtask[];
+  recurrence?: RecurrenceRule;
+  // 1-based position of this todo in its recurring series
+  occurrence?: number;
+  // Set once the following occurrence has been created, so re-completing doesn't duplicate it
+  nextOccurrenceId?: string;
+  estimateMinutes?: number;
+  timeEntries?: TimeEntry[];
+  // The timer was paused rather than stopped, so the UI offers "Resume"
+  timerPaused?: boolean;
+  reminders?: Reminder[];
+  // Ids of todos that must be completed before this one
+  blockedBy?: string[];
+  // The list this todo belongs to; unset means the Inbox
+  projectId?: string;
+  // Set while the todo is in the trash
+  deletedAt?: Date;
+}
+
+// Fields that may be changed after a todo has been created
+export type TodoChanges = Partial<Omit<Todo, 'id' | 'createdAt'>>;
+
+export interface TodoState {
+  todos: Todo[];
+  projects: Project[];
+  // The list currently shown; new todos are added to it
+  activeProjectId: string;
+  // Days a deleted todo stays in the trash; 0 keeps it until emptied
+  trashRetentionDays: number;
+  // Snapshots taken before each undoable action, labelled with what it did
+  history: TodoHistory;
+}
+
+// The part of the state that undo and redo restore
+export type TodoSnapshot = Pick<TodoState, 'todos' | 'projects'>;
+
+export type TodoHistory = HistoryStack<TodoSnapshot>;
+
+// Number of actions that can be undone
+export const MAX_TODO_HISTORY = 50;
+
+// Stored alongside the todos and restored on hydrate
+export type TodoSettings = Partial<Pick<TodoState, 'projects' | 'trashRetentionDays'>>;
+
+export const initialTodoState: TodoState = {
+  todos: [],
+  projects: [DEFAULT_PROJECT],
+  activeProjectId: DEFAULT_PROJECT_ID,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  history: createHistoryStack(),
+};
+
+// Every mutation of the todo list is expressed as one of these actions
+export type TodoAction =
+  | { type: 'hydrate'; todos: Todo[]; settings?: TodoSettings; history?: TodoHistory }
+  | { type: 'add'; todo: Todo }
+  | { type: 'update'; id: string; changes: TodoChanges }
+  | { type: 'toggle'; id: string }
+  | { type: 'delete'; id: string }
+  | { type: 'reorder'; sourceId: string; targetId: string }
+  | { type: 'bulkUpdate'; ids: string[]; changes: TodoChanges }
+  | { type: 'bulkToggle'; ids: string[]; completed: boolean }
+  | { type: 'bulkDelete'; ids: string[] }
+  | { type: 'addSubtask'; todoId: string; subtask: Subtask; parentId?: string }
+  | { type: 'updateSubtask'; todoId: string; subtaskId: string; changes: Partial<Omit<Subtask, 'id' | 'subtasks'>> }
+  | { type: 'toggleSubtask'; todoId: string; subtaskId: string }
+  | { type: 'deleteSubtask'; todoId: string; subtaskId: string }
+  | { type: 'startTimer'; id: string; entryId: string; at: Date }
+  | { type: 'pauseTimer'; id: string; at: Date }
+  | { type: 'stopTimer'; id: string; at: Date }
+  | { type: 'addTimeEntry'; id: string; entry: TimeEntry }
+  | { type: 'deleteTimeEntry'; id: string; entryId: string }
+  | { type: 'addReminder'; id: string; reminder: Reminder }
+  | { type: 'removeReminder'; id: string; reminderId: string }
+  | { type: 'fireReminder'; id: string; reminderId: string; at: Date }
+  | { type: 'snoozeReminder'; id: string; reminderId: string; until: Date }
+  | { type: 'addDependency'; id: string; blockerId: string }
+  | { type: 'removeDependency'; id: string; blockerId: string }
+  | { type: 'addProject'; project: Project }
+  | { type: 'updateProject'; id: string; changes: Partial<Omit<Project, 'id'>> }
+  | { type: 'deleteProject'; id: string }
+  | { type: 'selectProject'; id: string }
+  | { type: 'moveToProject'; ids: string[]; projectId: string }
+  | { type: 'trash'; ids: string[]; at: Date }
+  | { type: 'restore'; ids: string[] }
+  | { type: 'purgeExpired'; now: Date }
+  | { type: 'setTrashRetention'; days: number }
+  | { type: 'import'; todos: Todo[]; projects: Project[] }
+  // With a snapshot, undo only reverts the action recorded on top of it
+  | { type: 'undo'; now: Date; snapshot?: TodoSnapshot }
+  | { type: 'redo'; now: Date };
+
+// Action creators
+export const todoActions = {
+  hydrate: (todos: Todo[], settings?: TodoSettings, history?: TodoHistory): TodoAction => ({ type: 'hydrate', todos, settings, history }),
+  add: (todo: Todo): TodoAction => ({ type: 'add', todo }),
+  update: (id: string, changes: TodoChanges): TodoAction => ({ type: 'update', id, changes }),
+  toggle: (id: string): TodoAction => ({ type: 'toggle', id }),
+  remove: (id: string): TodoAction => ({ type: 'delete', id }),
+  reorder: (sourceId: string, targetId: string): TodoAction => ({ type: 'reorder', sourceId, targetId }),
+  bulkUpdate: (ids: string[], changes: TodoChanges): TodoAction => ({ type: 'bulkUpdate', ids, changes }),
+  bulkToggle: (ids: string[], completed: boolean): TodoAction => ({ type: 'bulkToggle', ids, completed }),
+  bulkDelete: (ids: string[]): TodoAction => ({ type: 'bulkDelete', ids }),
+  addSubtask: (todoId: string, subtask: Subtask, parentId?: string): TodoAction => ({ type: 'addSubtask', todoId, subtask, parentId }),
+  updateSubtask: (todoId: string, subtaskId: string, changes: Partial<Omit<Subtask, 'id' | 'subtasks'>>): TodoAction => ({ type: 'updateSubtask', todoId, subtaskId, changes }),
+  toggleSubtask: (todoId: string, subtaskId: string): TodoAction => ({ type: 'toggleSubtask', todoId, subtaskId }),
+  deleteSubtask: (todoId: string, subtaskId: string): TodoAction => ({ type: 'deleteSubtask', todoId, subtaskId }),
+  startTimer: (id: string, at: Date = new Date()): TodoAction => ({ type: 'startTimer', id, entryId: crypto.randomUUID(), at }),
+  pauseTimer: (id: string, at: Date = new Date()): TodoAction => ({ type: 'pauseTimer', id, at }),
+  stopTimer: (id: string, at: Date = new Date()): TodoAction => ({ type: 'stopTimer', id, at }),
+  addTimeEntry: (id: string, entry: TimeEntry): TodoAction => ({ type: 'addTimeEntry', id, entry }),
+  deleteTimeEntry: (id: string, entryId: string): TodoAction => ({ type: 'deleteTimeEntry', id, entryId }),
+  addReminder: (id: string, reminder: Reminder): TodoAction => ({ type: 'addReminder', id, reminder }),
+  removeReminder: (id: string, reminderId: string): TodoAction => ({ type: 'removeReminder', id, reminderId }),
+  fireReminder: (id: string, reminderId: string, at: Date = new Date()): TodoAction => ({ type: 'fireReminder', id, reminderId, at }),
+  snoozeReminder: (id: string, reminderId: string, until: Date): TodoAction => ({ type: 'snoozeReminder', id, reminderId, until }),
+  addDependency: (id: string, blockerId: string): TodoAction => ({ type: 'addDependency', id, blockerId }),
+  removeDependency: (id: string, blockerId: string): TodoAction => ({ type: 'removeDependency', id, blockerId }),
+  addProject: (project: Project): TodoAction => ({ type: 'addProject', project }),
+  updateProject: (id: string, changes: Partial<Omit<Project, 'id'>>): TodoAction => ({ type: 'updateProject', id, changes }),
+  deleteProject: (id: string): TodoAction => ({ type: 'deleteProject', id }),
+  selectProject: (id: string): TodoAction => ({ type: 'selectProject', id }),
+  moveToProject: (ids: string[], projectId: string): TodoAction => ({ type: 'moveToProject', ids, projectId }),
+  trash: (ids: string[], at: Date = new Date()): TodoAction => ({ type: 'trash', ids, at }),
+  restore: (ids: string[]): TodoAction => ({ type: 'restore', ids }),
+  purgeExpired: (now: Date = new Date()): TodoAction => ({ type: 'purgeExpired', now }),
+  setTrashRetention: (days: number): TodoAction => ({ type: 'setTrashRetention', days }),
+  importTodos: (todos: Todo[], projects: Project[] = []): TodoAction => ({ type: 'import', todos, projects }),
+  undo: (now: Date = new Date(), snapshot?: TodoSnapshot): TodoAction => ({ type: 'undo', now, snapshot }),
+  redo: (now: Date = new Date()): TodoAction => ({ type: 'redo', now }),
+};
+
+// Move the todo with sourceId to the position currently held by targetId.
+// Ids are resolved against the full list, so reordering a filtered view
+// never drops the todos that are hidden from it.
+function reorderTodos(todos: Todo[], sourceId: string, targetId: string): Todo[] {
+  const sourceIndex = todos.findIndex(todo => todo.id === sourceId);
+  const targetIndex = todos.findIndex(todo => todo.id === targetId);
+
+  if (sourceIndex === -1 || targetIndex === -1 || sourceIndex === targetIndex) {
+    return todos;
+  }
+
+  const reordered = [...todos];
+  const [moved] = reordered.splice(sourceIndex, 1);
+  reordered.splice(targetIndex, 0, moved);
+  return reordered;
+}
+
+// Completing a todo completes its whole checklist and stops its timer;
+// reopening it leaves both alone
+function setTodoCompleted(todo: Todo, completed: boolean): Todo {
+  if (!completed) return { ...todo, completed, completedAt: undefined };
+  return {
+    ...stopTodoTimer(todo, new Date()),
+    completed,
+    completedAt: todo.completed ? todo.completedAt : new Date(),
+    subtasks: todo.subtasks?.map(subtask => setSubtreeCompleted(subtask, true)),
+  };
+}
+
+function stopTodoTimer(todo: Todo, at: Date, paused: boolean = false): Todo {
+  if (!getRunningEntry(todo.timeEntries) && !todo.timerPaused) return todo;
+  return { ...todo, timeEntries: closeSession(todo.timeEntries, at), timerPaused: paused || undefined };
+}
+
+// Replace a todo's subtasks and apply the auto-complete rule to the todo itself
+function withSubtasks(todo: Todo, subtasks: Subtask[]): Todo {
+  const completed = deriveParentCompletion(subtasks) ?? todo.completed;
+  if (completed === todo.completed) return { ...todo, subtasks };
+  return { ...todo, subtasks, completed, completedAt: completed ? new Date() : undefined };
+}
+
+// Apply edited fields; moving the due date re-arms reminders that are relative to it
+function applyChanges(todo: Todo, changes: TodoChanges): Todo {
+  const updated = { ...todo, ...changes };
+  if ('dueDate' in changes && todo.reminders &&
+      new Date(changes.dueDate ?? 0).getTime() !== new Date(todo.dueDate ?? 0).getTime()) {
+    updated.reminders = rearmOffsetReminders(updated.reminders);
+  }
+  return updated;
+}
+
+function updateReminder(todo: Todo, reminderId: string, update: (reminder: Reminder) => Reminder): Todo {
+  if (!todo.reminders) return todo;
+  return { ...todo, reminders: todo.reminders.map(reminder => (reminder.id === reminderId ? update(reminder) : reminder)) };
+}
+
+function mapTodo(todos: Todo[], id: string, update: (todo: Todo) => Todo): Todo[] {
+  return todos.map(todo => (todo.id === id ? update(todo) : todo));
+}
+
+// Build the todo that follows a completed recurring todo, or null when the series has ended
+function createNextOccurrence(todo: Todo, completedAt: Date): Todo | null {
+  if (!todo.recurrence) return null;
+
+  const occurrence = todo.occurrence ?? 1;
+  const from = todo.dueDate ? new Date(todo.dueDate) : completedAt;
+  const recurrence = anchorRecurrence(todo.recurrence, from);
+  const dueDate = getNextOccurrence(recurrence, from, occurrence);
+  if (!dueDate) return null;
+
+  return {
+    ...todo,
+    id: crypto.randomUUID(),
+    recurrence,
+    completed: false,
+    completedAt: undefined,
+    dueDate,
+    createdAt: completedAt,
+    occurrence: occurrence + 1,
+    nextOccurrenceId: undefined,
+    timeEntries: undefined,
+    timerPaused: undefined,
+    // Offsets carry over to the new due date; one-off reminder times do not
+    reminders: todo.reminders && rearmOffsetReminders(todo.reminders.filter(reminder => reminder.type === 'offset')),
+    subtasks: todo.subtasks?.map(subtask => setSubtreeCompleted(subtask, false)),
+  };
+}
+
+// Insert the next occurrence of every recurring todo that this update completed
+function scheduleRecurrences(previous: Todo[], todos: Todo[]): Todo[] {
+  const wasCompleted = new Map(previous.map(todo => [todo.id, todo.completed]));
+  const completedAt = new Date();
+  let changed = false;
+
+  const scheduled = todos.flatMap(todo => {
+    if (!todo.completed || !todo.recurrence || todo.nextOccurrenceId || wasCompleted.get(todo.id) !== false) {
+      return [todo];
+    }
+    const next = createNextOccurrence(todo, completedAt);
+    if (!next) return [todo];
+    changed = true;
+    return [{ ...todo, nextOccurrenceId: next.id }, next];
+  });
+
+  return changed ? scheduled : todos;
+}
+
+// Quote a todo's text for a history label, shortening long ones
+function quoteTodo(todo: Pick<Todo, 'text'> | undefined): string {
+  if (!todo) return 'a task';
+  return `"${todo.text.length > 40 ? `${todo.text.slice(0, 39)}…` : todo.text}"`;
+}
+
+function describeTodos(state: TodoState, ids: string[]): string {
+  if (ids.length === 1) return quoteTodo(state.todos.find(todo => todo.id === ids[0]));
+  return `${ids.length} tasks`;
+}
+
+function findProjectName(state: TodoState, id: string): string {
+  return `"${state.projects.find(project => project.id === id)?.name ?? 'list'}"`;
+}
+
+// Label for the history entry of an action, e.g. 'delete "Buy milk"', or null
+// when the action can't be undone (loading, reminders firing, switching lists...)
+export function describeTodoAction(state: TodoState, action: TodoAction): string | null {
+  const todo = (id: string) => quoteTodo(state.todos.find(t => t.id === id));
+
+  switch (action.type) {
+    case 'add': return `add ${quoteTodo(action.todo)}`;
+    case 'update': return `edit ${todo(action.id)}`;
+    case 'toggle': return `${state.todos.find(t => t.id === action.id)?.completed ? 'reopen' : 'complete'} ${todo(action.id)}`;
+    case 'delete': return `permanently delete ${todo(action.id)}`;
+    case 'reorder': return `move ${todo(action.sourceId)}`;
+    case 'bulkUpdate': return `edit ${describeTodos(state, action.ids)}`;
+    case 'bulkToggle': return `${action.completed ? 'complete' : 'reopen'} ${describeTodos(state, action.ids)}`;
+    case 'bulkDelete': return `permanently delete ${describeTodos(state, action.ids)}`;
+    case 'addSubtask': return `add a subtask to ${todo(action.todoId)}`;
+    case 'updateSubtask': return `edit a subtask of ${todo(action.todoId)}`;
+    case 'toggleSubtask': return `check off a subtask of ${todo(action.todoId)}`;
+    case 'deleteSubtask': return `delete a subtask of ${todo(action.todoId)}`;
+    case 'startTimer': return `start the timer of ${todo(action.id)}`;
+    case 'pauseTimer': return `pause the timer of ${todo(action.id)}`;
+    case 'stopTimer': return `stop the timer of ${todo(action.id)}`;
+    case 'addTimeEntry': return `log time on ${todo(action.id)}`;
+    case 'deleteTimeEntry': return `delete a time entry of ${todo(action.id)}`;
+    case 'addReminder': return `add a reminder to ${todo(action.id)}`;
+    case 'removeReminder': return `remove a reminder from ${todo(action.id)}`;
+    case 'addDependency': return `block ${todo(action.id)} by ${todo(action.blockerId)}`;
+    case 'removeDependency': return `unblock ${todo(action.id)} from ${todo(action.blockerId)}`;
+    case 'addProject': return `create list "${action.project.name}"`;
+    case 'updateProject': return `edit list ${findProjectName(state, action.id)}`;
+    case 'deleteProject': return `delete list ${findProjectName(state, action.id)}`;
+    case 'moveToProject': return `move ${describeTodos(state, action.ids)} to ${findProjectName(state, action.projectId)}`;
+    case 'trash': return `delete ${describeTodos(state, action.ids)}`;
+    case 'restore': return `restore ${describeTodos(state, action.ids)}`;
+    case 'import': return `import ${action.todos.length === 1 ? quoteTodo(action.todos[0]) : `${action.todos.length} tasks`}`;
+    default: return null;
+  }
+}
+
+// Reminder deliveries and trash purges are never recorded in the history, so they are
+// carried into a restored snapshot: undo must not re-arm a reminder that has already
+// fired, nor bring back trash whose retention period has run out
+function keepUnrecordedChanges(state: TodoState, snapshot: Todo[], now: Date): Todo[] {
+  const current = new Map(state.todos.map(todo => [todo.id, todo]));
+  const expired = new Set(
+    snapshot.filter(todo => isExpired(todo, state.trashRetentionDays, now)).map(todo => todo.id)
+  );
+
+  const todos = snapshot.filter(todo => !expired.has(todo.id)).map(todo => {
+    const delivered = current.get(todo.id)?.reminders;
+    if (!todo.reminders || !delivered) return todo;
+    return {
+      ...todo,
+      reminders: todo.reminders.map(reminder => {
+        const latest = delivered.find(other => other.id === reminder.id);
+        // The snapshot's own delivery wins only when it is the more recent one
+        if (!latest?.firedAt || (reminder.firedAt && new Date(reminder.firedAt) > new Date(latest.firedAt))) return reminder;
+        return { ...reminder, firedAt: latest.firedAt, snoozedUntil: latest.snoozedUntil };
+      }),
+    };
+  });
+  return expired.size > 0 ? pruneDependencies(todos, expired) : todos;
+}
+
+// Whether the latest undoable action is the one that was taken from this snapshot
+export function isLatestAction(history: TodoHistory, snapshot: TodoSnapshot): boolean {
+  const latest = history.past[history.past.length - 1]?.state;
+  return !!latest && latest.todos === snapshot.todos && latest.projects === snapshot.projects;
+}
+
+// Swap the current todos and projects for a snapshot from the history
+function restoreSnapshot(state: TodoState, snapshot: TodoSnapshot, history: TodoHistory, now: Date): TodoState {
+  const { projects } = snapshot;
+  return {
+    ...state,
+    todos: keepUnrecordedChanges(state, snapshot.todos, now),
+    projects,
+    history,
+    // Undoing the creation of the list being shown falls back to the Inbox
+    activeProjectId: projects.some(project => project.id === state.activeProjectId) ? state.activeProjectId : DEFAULT_PROJECT_ID,
+  };
+}
+
+export function todoReducer(state: TodoState, action: TodoAction): TodoState {
+  const next = reduceTodos(state, action);
+  if (next === state || action.type === 'hydrate' || action.type === 'undo' || action.type === 'redo') return next;
+
+  const todos = scheduleRecurrences(state.todos, next.todos);
+  const scheduled = todos === next.todos ? next : { ...next, todos };
+
+  const label = describeTodoAction(state, action);
+  if (!label || (scheduled.todos === state.todos && scheduled.projects === state.projects)) return scheduled;
+  return {
+    ...scheduled,
+    history: pushHistory(state.history, { todos: state.todos, projects: state.projects }, label, MAX_TODO_HISTORY),
+  };
+}
+
+function reduceTodos(state: TodoState, action: TodoAction): TodoState {
+  switch (action.type) {
+    case 'hydrate': {
+      const projects = action.settings?.projects || state.projects;
+      return {
+        ...state,
+        todos: action.todos,
+        projects,
+        trashRetentionDays: action.settings?.trashRetentionDays ?? state.trashRetentionDays,
+        activeProjectId: projects.some(project => project.id === state.activeProjectId) ? state.activeProjectId : DEFAULT_PROJECT_ID,
+        history: action.history || createHistoryStack(),
+      };
+    }
+
+    case 'add':
+      return { ...state, todos: [...state.todos, action.todo] };
+
+    case 'update':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo => applyChanges(todo, action.changes)),
+      };
+
+    case 'toggle':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo => setTodoCompleted(todo, !todo.completed)),
+      };
+
+    case 'delete':
+      return {
+        ...state,
+        todos: pruneDependencies(state.todos.filter(todo => todo.id !== action.id), new Set([action.id])),
+      };
+
+    case 'reorder':
+      return { ...state, todos: reorderTodos(state.todos, action.sourceId, action.targetId) };
+
+    case 'bulkUpdate': {
+      const ids = new Set(action.ids);
+      return {
+        ...state,
+        todos: state.todos.map(todo => (ids.has(todo.id) ? applyChanges(todo, action.changes) : todo)),
+      };
+    }
+
+    case 'bulkToggle': {
+      const ids = new Set(action.ids);
+      return {
+        ...state,
+        todos: state.todos.map(todo =>
+          ids.has(todo.id) ? setTodoCompleted(todo, action.completed) : todo
+        ),
+      };
+    }
+
+    case 'bulkDelete': {
+      const ids = new Set(action.ids);
+      return { ...state, todos: pruneDependencies(state.todos.filter(todo => !ids.has(todo.id)), ids) };
+    }
+
+    case 'addSubtask':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.todoId, todo =>
+          withSubtasks(todo, addSubtask(todo.subtasks, action.subtask, action.parentId))
+        ),
+      };
+
+    case 'updateSubtask':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.todoId, todo =>
+          withSubtasks(todo, updateSubtask(todo.subtasks, action.subtaskId, action.changes))
+        ),
+      };
+
+    case 'toggleSubtask':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.todoId, todo =>
+          withSubtasks(todo, toggleSubtask(todo.subtasks, action.subtaskId))
+        ),
+      };
+
+    case 'deleteSubtask':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.todoId, todo =>
+          withSubtasks(todo, removeSubtask(todo.subtasks, action.subtaskId))
+        ),
+      };
+
+    case 'startTimer':
+      // Only one timer runs at a time; starting another pauses the current one
+      return {
+        ...state,
+        todos: state.todos.map(todo =>
+          todo.id === action.id
+            ? { ...todo, timeEntries: startSession(todo.timeEntries, action.entryId, action.at), timerPaused: undefined }
+            : getRunningEntry(todo.timeEntries) ? stopTodoTimer(todo, action.at, true) : todo
+        ),
+      };
+
+    case 'pauseTimer':
+      return { ...state, todos: mapTodo(state.todos, action.id, todo => stopTodoTimer(todo, action.at, true)) };
+
+    case 'stopTimer':
+      return { ...state, todos: mapTodo(state.todos, action.id, todo => stopTodoTimer(todo, action.at)) };
+
+    case 'addTimeEntry':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo => ({ ...todo, timeEntries: [...(todo.timeEntries || []), action.entry] })),
+      };
+
+    case 'deleteTimeEntry':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo => {
+          const timeEntries = (todo.timeEntries || []).filter(entry => entry.id !== action.entryId);
+          return { ...todo, timeEntries: timeEntries.length > 0 ? timeEntries : undefined };
+        }),
+      };
+
+    case 'addReminder':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo => ({ ...todo, reminders: [...(todo.reminders || []), action.reminder] })),
+      };
+
+    case 'removeReminder':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo => {
+          const reminders = (todo.reminders || []).filter(reminder => reminder.id !== action.reminderId);
+          return { ...todo, reminders: reminders.length > 0 ? reminders : undefined };
+        }),
+      };
+
+    case 'fireReminder':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo =>
+          updateReminder(todo, action.reminderId, reminder => ({ ...reminder, firedAt: action.at, snoozedUntil: undefined }))
+        ),
+      };
+
+    case 'snoozeReminder':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo =>
+          updateReminder(todo, action.reminderId, reminder => ({ ...reminder, snoozedUntil: action.until }))
+        ),
+      };
+
+    case 'addDependency':
+      // Unknown ids, duplicates and anything that would close a cycle are ignored
+      if (validateDependency(state.todos, action.id, action.blockerId)) return state;
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo => ({ ...todo, blockedBy: addDependency(todo.blockedBy, action.blockerId) })),
+      };
+
+    case 'removeDependency':
+      return {
+        ...state,
+        todos: mapTodo(state.todos, action.id, todo => ({ ...todo, blockedBy: removeDependency(todo.blockedBy, action.blockerId) })),
+      };
+
+    case 'addProject':
+      return { ...state, projects: [...state.projects, action.project], activeProjectId: action.project.id };
+
+    case 'updateProject':
+      return {
+        ...state,
+        projects: state.projects.map(project => (project.id === action.id ? { ...project, ...action.changes } : project)),
+      };
+
+    case 'deleteProject': {
+      // The Inbox can't be deleted; it takes over the tasks of deleted lists
+      if (action.id === DEFAULT_PROJECT_ID || !state.projects.some(project => project.id === action.id)) return state;
+      return {
+        ...state,
+        projects: state.projects.filter(project => project.id !== action.id),
+        todos: state.todos.map(todo => (belongsToProject(todo, action.id) ? { ...todo, projectId: undefined } : todo)),
+        activeProjectId: state.activeProjectId === action.id ? DEFAULT_PROJECT_ID : state.activeProjectId,
+      };
+    }
+
+    case 'selectProject':
+      if (!state.projects.some(project => project.id === action.id)) return state;
+      return { ...state, activeProjectId: action.id };
+
+    case 'moveToProject': {
+      if (!state.projects.some(project => project.id === action.projectId)) return state;
+      const ids = new Set(action.ids);
+      const projectId = action.projectId === DEFAULT_PROJECT_ID ? undefined : action.projectId;
+      return {
+        ...state,
+        todos: state.todos.map(todo => (ids.has(todo.id) ? { ...todo, projectId } : todo)),
+      };
+    }
+
+    case 'trash': {
+      // Timers stop when a todo is deleted; everything else is kept for a restore
+      const ids = new Set(action.ids);
+      return {
+        ...state,
+        todos: state.todos.map(todo =>
+          ids.has(todo.id) && !isTrashed(todo) ? { ...stopTodoTimer(todo, action.at), deletedAt: action.at } : todo
+        ),
+      };
+    }
+
+    case 'restore': {
+      const ids = new Set(action.ids);
+      return {
+        ...state,
+        todos: state.todos.map(todo => (ids.has(todo.id) && isTrashed(todo) ? { ...todo, deletedAt: undefined } : todo)),
+      };
+    }
+
+    case 'purgeExpired': {
+      const expired = new Set(
+        state.todos.filter(todo => isExpired(todo, state.trashRetentionDays, action.now)).map(todo => todo.id)
+      );
+      if (expired.size === 0) return state;
+      return { ...state, todos: pruneDependencies(state.todos.filter(todo => !expired.has(todo.id)), expired) };
+    }
+
+    case 'setTrashRetention':
+      return { ...state, trashRetentionDays: Math.max(0, Math.floor(action.days)) };
+
+    case 'import': {
+      // Todos with a known id replace it in place; the rest are added at the end
+      if (action.todos.length === 0 && action.projects.length === 0) return state;
+      const imported = new Map(action.todos.map(todo => [todo.id, todo]));
+      const todos = state.todos.map(todo => imported.get(todo.id) ?? todo);
+      const existingIds = new Set(state.todos.map(todo => todo.id));
+      const projectIds = new Set(state.projects.map(project => project.id));
+      return {
+        ...state,
+        todos: [...todos, ...action.todos.filter(todo => !existingIds.has(todo.id))],
+        projects: [...state.projects, ...action.projects.filter(project => !projectIds.has(project.id))],
+      };
+    }
+
+    case 'undo': {
+      if (action.snapshot && !isLatestAction(state.history, action.snapshot)) return state;
+      const step = undoHistory(state.history, { todos: state.todos, projects: state.projects });
+      return step ? restoreSnapshot(state, step.state, step.stack, action.now) : state;
+    }
+
+    case 'redo': {
+      const step = redoHistory(state.history, { todos: state.todos, projects: state.projects });
+      return step ? restoreSnapshot(state, step.state, step.stack, action.now) : state;
+    }
+
+    default:
+      return state;
+  }
+}
+
+// Todos that are not in the trash
+function liveTodos(state: TodoState): Todo[] {
+  return state.todos.filter(todo => !isTrashed(todo));
+}
+
+// Selectors
+export const todoSelectors = {
+  all: (state: TodoState): Todo[] => liveTodos(state),
+
+  byId: (state: TodoState, id: string): Todo | undefined =>
+    state.todos.find(todo => todo.id === id),
+
+  active: (state: TodoState): Todo[] => liveTodos(state).filter(todo => !todo.completed),
+
+  completed: (state: TodoState): Todo[] => liveTodos(state).filter(todo => todo.completed),
+
+  overdue: (state: TodoState, now: Date = new Date()): Todo[] =>
+    liveTodos(state).filter(todo => isOverdue(todo, now)),
+
+  subtaskProgress: (state: TodoState) =>
+    getSubtaskProgress(liveTodos(state).flatMap(todo => todo.subtasks || [])),
+
+  categories: (state: TodoState): string[] =>
+    Array.from(new Set(liveTodos(state).map(todo => todo.category).filter(Boolean))),
+
+  tags: (state: TodoState): string[] => collectTags(liveTodos(state)),
+
+  tagCounts: (state: TodoState): Record<string, number> => countTodosByTag(liveTodos(state)),
+
+  runningTimer: (state: TodoState): Todo | undefined =>
+    liveTodos(state).find(todo => getRunningEntry(todo.timeEntries)),
+
+  ready: (state: TodoState): Todo[] => {
+    const todos = liveTodos(state);
+    return todos.filter(todo => isReady(todo, todos));
+  },
+
+  activeProject: (state: TodoState): Project =>
+    state.projects.find(project => project.id === state.activeProjectId) || DEFAULT_PROJECT,
+
+  // Todos of the list currently shown, in that list's order
+  activeProjectTodos: (state: TodoState): Todo[] =>
+    liveTodos(state).filter(todo => belongsToProject(todo, state.activeProjectId)),
+
+  // Labels of the actions undo and redo would act on, or null when there are none
+  undoLabel: (state: TodoState): string | null =>
+    state.history.past[state.history.past.length - 1]?.label ?? null,
+
+  redoLabel: (state: TodoState): string | null => state.history.future[0]?.label ?? null,
+
+  // Most recently deleted first
+  trash: (state: TodoState): Todo[] =>
+    state.todos
+      .filter(isTrashed)
+      .sort((a, b) => new Date(b.deletedAt as Date).getTime() - new Date(a.deletedAt as Date).getTime()),
+};
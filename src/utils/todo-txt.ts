@@ -0,0 +1,221 @@
+// todo.txt format (github.com/todotxt/todo.txt): one task per line, e.g.
+// "x 2026-10-19 2026-10-01 Call the bank +Home @Errands @phone due:2026-10-25 id:3f2a…"
+//
+//   x, completion date  completed and completedAt
+//   (A) (B) (C)         high, medium and low priority; medium is written without one
+//   creation date       createdAt, by day; created: when a completed task has no completion date
+//   +Project            the list, matched to an existing list by name; the Inbox too
+//   @context            the category, then any tags
+//   due:                the due date, with a time and tz: for timed tasks
+//   id:                 the task id, so an exported task is updated rather than duplicated
+//
+// Names are written with "_" for spaces, since todo.txt words can't contain any. Text that
+// itself contains "+word", "@word" or one of the keys above reads back as that token.
+
+import { Todo, TodoPriority } from './todo-store';
+import { ParsedImport } from './data-transfer';
+import { DEFAULT_PROJECT, DEFAULT_PROJECT_ID, PROJECT_COLORS, Project, createProject } from './projects';
+import { MAX_TODO_TEXT_LENGTH } from './todo-form';
+import { addTag } from './tags';
+import { formatDateInput, fromZonedTime, isValidTimeZone, parseDateInput, parseTimeInput, toZonedTime } from './due-dates';
+
+// The task fields a todo.txt line carries; updating a task from one keeps the rest
+export const TODO_TXT_FIELDS: Array<keyof Todo> = [
+  'text', 'completed', 'completedAt', 'priority', 'category', 'tags', 'projectId', 'dueDate', 'dueAllDay', 'dueTimeZone',
+];
+
+const PRIORITY_LETTERS: Record<TodoPriority, string | null> = { high: 'A', medium: null, low: 'C' };
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "Home Office" <-> "Home_Office"
+const toWord = (name: string) => name.trim().replace(/\s+/g, '_');
+const fromWord = (word: string) => word.replace(/_/g, ' ');
+const sameName = (a: string, b: string) => toWord(a).toLowerCase() === toWord(b).toLowerCase();
+
+// "due:2026-10-25" for all-day tasks; timed ones give the time where the task was set
+function formatDue(todo: Todo): string[] {
+  if (!todo.dueDate) return [];
+  if (todo.dueAllDay) return [`due:${formatDateInput(todo.dueDate)}`];
+  if (!todo.dueTimeZone || !isValidTimeZone(todo.dueTimeZone)) {
+    const local = new Date(todo.dueDate);
+    return [`due:${formatDateInput(local)}T${pad(local.getHours())}:${pad(local.getMinutes())}`];
+  }
+  const zoned = toZonedTime(todo.dueDate, todo.dueTimeZone);
+  const date = `${zoned.getUTCFullYear()}-${pad(zoned.getUTCMonth() + 1)}-${pad(zoned.getUTCDate())}`;
+  return [`due:${date}T${pad(zoned.getUTCHours())}:${pad(zoned.getUTCMinutes())}`, `tz:${todo.dueTimeZone}`];
+}
+
+export function formatTodoTxtLine(todo: Todo, projects: Project[]): string {
+  const parts: string[] = [];
+  const letter = PRIORITY_LETTERS[todo.priority];
+  // Two dates after "x" are the completion and creation dates; a lone one would be read
+  // as the completion date, so without one the creation date goes in a created: key
+  const createdKey = todo.completed && !todo.completedAt;
+  if (todo.completed) {
+    parts.push('x');
+    if (todo.completedAt) parts.push(formatDateInput(todo.completedAt), formatDateInput(todo.createdAt));
+  } else {
+    if (letter) parts.push(`(${letter})`);
+    parts.push(formatDateInput(todo.createdAt));
+  }
+
+  parts.push(todo.text.replace(/\s+/g, ' ').trim());
+  // Inbox tasks name it too, so importing them with another list open leaves them in the Inbox
+  const projectId = todo.projectId || DEFAULT_PROJECT_ID;
+  const project = projects.find(p => p.id === projectId) ?? (projectId === DEFAULT_PROJECT_ID ? DEFAULT_PROJECT : undefined);
+  if (project) parts.push(`+${toWord(project.name)}`);
+  parts.push(`@${toWord(todo.category)}`);
+  (todo.tags || []).forEach(tag => parts.push(`@${tag}`));
+  parts.push(...formatDue(todo));
+  // Completed tasks keep their priority as a key, which is how todo.txt tools do it
+  if (todo.completed && letter) parts.push(`pri:${letter}`);
+  if (createdKey) parts.push(`created:${formatDateInput(todo.createdAt)}`);
+  parts.push(`id:${todo.id}`);
+  return parts.join(' ');
+}
+
+export function createTodoTxt(todos: Todo[], projects: Project[]): string {
+  return todos.map(todo => `${formatTodoTxtLine(todo, projects)}\n`).join('');
+}
+
+function parsePriorityLetter(letter: string): TodoPriority {
+  return letter === 'A' ? 'high' : letter === 'B' ? 'medium' : 'low';
+}
+
+// "2026-10-25" or "2026-10-25T17:30", read in the given zone or else locally
+function parseDue(value: string, timeZone: string | undefined): { dueDate: Date; dueAllDay: boolean } | null {
+  const [dateValue, timeValue] = value.split('T');
+  const day = parseDateInput(dateValue);
+  if (!day) return null;
+  if (timeValue === undefined) return { dueDate: day, dueAllDay: true };
+  const time = parseTimeInput(timeValue);
+  if (!time) return null;
+  if (timeZone) {
+    const wallClock = new Date(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), time.hours, time.minutes));
+    return { dueDate: fromZonedTime(wallClock, timeZone), dueAllDay: false };
+  }
+  day.setHours(time.hours, time.minutes, 0, 0);
+  return { dueDate: day, dueAllDay: false };
+}
+
+export interface TodoTxtImportOptions {
+  // Lists that "+Project" is matched against; unknown names become new lists
+  projects: Project[];
+  // Categories in use, so "@Home_Office" finds "Home Office" with its original spelling
+  categories: string[];
+  // Category for lines without a context, and the list for lines without a project
+  defaultCategory: string;
+  projectId?: string;
+  // Tasks already here, so a completion date written by day keeps its time when unchanged
+  todos?: Todo[];
+  createId?: () => string;
+  now?: Date;
+}
+
+export function parseTodoTxt(text: string, options: TodoTxtImportOptions): ParsedImport {
+  const createId = options.createId ?? (() => crypto.randomUUID());
+  const now = options.now ?? new Date();
+  const parsed: ParsedImport = { todos: [], errors: [], projects: [], fields: TODO_TXT_FIELDS };
+  const existing = new Map((options.todos || []).map(todo => [todo.id, todo]));
+
+  const findProject = (word: string): Project => {
+    const name = fromWord(word);
+    const known = [...options.projects, ...parsed.projects].find(project => sameName(project.name, name));
+    if (known) return known;
+    const color = PROJECT_COLORS[(options.projects.length + parsed.projects.length) % PROJECT_COLORS.length];
+    const project = createProject(name, color, undefined, createId());
+    parsed.projects.push(project);
+    return project;
+  };
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const row = index + 1;
+    let rest = line.trim();
+    if (!rest) return;
+    const take = (pattern: RegExp) => {
+      const match = pattern.exec(rest);
+      if (match) rest = rest.slice(match[0].length);
+      return match?.[1];
+    };
+
+    const completed = take(/^(x) /) !== undefined;
+    const letter = take(/^\(([A-Z])\) /);
+    let priority: TodoPriority = letter ? parsePriorityLetter(letter) : 'medium';
+    // After "x" the first date is the completion date and a second one the creation date
+    const firstDate = take(/^(\d{4}-\d{2}-\d{2}) /);
+    const secondDate = completed && firstDate ? take(/^(\d{4}-\d{2}-\d{2}) /) : undefined;
+    const completedOn = completed ? firstDate : undefined;
+    const createdOn = completed ? secondDate : firstDate;
+
+    const words: string[] = [];
+    const contexts: string[] = [];
+    let projectWord: string | undefined;
+    const keys: Record<string, string> = {};
+    rest.split(/\s+/).forEach(word => {
+      const key = /^(due|tz|id|pri|created):(\S+)$/.exec(word);
+      if (key && keys[key[1]] === undefined) {
+        keys[key[1]] = key[2];
+      } else if (/^\+\S+$/.test(word) && projectWord === undefined) {
+        projectWord = word.slice(1);
+      } else if (/^@\S+$/.test(word)) {
+        contexts.push(word.slice(1));
+      } else if (word) {
+        words.push(word);
+      }
+    });
+
+    const taskText = words.join(' ');
+    const label = taskText ? taskText.slice(0, 80) : undefined;
+    const fail = (reason: string) => parsed.errors.push({ row, reason, label });
+    if (!taskText) {
+      fail('Missing task text');
+      return;
+    }
+    if (taskText.length > MAX_TODO_TEXT_LENGTH) {
+      fail(`Task text is longer than ${MAX_TODO_TEXT_LENGTH} characters`);
+      return;
+    }
+    if (keys.pri && /^[A-Z]$/.test(keys.pri)) {
+      priority = parsePriorityLetter(keys.pri);
+    }
+
+    const timeZone = keys.tz && isValidTimeZone(keys.tz) ? keys.tz : undefined;
+    const due = keys.due ? parseDue(keys.due, timeZone) : undefined;
+    if (due === null) {
+      fail(`Can't read the due date "${keys.due}"`);
+      return;
+    }
+
+    const [contextCategory, ...tags] = contexts;
+    const category = contextCategory
+      ? options.categories.find(known => sameName(known, contextCategory)) ?? fromWord(contextCategory)
+      : options.defaultCategory;
+    const project = projectWord ? findProject(projectWord) : undefined;
+    const id = keys.id || createId();
+    const previousCompletedAt = existing.get(id)?.completedAt;
+    const completedAt = previousCompletedAt && formatDateInput(previousCompletedAt) === completedOn
+      ? previousCompletedAt
+      : completedOn ? parseDateInput(completedOn) : undefined;
+    const createdValue = createdOn ?? keys.created;
+
+    parsed.todos.push({
+      row,
+      todo: {
+        id,
+        text: taskText,
+        completed,
+        completedAt,
+        priority,
+        category,
+        tags: tags.length > 0 ? tags.reduce<string[]>((all, tag) => addTag(all, tag), []) : undefined,
+        createdAt: (createdValue && parseDateInput(createdValue)) || now,
+        projectId: project ? (project.id === DEFAULT_PROJECT_ID ? undefined : project.id) : options.projectId,
+        dueDate: due?.dueDate,
+        dueAllDay: due?.dueAllDay ? true : undefined,
+        dueTimeZone: due && !due.dueAllDay ? timeZone : undefined,
+      },
+    });
+  });
+  return parsed;
+}
@@ -0,0 +1,43 @@
+// Trash: deleted todos are kept for a retention period so they can be restored
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 0 keeps deleted todos until the trash is emptied by hand
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90, 0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TrashableTodo {
+  deletedAt?: Date;
+}
+
+export function isTrashed(todo: TrashableTodo): boolean {
+  return !!todo.deletedAt;
+}
+
+// When a trashed todo will be purged, or null if it is kept indefinitely
+export function getPurgeDate(todo: TrashableTodo, retentionDays: number): Date | null {
+  if (!todo.deletedAt || retentionDays <= 0) return null;
+  return new Date(new Date(todo.deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+export function isExpired(todo: TrashableTodo, retentionDays: number, now: Date = new Date()): boolean {
+  const purgeDate = getPurgeDate(todo, retentionDays);
+  return !!purgeDate && purgeDate <= now;
+}
+
+// Whole days left before purging, rounded up so "today" reads as 1
+export function daysUntilPurge(todo: TrashableTodo, retentionDays: number, now: Date = new Date()): number | null {
+  const purgeDate = getPurgeDate(todo, retentionDays);
+  if (!purgeDate) return null;
+  return Math.max(0, Math.ceil((purgeDate.getTime() - now.getTime()) / DAY_MS));
+}
+
+export function describeRetention(days: number): string {
+  if (days <= 0) return 'Never';
+  return days === 1 ? '1 day' : `${days} days`;
+}
+
+export function reviveRetentionDays(value: unknown): number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : DEFAULT_TRASH_RETENTION_DAYS;
+}